@@ -5,10 +5,41 @@ import { ConfigModule } from '@nestjs/config';
 import * as Joi from 'joi';
 
 import { UsersModule } from './users/users.module';
-import { User, Verification } from './users/entities';
+import { UsersService } from './users/users.service';
+import {
+  LoginAttempt,
+  PasswordReset,
+  Session,
+  User,
+  Verification,
+} from './users/entities';
 import { JwtModule } from './jwt/jwt.module';
 import { JwtMiddleware } from './jwt/jwt.middlewares';
-import { MailModule } from './mail';
+import {
+  MailModule,
+  mailFromEmailFromEnv,
+  mailTransportFromEnv,
+  OutboxMessage,
+} from './mail';
+import { AuthModule } from './auth/auth.module';
+import { CommonModule } from './common/common.module';
+import { GeoModule, geocoderFromEnv } from './geo';
+import { RestaurantsModule } from './restaurants/restaurants.module';
+import { Category, Dish, Restaurant } from './restaurants/entities';
+import { OrdersModule } from './orders/orders.module';
+import { DispatchModule } from './dispatch/dispatch.module';
+import { PaymentsModule } from './payments/payments.module';
+import { Payment } from './payments/entities';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { Order, OrderItem, OrderStatusChange } from './orders/entities';
+import { ReviewsModule } from './reviews/reviews.module';
+import { Review, ReviewReport } from './reviews/entities';
+import { FavoritesModule } from './favorites/favorites.module';
+import { Favorite } from './favorites/entities';
+import { CartsModule } from './carts/carts.module';
+import { Cart, CartItem } from './carts/entities';
+import { CouponsModule } from './coupons/coupons.module';
+import { Coupon, CouponRedemption } from './coupons/entities';
 
 @Module({
   imports: [
@@ -24,10 +55,59 @@ import { MailModule } from './mail';
         DB_PASSWORD: Joi.string().required(),
         DB_DATABASE: Joi.string().required(),
         PRIVATE_KEY: Joi.string().required(),
-        MAILGUN_API_KEY: Joi.string().required(),
-        MAILGUN_FROM_EMAIL: Joi.string().required(),
-        MAILGUN_DOMAIN_NAME: Joi.string().required(),
-      }),
+        ACCESS_TOKEN_EXPIRES_IN: Joi.string().default('15m'),
+        REFRESH_TOKEN_EXPIRES_IN: Joi.string().default('30d'),
+        LOGIN_MAX_ACCOUNT_FAILURES: Joi.number().integer().min(1).default(5),
+        LOGIN_ACCOUNT_LOCKOUT_MINUTES: Joi.number().min(1).default(15),
+        LOGIN_MAX_IP_FAILURES: Joi.number().integer().min(1).default(20),
+        LOGIN_IP_WINDOW_MINUTES: Joi.number().min(1).default(15),
+        MAIL_TRANSPORT: Joi.string()
+          .valid('mailgun', 'smtp', 'file', 'memory')
+          .default('mailgun'),
+        MAIL_FROM_EMAIL: Joi.string().email(),
+        // Deprecated name of MAIL_FROM_EMAIL, still read by older deployments.
+        MAILGUN_FROM_EMAIL: Joi.string().email(),
+        MAILGUN_API_KEY: Joi.string().when('MAIL_TRANSPORT', {
+          is: 'mailgun',
+          then: Joi.required(),
+        }),
+        MAILGUN_DOMAIN_NAME: Joi.string().when('MAIL_TRANSPORT', {
+          is: 'mailgun',
+          then: Joi.required(),
+        }),
+        SMTP_HOST: Joi.string().when('MAIL_TRANSPORT', {
+          is: 'smtp',
+          then: Joi.required(),
+        }),
+        SMTP_PORT: Joi.number().default(587),
+        SMTP_SECURE: Joi.boolean().default(false),
+        SMTP_USER: Joi.string(),
+        SMTP_PASSWORD: Joi.string(),
+        MAIL_OUTPUT_DIR: Joi.string().when('MAIL_TRANSPORT', {
+          is: 'file',
+          then: Joi.required(),
+        }),
+        MAIL_FILE_FORMAT: Joi.string().valid('json', 'eml').default('json'),
+        // Encrypts queued emails. Not PRIVATE_KEY, so rotating the JWT key
+        // leaves the outbox readable.
+        OUTBOX_SECRET: Joi.string().required(),
+        // The local geocoder only knows "lat,lng" and registered addresses.
+        GEOCODER: Joi.string()
+          .valid('local', 'nominatim')
+          .when('NODE_ENV', {
+            is: 'test',
+            then: Joi.any().default('local'),
+            otherwise: Joi.required(),
+          }),
+        NOMINATIM_URL: Joi.string().uri(),
+        NOMINATIM_USER_AGENT: Joi.string().when('GEOCODER', {
+          is: 'nominatim',
+          then: Joi.required(),
+        }),
+        AUTO_DISPATCH: Joi.boolean().default(false),
+        DISPATCH_OFFER_TIMEOUT_MS: Joi.number().default(30000),
+        PAYMENT_WEBHOOK_SECRET: Joi.string().required(),
+      }).or('MAIL_FROM_EMAIL', 'MAILGUN_FROM_EMAIL'),
     }),
     TypeOrmModule.forRoot({
       type: 'postgres',
@@ -38,23 +118,90 @@ import { MailModule } from './mail';
       database: process.env.DB_DATABASE,
       synchronize: process.env.NODE_ENV !== 'prod',
       logging: process.env.NODE_ENV !== 'prod' && process.env.NODE_ENV !== 'test',
-      entities: [User, Verification],
+      entities: [
+        User,
+        Verification,
+        PasswordReset,
+        Session,
+        LoginAttempt,
+        Restaurant,
+        Category,
+        Dish,
+        Order,
+        OrderItem,
+        OrderStatusChange,
+        Payment,
+        OutboxMessage,
+        Review,
+        ReviewReport,
+        Favorite,
+        Cart,
+        CartItem,
+        Coupon,
+        CouponRedemption,
+      ],
     }),
-    GraphQLModule.forRoot({
-      autoSchemaFile: true,
-      context: ({ req }) => ({
-        user: req['user'],
-      })
+    GraphQLModule.forRootAsync({
+      imports: [UsersModule],
+      inject: [UsersService],
+      useFactory: (usersService: UsersService) => ({
+        autoSchemaFile: true,
+        subscriptions: {
+          'subscriptions-transport-ws': {
+            // Websocket operations get their context from here instead of
+            // the JwtMiddleware, which only sees HTTP requests.
+            onConnect: async (connectionParams: Record<string, unknown>) => {
+              const token = connectionParams['x-jwt'];
+              if (!token) {
+                return { user: undefined };
+              }
+
+              try {
+                const session = await usersService.findSessionByToken(
+                  token.toString(),
+                );
+                return { user: session?.user, session };
+              } catch (error) {
+                return { user: undefined };
+              }
+            },
+          },
+        },
+        context: ({ req }) => ({
+          user: req['user'],
+          session: req['session'],
+          ip: req.ip,
+        }),
+      }),
     }),
     JwtModule.forRoot({
       privateKey: process.env.PRIVATE_KEY,
+      accessTokenExpiresIn: process.env.ACCESS_TOKEN_EXPIRES_IN ?? '15m',
+      refreshTokenExpiresIn: process.env.REFRESH_TOKEN_EXPIRES_IN ?? '30d',
     }),
     MailModule.forRoot({
-      apiKey: process.env.MAILGUN_API_KEY,
-      fromEmail: process.env.MAILGUN_FROM_EMAIL,
-      domain: process.env.MAILGUN_DOMAIN_NAME,
+      fromEmail: mailFromEmailFromEnv(),
+      outboxSecret: process.env.OUTBOX_SECRET,
+      transport: mailTransportFromEnv(),
     }),
+    CommonModule,
+    GeoModule.forRoot(geocoderFromEnv()),
+    AuthModule,
     UsersModule,
+    RestaurantsModule,
+    OrdersModule,
+    DispatchModule.forRoot({
+      autoDispatch: process.env.AUTO_DISPATCH === 'true',
+      offerTimeoutMs: +(process.env.DISPATCH_OFFER_TIMEOUT_MS ?? 30000),
+    }),
+    PaymentsModule.forRoot({
+      webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET,
+    }),
+    SchedulerModule,
+    ReviewsModule,
+    FavoritesModule,
+    CartsModule,
+    CouponsModule,
   ],
   controllers: [],
   providers: [],
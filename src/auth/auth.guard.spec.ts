@@ -0,0 +1,75 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GqlExecutionContext } from '@nestjs/graphql';
+
+import { AuthGuard } from './auth.guard';
+import { UserRole } from '../users/entities';
+
+const mockExecutionContext = () => {
+  const context: Partial<ExecutionContext> = {
+    getHandler: jest.fn(),
+    getClass: jest.fn(),
+  };
+
+  return context as ExecutionContext;
+};
+
+const mockGqlExecutionContext = (user: unknown) => {
+  const context: Partial<GqlExecutionContext> = {
+    getContext: jest.fn().mockReturnValue({ user }),
+  };
+
+  return context as GqlExecutionContext;
+};
+
+describe('AuthGuard', () => {
+  let reflector: Reflector;
+  let guard: AuthGuard;
+
+  const withUser = (user: unknown) =>
+    jest
+      .spyOn(GqlExecutionContext, 'create')
+      .mockReturnValue(mockGqlExecutionContext(user));
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    guard = new AuthGuard(reflector);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should allow resolvers without roles metadata', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+    withUser(undefined);
+
+    expect(guard.canActivate(mockExecutionContext())).toEqual(true);
+  });
+
+  it('should deny logged out users', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['Any']);
+    withUser(undefined);
+
+    expect(guard.canActivate(mockExecutionContext())).toEqual(false);
+  });
+
+  it('should allow any logged in user for Any', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['Any']);
+    withUser({ role: UserRole.Client });
+
+    expect(guard.canActivate(mockExecutionContext())).toEqual(true);
+  });
+
+  it('should allow users with a matching role', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['Owner']);
+    withUser({ role: UserRole.Owner });
+
+    expect(guard.canActivate(mockExecutionContext())).toEqual(true);
+  });
+
+  it('should deny users with another role', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['Owner']);
+    withUser({ role: UserRole.Client });
+
+    expect(guard.canActivate(mockExecutionContext())).toEqual(false);
+  });
+});
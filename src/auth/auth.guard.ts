@@ -1,11 +1,34 @@
-import { CanActivate, ExecutionContext, Injectable } from "@nestjs/common";
-import { Observable } from "rxjs";
-import { GqlExecutionContext } from "@nestjs/graphql";
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GqlExecutionContext } from '@nestjs/graphql';
+
+import { AllowedRoles, ROLES_KEY } from './role.decorator';
+import { User, UserRole } from '../users/entities';
 
 @Injectable()
 export class AuthGuard implements CanActivate {
-  canActivate(context: ExecutionContext): boolean | Promise<boolean> | Observable<boolean> {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<AllowedRoles[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    // Resolvers without @Role() metadata stay public.
+    if (!roles) {
+      return true;
+    }
+
     const gqlContext = GqlExecutionContext.create(context).getContext();
-    return gqlContext['user'];
+    const user: User = gqlContext['user'];
+    if (!user) {
+      return false;
+    }
+
+    return (
+      roles.includes('Any') ||
+      roles.includes(UserRole[user.role] as AllowedRoles)
+    );
   }
-}
\ No newline at end of file
+}
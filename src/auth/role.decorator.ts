@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { UserRole } from '../users/entities';
+
+export const ROLES_KEY = 'roles';
+
+export type AllowedRoles = keyof typeof UserRole | 'Any';
+
+export const Role = (...roles: AllowedRoles[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { CartsResolver } from './carts.resolver';
+import { CartsService } from './carts.service';
+import { Cart, CartItem } from './entities';
+import { Dish } from '../restaurants/entities';
+import { OrdersModule } from '../orders/orders.module';
+import { CouponsModule } from '../coupons/coupons.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Cart, CartItem, Dish]),
+    OrdersModule,
+    CouponsModule,
+  ],
+  providers: [CartsResolver, CartsService],
+})
+export class CartsModule {}
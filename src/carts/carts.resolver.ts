@@ -0,0 +1,90 @@
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+
+import { Cart } from './entities';
+import { CartsService } from './carts.service';
+import {
+  AddToCartInput,
+  AddToCartOutput,
+  ApplyCouponInput,
+  ApplyCouponOutput,
+  CheckoutInput,
+  CheckoutOutput,
+  ClearCartOutput,
+  MyCartOutput,
+  RemoveFromCartInput,
+  RemoveCouponOutput,
+  RemoveFromCartOutput,
+  UpdateCartItemInput,
+  UpdateCartItemOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { AuthUser } from '../auth/auth-user.decorator';
+import { Role } from '../auth/role.decorator';
+
+@Resolver(() => Cart)
+export class CartsResolver {
+  constructor(private readonly cartsService: CartsService) {}
+
+  @Query(() => MyCartOutput)
+  @Role('Client')
+  myCart(@AuthUser() client: User): Promise<MyCartOutput> {
+    return this.cartsService.myCart(client);
+  }
+
+  @Mutation(() => AddToCartOutput)
+  @Role('Client')
+  addToCart(
+    @AuthUser() client: User,
+    @Args('input') addToCartInput: AddToCartInput,
+  ): Promise<AddToCartOutput> {
+    return this.cartsService.addToCart(client, addToCartInput);
+  }
+
+  @Mutation(() => UpdateCartItemOutput)
+  @Role('Client')
+  updateCartItem(
+    @AuthUser() client: User,
+    @Args('input') updateCartItemInput: UpdateCartItemInput,
+  ): Promise<UpdateCartItemOutput> {
+    return this.cartsService.updateCartItem(client, updateCartItemInput);
+  }
+
+  @Mutation(() => RemoveFromCartOutput)
+  @Role('Client')
+  removeFromCart(
+    @AuthUser() client: User,
+    @Args('input') removeFromCartInput: RemoveFromCartInput,
+  ): Promise<RemoveFromCartOutput> {
+    return this.cartsService.removeFromCart(client, removeFromCartInput);
+  }
+
+  @Mutation(() => ClearCartOutput)
+  @Role('Client')
+  clearCart(@AuthUser() client: User): Promise<ClearCartOutput> {
+    return this.cartsService.clearCart(client);
+  }
+
+  @Mutation(() => ApplyCouponOutput)
+  @Role('Client')
+  applyCoupon(
+    @AuthUser() client: User,
+    @Args('input') applyCouponInput: ApplyCouponInput,
+  ): Promise<ApplyCouponOutput> {
+    return this.cartsService.applyCoupon(client, applyCouponInput);
+  }
+
+  @Mutation(() => RemoveCouponOutput)
+  @Role('Client')
+  removeCoupon(@AuthUser() client: User): Promise<RemoveCouponOutput> {
+    return this.cartsService.removeCoupon(client);
+  }
+
+  @Mutation(() => CheckoutOutput)
+  @Role('Client')
+  checkout(
+    @AuthUser() client: User,
+    @Args('input') checkoutInput: CheckoutInput,
+  ): Promise<CheckoutOutput> {
+    return this.cartsService.checkout(client, checkoutInput);
+  }
+}
@@ -0,0 +1,602 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Cart, CartItem } from './entities';
+import { CartsService } from './carts.service';
+import { User } from '../users/entities';
+import { Dish } from '../restaurants/entities';
+import { OrdersService } from '../orders/orders.service';
+import { CouponsService } from '../coupons/coupons.service';
+
+const mockRepository = () => ({
+  findOne: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn((entity) => entity),
+  update: jest.fn(),
+  delete: jest.fn(),
+});
+
+const mockOrdersService = () => ({
+  priceOrderItems: jest.fn(),
+  createOrder: jest.fn(),
+});
+
+const mockCouponsService = () => ({
+  priceCoupon: jest.fn(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+describe('CartsService', () => {
+  let cartsRepository: MockRepository<Cart>;
+  let cartItemsRepository: MockRepository<CartItem>;
+  let dishesRepository: MockRepository<Dish>;
+  let ordersService: ReturnType<typeof mockOrdersService>;
+  let couponsService: ReturnType<typeof mockCouponsService>;
+  let service: CartsService;
+
+  const client = { id: 1 } as User;
+  const restaurant = { id: 2, name: 'Pizza' };
+  const otherRestaurant = { id: 3, name: 'Sushi' };
+  const dish = {
+    id: 4,
+    price: 10,
+    restaurantId: 2,
+    restaurant,
+    options: [{ name: 'Size', choices: [{ name: 'L', extra: 3 }] }],
+  };
+
+  const cartWith = (
+    items: Record<string, unknown>[],
+    cartRestaurant = restaurant,
+  ) => ({
+    id: 5,
+    restaurant: items.length ? cartRestaurant : undefined,
+    restaurantId: items.length ? cartRestaurant.id : undefined,
+    items: items.map((item) => ({ ...item })),
+  });
+  const pizzaItem = { id: 6, dish, dishId: 4, quantity: 2, options: [] };
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        CartsService,
+        {
+          provide: getRepositoryToken(Cart),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(CartItem),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Dish),
+          useValue: mockRepository(),
+        },
+        {
+          provide: OrdersService,
+          useValue: mockOrdersService(),
+        },
+        {
+          provide: CouponsService,
+          useValue: mockCouponsService(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<CartsService>(CartsService);
+    cartsRepository = module.get(getRepositoryToken(Cart));
+    cartItemsRepository = module.get(getRepositoryToken(CartItem));
+    dishesRepository = module.get(getRepositoryToken(Dish));
+    ordersService = module.get(OrdersService);
+    couponsService = module.get(CouponsService);
+  });
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  describe('myCart', () => {
+    it('should price the cart from the current menu', async () => {
+      cartsRepository.findOne.mockResolvedValue(
+        cartWith([
+          pizzaItem,
+          {
+            id: 7,
+            dish,
+            dishId: 4,
+            quantity: 1,
+            options: [{ name: 'Size', choice: 'L' }],
+          },
+        ]),
+      );
+
+      const { ok, cart } = await service.myCart(client);
+
+      expect(cartsRepository.findOne).toHaveBeenCalledWith(
+        { user: { id: 1 } },
+        { relations: ['restaurant', 'coupon', 'items', 'items.dish'] },
+      );
+      expect(ok).toBe(true);
+      expect(cart.items.map(({ price }) => price)).toEqual([10, 13]);
+      expect(cart.subtotal).toEqual(33);
+      expect(cart.discount).toEqual(0);
+      expect(cart.total).toEqual(33);
+      expect(couponsService.priceCoupon).not.toHaveBeenCalled();
+    });
+
+    it("should take off the coupon's discount", async () => {
+      couponsService.priceCoupon.mockResolvedValue({ discount: 2 });
+      cartsRepository.findOne.mockResolvedValue({
+        ...cartWith([pizzaItem]),
+        coupon: { id: 9, code: 'SAVE10' },
+      });
+
+      const { cart } = await service.myCart(client);
+
+      expect(couponsService.priceCoupon).toHaveBeenCalledWith(
+        client,
+        'SAVE10',
+        2,
+        20,
+      );
+      expect(cart.discount).toEqual(2);
+      expect(cart.total).toEqual(18);
+      expect(cart.couponError).toBeUndefined();
+    });
+
+    it('should explain why the coupon no longer applies', async () => {
+      couponsService.priceCoupon.mockResolvedValue({
+        error: 'Coupon has expired.',
+      });
+      cartsRepository.findOne.mockResolvedValue({
+        ...cartWith([pizzaItem]),
+        coupon: { id: 9, code: 'SAVE10' },
+      });
+
+      const { cart } = await service.myCart(client);
+
+      expect(cart.discount).toEqual(0);
+      expect(cart.total).toEqual(20);
+      expect(cart.couponError).toEqual('Coupon has expired.');
+    });
+
+    it('should leave out choices that are no longer on the menu', async () => {
+      cartsRepository.findOne.mockResolvedValue(
+        cartWith([
+          pizzaItem,
+          {
+            id: 7,
+            dish,
+            dishId: 4,
+            quantity: 1,
+            options: [{ name: 'Size', choice: 'XL' }],
+          },
+        ]),
+      );
+
+      const { cart } = await service.myCart(client);
+
+      expect(cart.items[1].price).toBeUndefined();
+      expect(cart.total).toEqual(20);
+    });
+
+    it('should create the cart on first use', async () => {
+      cartsRepository.findOne.mockResolvedValue(undefined);
+      cartsRepository.save.mockImplementation(async (cart) => ({
+        id: 5,
+        ...cart,
+      }));
+
+      const { cart } = await service.myCart(client);
+
+      expect(cartsRepository.save).toHaveBeenCalledWith({
+        user: client,
+        items: [],
+      });
+      expect(cart.total).toEqual(0);
+    });
+
+    it('should fail on exception', async () => {
+      cartsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.myCart(client);
+
+      expect(result).toEqual({ ok: false, error: 'Could not load cart.' });
+    });
+  });
+
+  describe('addToCart', () => {
+    const input = { dishId: 4, quantity: 1, options: [], replaceCart: false };
+
+    beforeEach(() => {
+      dishesRepository.findOne.mockResolvedValue(dish);
+      ordersService.priceOrderItems.mockResolvedValue({ total: 10 });
+    });
+
+    it('should add a new item and set the restaurant', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([]));
+
+      const result = await service.addToCart(client, input);
+
+      expect(ordersService.priceOrderItems).toHaveBeenCalledWith(restaurant, [
+        { dishId: 4, quantity: 1, options: [] },
+      ]);
+      expect(cartItemsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ dish, quantity: 1, options: [] }),
+      );
+      expect(cartsRepository.update).toHaveBeenCalledWith(5, { restaurant });
+      expect(result.ok).toBe(true);
+    });
+
+    it('should add to an item with the same choices', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+
+      await service.addToCart(client, input);
+
+      expect(cartItemsRepository.update).toHaveBeenCalledWith(6, {
+        quantity: 3,
+      });
+      expect(cartItemsRepository.save).not.toHaveBeenCalled();
+      expect(cartsRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep items with other choices apart', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+
+      await service.addToCart(client, {
+        ...input,
+        options: [{ name: 'Size', choice: 'L' }],
+      });
+
+      expect(cartItemsRepository.update).not.toHaveBeenCalled();
+      expect(cartItemsRepository.save).toHaveBeenCalled();
+    });
+
+    it('should report a conflict with another restaurant', async () => {
+      cartsRepository.findOne.mockResolvedValue(
+        cartWith([pizzaItem], otherRestaurant),
+      );
+
+      const result = await service.addToCart(client, input);
+
+      expect(cartItemsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual(
+        expect.objectContaining({
+          ok: false,
+          error: 'Your cart has dishes from another restaurant.',
+          conflict: {
+            cartRestaurant: otherRestaurant,
+            dishRestaurant: restaurant,
+          },
+        }),
+      );
+    });
+
+    it('should replace the cart if asked to', async () => {
+      cartsRepository.findOne.mockResolvedValue(
+        cartWith([pizzaItem], otherRestaurant),
+      );
+
+      const result = await service.addToCart(client, {
+        ...input,
+        replaceCart: true,
+      });
+
+      expect(cartItemsRepository.delete).toHaveBeenCalledWith([6]);
+      expect(cartItemsRepository.save).toHaveBeenCalled();
+      expect(cartsRepository.update).toHaveBeenLastCalledWith(5, {
+        restaurant,
+      });
+      expect(result.ok).toBe(true);
+    });
+
+    it('should fail if the dish does not exist', async () => {
+      dishesRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.addToCart(client, input);
+
+      expect(result).toEqual({ ok: false, error: 'Dish not found.' });
+    });
+
+    it('should fail on choices that are not on the menu', async () => {
+      ordersService.priceOrderItems.mockResolvedValue({
+        error: 'Choice "XL" not found for Size.',
+      });
+      const result = await service.addToCart(client, input);
+
+      expect(cartsRepository.findOne).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Choice "XL" not found for Size.',
+      });
+    });
+
+    it('should fail on exception', async () => {
+      dishesRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.addToCart(client, input);
+
+      expect(result).toEqual({ ok: false, error: 'Could not add to cart.' });
+    });
+  });
+
+  describe('updateCartItem', () => {
+    it('should change the quantity', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+
+      const result = await service.updateCartItem(client, {
+        id: 6,
+        quantity: 5,
+      });
+
+      expect(ordersService.priceOrderItems).not.toHaveBeenCalled();
+      expect(cartItemsRepository.update).toHaveBeenCalledWith(6, {
+        quantity: 5,
+      });
+      expect(result.ok).toBe(true);
+    });
+
+    it('should check new choices against the menu', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+      ordersService.priceOrderItems.mockResolvedValue({ total: 13 });
+      const options = [{ name: 'Size', choice: 'L' }];
+
+      await service.updateCartItem(client, { id: 6, quantity: 1, options });
+
+      expect(ordersService.priceOrderItems).toHaveBeenCalledWith(restaurant, [
+        { dishId: 4, quantity: 1, options },
+      ]);
+      expect(cartItemsRepository.update).toHaveBeenCalledWith(6, {
+        quantity: 1,
+        options,
+      });
+    });
+
+    it('should fail on items that are not in the cart', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+      const result = await service.updateCartItem(client, {
+        id: 99,
+        quantity: 1,
+      });
+
+      expect(result).toEqual({ ok: false, error: 'Cart item not found.' });
+    });
+
+    it('should fail on exception', async () => {
+      cartsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.updateCartItem(client, {
+        id: 6,
+        quantity: 1,
+      });
+
+      expect(result).toEqual({ ok: false, error: 'Could not update cart.' });
+    });
+  });
+
+  describe('removeFromCart', () => {
+    it('should remove the item', async () => {
+      cartsRepository.findOne.mockResolvedValue(
+        cartWith([pizzaItem, { ...pizzaItem, id: 7 }]),
+      );
+
+      const result = await service.removeFromCart(client, { id: 7 });
+
+      expect(cartItemsRepository.delete).toHaveBeenCalledWith(7);
+      expect(cartsRepository.update).not.toHaveBeenCalled();
+      expect(result.ok).toBe(true);
+    });
+
+    it('should unset the restaurant with the last item', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+
+      await service.removeFromCart(client, { id: 6 });
+
+      expect(cartItemsRepository.delete).toHaveBeenCalledWith([6]);
+      expect(cartsRepository.update).toHaveBeenCalledWith(5, {
+        restaurant: null,
+        coupon: null,
+      });
+    });
+
+    it('should fail on items that are not in the cart', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+      const result = await service.removeFromCart(client, { id: 99 });
+
+      expect(result).toEqual({ ok: false, error: 'Cart item not found.' });
+    });
+
+    it('should fail on exception', async () => {
+      cartsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.removeFromCart(client, { id: 6 });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not remove from cart.',
+      });
+    });
+  });
+
+  describe('clearCart', () => {
+    it('should remove every item', async () => {
+      cartsRepository.findOne.mockResolvedValue(
+        cartWith([pizzaItem, { ...pizzaItem, id: 7 }]),
+      );
+
+      const result = await service.clearCart(client);
+
+      expect(cartItemsRepository.delete).toHaveBeenCalledWith([6, 7]);
+      expect(cartsRepository.update).toHaveBeenCalledWith(5, {
+        restaurant: null,
+        coupon: null,
+      });
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail on exception', async () => {
+      cartsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.clearCart(client);
+
+      expect(result).toEqual({ ok: false, error: 'Could not clear cart.' });
+    });
+  });
+
+  describe('applyCoupon', () => {
+    const coupon = { id: 9, code: 'SAVE10' };
+
+    it('should keep a coupon that applies to the cart', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+      couponsService.priceCoupon.mockResolvedValue({ coupon, discount: 2 });
+
+      const result = await service.applyCoupon(client, { code: 'save10' });
+
+      expect(couponsService.priceCoupon).toHaveBeenCalledWith(
+        client,
+        'save10',
+        2,
+        20,
+      );
+      expect(cartsRepository.update).toHaveBeenCalledWith(5, { coupon });
+      expect(result.ok).toBe(true);
+    });
+
+    it('should not keep a coupon that does not apply', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+      couponsService.priceCoupon.mockResolvedValue({
+        error: 'Order total is below the coupon minimum.',
+      });
+
+      const result = await service.applyCoupon(client, { code: 'BIG' });
+
+      expect(cartsRepository.update).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Order total is below the coupon minimum.',
+      });
+    });
+
+    it('should fail on an empty cart', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([]));
+      const result = await service.applyCoupon(client, { code: 'SAVE10' });
+
+      expect(couponsService.priceCoupon).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: false, error: 'Your cart is empty.' });
+    });
+
+    it('should fail on exception', async () => {
+      cartsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.applyCoupon(client, { code: 'SAVE10' });
+
+      expect(result).toEqual({ ok: false, error: 'Could not apply coupon.' });
+    });
+  });
+
+  describe('removeCoupon', () => {
+    it('should take the coupon off the cart', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+
+      const result = await service.removeCoupon(client);
+
+      expect(cartsRepository.update).toHaveBeenCalledWith(5, { coupon: null });
+      expect(result.ok).toBe(true);
+    });
+
+    it('should fail on exception', async () => {
+      cartsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.removeCoupon(client);
+
+      expect(result).toEqual({ ok: false, error: 'Could not remove coupon.' });
+    });
+  });
+
+  describe('checkout', () => {
+    const destination = { address: 'Home', lat: 50, lng: 30 };
+    let transactionCarts: ReturnType<typeof mockRepository>;
+    let transactionCartItems: ReturnType<typeof mockRepository>;
+
+    // Runs `onPlaced` like `createOrder` does, inside its transaction.
+    const placeOrder = (output: Record<string, unknown>) =>
+      ordersService.createOrder.mockImplementation(
+        async (_customer, _input, onPlaced) => {
+          await onPlaced({
+            getRepository: (entity) =>
+              entity === Cart ? transactionCarts : transactionCartItems,
+          });
+          return output;
+        },
+      );
+
+    beforeEach(() => {
+      transactionCarts = mockRepository();
+      transactionCartItems = mockRepository();
+    });
+
+    it('should place the order and empty the cart', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+      placeOrder({ ok: true, orderId: 8, total: 20 });
+
+      const result = await service.checkout(client, destination);
+
+      expect(ordersService.createOrder).toHaveBeenCalledWith(
+        client,
+        {
+          ...destination,
+          restaurantId: 2,
+          items: [{ dishId: 4, quantity: 2, options: [] }],
+        },
+        expect.any(Function),
+      );
+      expect(transactionCartItems.delete).toHaveBeenCalledWith([6]);
+      expect(cartItemsRepository.delete).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: true, orderId: 8, total: 20 });
+    });
+
+    it("should redeem the cart's coupon", async () => {
+      couponsService.priceCoupon.mockResolvedValue({ discount: 2 });
+      cartsRepository.findOne.mockResolvedValue({
+        ...cartWith([pizzaItem]),
+        coupon: { id: 9, code: 'SAVE10' },
+      });
+      placeOrder({ ok: true, orderId: 8 });
+
+      await service.checkout(client, destination);
+
+      expect(ordersService.createOrder).toHaveBeenCalledWith(
+        client,
+        expect.objectContaining({ couponCode: 'SAVE10' }),
+        expect.any(Function),
+      );
+      expect(transactionCarts.update).toHaveBeenCalledWith(5, {
+        restaurant: null,
+        coupon: null,
+      });
+    });
+
+    it('should keep the cart if the order fails', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([pizzaItem]));
+      ordersService.createOrder.mockResolvedValue({
+        ok: false,
+        error: 'Address is outside the delivery area.',
+      });
+
+      const result = await service.checkout(client, destination);
+
+      expect(cartItemsRepository.delete).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Address is outside the delivery area.',
+      });
+    });
+
+    it('should fail on an empty cart', async () => {
+      cartsRepository.findOne.mockResolvedValue(cartWith([]));
+      const result = await service.checkout(client, destination);
+
+      expect(ordersService.createOrder).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: false, error: 'Your cart is empty.' });
+    });
+
+    it('should fail on exception', async () => {
+      cartsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.checkout(client, destination);
+
+      expect(result).toEqual({ ok: false, error: 'Could not check out.' });
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+
+import { Cart, CartItem, CartItemOption } from './entities';
+import {
+  AddToCartInput,
+  AddToCartOutput,
+  ApplyCouponInput,
+  ApplyCouponOutput,
+  CheckoutInput,
+  CheckoutOutput,
+  ClearCartOutput,
+  MyCartOutput,
+  RemoveFromCartInput,
+  RemoveCouponOutput,
+  RemoveFromCartOutput,
+  UpdateCartItemInput,
+  UpdateCartItemOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { Dish } from '../restaurants/entities';
+import { OrdersService } from '../orders/orders.service';
+import { CouponsService } from '../coupons/coupons.service';
+
+@Injectable()
+export class CartsService {
+  constructor(
+    @InjectRepository(Cart) private readonly carts: Repository<Cart>,
+    @InjectRepository(CartItem)
+    private readonly cartItems: Repository<CartItem>,
+    @InjectRepository(Dish) private readonly dishes: Repository<Dish>,
+    private readonly ordersService: OrdersService,
+    private readonly couponsService: CouponsService,
+  ) {}
+
+  async myCart(client: User): Promise<MyCartOutput> {
+    try {
+      return { ok: true, cart: await this.loadCart(client) };
+    } catch (error) {
+      return { ok: false, error: 'Could not load cart.' };
+    }
+  }
+
+  /**
+   * Adds a dish, or more of it if the cart already has it with the same
+   * choices. A cart only holds dishes from one restaurant: adding from
+   * another one returns a conflict unless `replaceCart` is set.
+   */
+  async addToCart(
+    client: User,
+    { dishId, quantity = 1, options = [], replaceCart }: AddToCartInput,
+  ): Promise<AddToCartOutput> {
+    try {
+      const dish = await this.dishes.findOne(dishId, {
+        relations: ['restaurant'],
+      });
+      if (!dish) {
+        return { ok: false, error: 'Dish not found.' };
+      }
+
+      const { error } = await this.ordersService.priceOrderItems(
+        dish.restaurant,
+        [{ dishId, quantity, options }],
+      );
+      if (error) {
+        return { ok: false, error };
+      }
+
+      const cart = await this.loadCart(client);
+      if (cart.items.length && cart.restaurantId !== dish.restaurantId) {
+        if (!replaceCart) {
+          return {
+            ok: false,
+            error: 'Your cart has dishes from another restaurant.',
+            cart,
+            conflict: {
+              cartRestaurant: cart.restaurant,
+              dishRestaurant: dish.restaurant,
+            },
+          };
+        }
+
+        await this.emptyCart(cart);
+      }
+
+      const item = cart.items.find(
+        (item) =>
+          item.dishId === dishId && this.sameOptions(item.options, options),
+      );
+      if (item) {
+        await this.cartItems.update(item.id, {
+          quantity: item.quantity + quantity,
+        });
+      } else {
+        await this.cartItems.save(
+          this.cartItems.create({ cart, dish, quantity, options }),
+        );
+      }
+
+      if (cart.restaurantId !== dish.restaurantId) {
+        await this.carts.update(cart.id, { restaurant: dish.restaurant });
+      }
+
+      return { ok: true, cart: await this.loadCart(client) };
+    } catch (error) {
+      return { ok: false, error: 'Could not add to cart.' };
+    }
+  }
+
+  async updateCartItem(
+    client: User,
+    { id, quantity, options }: UpdateCartItemInput,
+  ): Promise<UpdateCartItemOutput> {
+    try {
+      const cart = await this.loadCart(client);
+      const item = cart.items.find((item) => item.id === id);
+      if (!item) {
+        return { ok: false, error: 'Cart item not found.' };
+      }
+
+      if (options) {
+        const { error } = await this.ordersService.priceOrderItems(
+          cart.restaurant,
+          [{ dishId: item.dishId, quantity, options }],
+        );
+        if (error) {
+          return { ok: false, error };
+        }
+      }
+
+      await this.cartItems.update(id, {
+        quantity,
+        ...(options && { options }),
+      });
+
+      return { ok: true, cart: await this.loadCart(client) };
+    } catch (error) {
+      return { ok: false, error: 'Could not update cart.' };
+    }
+  }
+
+  async removeFromCart(
+    client: User,
+    { id }: RemoveFromCartInput,
+  ): Promise<RemoveFromCartOutput> {
+    try {
+      const cart = await this.loadCart(client);
+      const item = cart.items.find((item) => item.id === id);
+      if (!item) {
+        return { ok: false, error: 'Cart item not found.' };
+      }
+
+      if (cart.items.length === 1) {
+        await this.emptyCart(cart);
+      } else {
+        await this.cartItems.delete(id);
+      }
+
+      return { ok: true, cart: await this.loadCart(client) };
+    } catch (error) {
+      return { ok: false, error: 'Could not remove from cart.' };
+    }
+  }
+
+  async clearCart(client: User): Promise<ClearCartOutput> {
+    try {
+      await this.emptyCart(await this.loadCart(client));
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not clear cart.' };
+    }
+  }
+
+  async applyCoupon(
+    client: User,
+    { code }: ApplyCouponInput,
+  ): Promise<ApplyCouponOutput> {
+    try {
+      const cart = await this.loadCart(client);
+      if (!cart.items.length) {
+        return { ok: false, error: 'Your cart is empty.' };
+      }
+
+      const { coupon, error } = await this.couponsService.priceCoupon(
+        client,
+        code,
+        cart.restaurantId,
+        cart.subtotal,
+      );
+      if (error) {
+        return { ok: false, error };
+      }
+
+      await this.carts.update(cart.id, { coupon });
+
+      return { ok: true, cart: await this.loadCart(client) };
+    } catch (error) {
+      return { ok: false, error: 'Could not apply coupon.' };
+    }
+  }
+
+  async removeCoupon(client: User): Promise<RemoveCouponOutput> {
+    try {
+      const cart = await this.loadCart(client);
+      await this.carts.update(cart.id, { coupon: null });
+
+      return { ok: true, cart: await this.loadCart(client) };
+    } catch (error) {
+      return { ok: false, error: 'Could not remove coupon.' };
+    }
+  }
+
+  /**
+   * Places the cart as an order, validated and priced exactly like
+   * `createOrder`. The cart is emptied in the transaction that places the
+   * order, so a placed order never leaves a full cart behind.
+   */
+  async checkout(
+    client: User,
+    destination: CheckoutInput,
+  ): Promise<CheckoutOutput> {
+    try {
+      const cart = await this.loadCart(client);
+      if (!cart.items.length) {
+        return { ok: false, error: 'Your cart is empty.' };
+      }
+
+      return await this.ordersService.createOrder(
+        client,
+        {
+          ...destination,
+          restaurantId: cart.restaurantId,
+          couponCode: cart.coupon?.code,
+          items: cart.items.map(({ dishId, quantity, options }) => ({
+            dishId,
+            quantity,
+            options,
+          })),
+        },
+        (manager) => this.emptyCart(cart, manager),
+      );
+    } catch (error) {
+      return { ok: false, error: 'Could not check out.' };
+    }
+  }
+
+  /**
+   * The user's cart, created on first use, priced from the current menu
+   * with the coupon's discount as it would be at checkout.
+   */
+  private async loadCart(user: User): Promise<Cart> {
+    const cart =
+      (await this.carts.findOne(
+        { user: { id: user.id } },
+        { relations: ['restaurant', 'coupon', 'items', 'items.dish'] },
+      )) ?? (await this.carts.save(this.carts.create({ user, items: [] })));
+
+    cart.items.sort((a, b) => a.id - b.id);
+    cart.subtotal = 0;
+    for (const item of cart.items) {
+      item.price = this.priceItem(item);
+      cart.subtotal += (item.price ?? 0) * item.quantity;
+    }
+
+    cart.discount = 0;
+    if (cart.coupon && cart.items.length) {
+      const { discount, error } = await this.couponsService.priceCoupon(
+        user,
+        cart.coupon.code,
+        cart.restaurantId,
+        cart.subtotal,
+      );
+      cart.discount = discount ?? 0;
+      cart.couponError = error;
+    }
+    cart.total = cart.subtotal - cart.discount;
+
+    return cart;
+  }
+
+  private priceItem({ dish, options = [] }: CartItem): number | undefined {
+    let price = dish.price;
+    for (const { name, choice } of options) {
+      const dishChoice = dish.options
+        ?.find((option) => option.name === name)
+        ?.choices.find((option) => option.name === choice);
+      if (!dishChoice) {
+        return undefined;
+      }
+
+      price += dishChoice.extra ?? 0;
+    }
+
+    return price;
+  }
+
+  private sameOptions(
+    a: CartItemOption[] = [],
+    b: CartItemOption[] = [],
+  ): boolean {
+    const key = (options: CartItemOption[]) =>
+      options
+        .map(({ name, choice }) => JSON.stringify([name, choice]))
+        .sort()
+        .join();
+
+    return key(a) === key(b);
+  }
+
+  private async emptyCart(cart: Cart, manager?: EntityManager): Promise<void> {
+    const cartItems = manager
+      ? manager.getRepository(CartItem)
+      : this.cartItems;
+    const carts = manager ? manager.getRepository(Cart) : this.carts;
+
+    if (cart.items.length) {
+      await cartItems.delete(cart.items.map(({ id }) => id));
+    }
+
+    await carts.update(cart.id, { restaurant: null, coupon: null });
+    cart.items = [];
+  }
+}
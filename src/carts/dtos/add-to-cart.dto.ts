@@ -0,0 +1,35 @@
+import { Field, InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { IsBoolean } from 'class-validator';
+import { CartItem } from '../entities';
+import { Restaurant } from '../../restaurants/entities';
+import { MyCartOutput } from './my-cart.dto';
+
+@InputType()
+export class AddToCartInput extends PickType(CartItem, [
+  'quantity',
+  'options',
+]) {
+  @Field(() => Number)
+  dishId: number;
+
+  // Empty a cart holding another restaurant's dishes instead of failing.
+  @Field(() => Boolean, { defaultValue: false })
+  @IsBoolean()
+  replaceCart: boolean;
+}
+
+/** The cart holds dishes from one restaurant and the new dish is from another. */
+@ObjectType()
+export class CartConflict {
+  @Field(() => Restaurant)
+  cartRestaurant: Restaurant;
+
+  @Field(() => Restaurant)
+  dishRestaurant: Restaurant;
+}
+
+@ObjectType()
+export class AddToCartOutput extends MyCartOutput {
+  @Field(() => CartConflict, { nullable: true })
+  conflict?: CartConflict;
+}
@@ -0,0 +1,16 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { IsString } from 'class-validator';
+import { MyCartOutput } from './my-cart.dto';
+
+@InputType()
+export class ApplyCouponInput {
+  @Field(() => String)
+  @IsString()
+  code: string;
+}
+
+@ObjectType()
+export class ApplyCouponOutput extends MyCartOutput {}
+
+@ObjectType()
+export class RemoveCouponOutput extends MyCartOutput {}
@@ -0,0 +1,13 @@
+import { InputType, ObjectType, OmitType } from '@nestjs/graphql';
+import { CreateOrderInput, CreateOrderOutput } from '../../orders/dtos';
+
+/** Where to deliver; the restaurant, items and coupon come from the cart. */
+@InputType()
+export class CheckoutInput extends OmitType(CreateOrderInput, [
+  'restaurantId',
+  'items',
+  'couponCode',
+]) {}
+
+@ObjectType()
+export class CheckoutOutput extends CreateOrderOutput {}
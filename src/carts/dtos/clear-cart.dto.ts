@@ -0,0 +1,5 @@
+import { ObjectType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+@ObjectType()
+export class ClearCartOutput extends CoreOutput {}
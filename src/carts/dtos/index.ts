@@ -0,0 +1,7 @@
+export * from './add-to-cart.dto';
+export * from './apply-coupon.dto';
+export * from './checkout.dto';
+export * from './clear-cart.dto';
+export * from './my-cart.dto';
+export * from './remove-from-cart.dto';
+export * from './update-cart-item.dto';
@@ -0,0 +1,9 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Cart } from '../entities';
+
+@ObjectType()
+export class MyCartOutput extends CoreOutput {
+  @Field(() => Cart, { nullable: true })
+  cart?: Cart;
+}
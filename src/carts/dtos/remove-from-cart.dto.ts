@@ -0,0 +1,9 @@
+import { InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { CartItem } from '../entities';
+import { MyCartOutput } from './my-cart.dto';
+
+@InputType()
+export class RemoveFromCartInput extends PickType(CartItem, ['id']) {}
+
+@ObjectType()
+export class RemoveFromCartOutput extends MyCartOutput {}
@@ -0,0 +1,16 @@
+import { Field, InputType, Int, ObjectType, PickType } from '@nestjs/graphql';
+import { IsInt, Min } from 'class-validator';
+import { CartItem } from '../entities';
+import { MyCartOutput } from './my-cart.dto';
+
+@InputType()
+export class UpdateCartItemInput extends PickType(CartItem, ['id', 'options']) {
+  // Required here, so that changing the choices doesn't reset it.
+  @Field(() => Int)
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+@ObjectType()
+export class UpdateCartItemOutput extends MyCartOutput {}
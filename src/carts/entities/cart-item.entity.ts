@@ -0,0 +1,64 @@
+import { Field, Float, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { Column, Entity, ManyToOne, RelationId } from 'typeorm';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { Dish } from '../../restaurants/entities';
+import { Cart } from './cart.entity';
+
+@InputType('CartItemOptionInputType', { isAbstract: true })
+@ObjectType()
+export class CartItemOption {
+  @Field(() => String)
+  @IsString()
+  name: string;
+
+  @Field(() => String)
+  @IsString()
+  choice: string;
+}
+
+@InputType('CartItemInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+export class CartItem extends CoreEntity {
+  @ManyToOne(() => Cart, (cart) => cart.items, { onDelete: 'CASCADE' })
+  cart: Cart;
+
+  @RelationId((item: CartItem) => item.cart)
+  cartId: number;
+
+  // Unlike an order, a cart keeps no copy of the menu: removing the dish
+  // removes it from carts too.
+  @Field(() => Dish)
+  @ManyToOne(() => Dish, { onDelete: 'CASCADE' })
+  dish: Dish;
+
+  @RelationId((item: CartItem) => item.dish)
+  dishId: number;
+
+  @Field(() => Int, { defaultValue: 1 })
+  @Column({ default: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @Field(() => [CartItemOption], { nullable: true })
+  @Column({ type: 'json', nullable: true })
+  @ValidateNested({ each: true })
+  @Type(() => CartItemOption)
+  @IsOptional()
+  options?: CartItemOption[];
+
+  // Unit price with the chosen extras, from the current menu. Unset when a
+  // choice is no longer on the menu.
+  @Field(() => Float, { nullable: true })
+  price?: number;
+}
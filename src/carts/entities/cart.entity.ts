@@ -0,0 +1,59 @@
+import { Field, Float, InputType, ObjectType } from '@nestjs/graphql';
+import {
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  OneToOne,
+  RelationId,
+} from 'typeorm';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Restaurant } from '../../restaurants/entities';
+import { Coupon } from '../../coupons/entities';
+import { CartItem } from './cart-item.entity';
+
+@InputType('CartInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+export class Cart extends CoreEntity {
+  // The join column is unique: every client has a single cart.
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn()
+  user: User;
+
+  @RelationId((cart: Cart) => cart.user)
+  userId: number;
+
+  // All items come from this restaurant; unset while the cart is empty.
+  @Field(() => Restaurant, { nullable: true })
+  @ManyToOne(() => Restaurant, { nullable: true, onDelete: 'SET NULL' })
+  restaurant?: Restaurant;
+
+  @RelationId((cart: Cart) => cart.restaurant)
+  restaurantId?: number;
+
+  @Field(() => [CartItem])
+  @OneToMany(() => CartItem, (item) => item.cart)
+  items: CartItem[];
+
+  // Redeemed only at checkout; until then it is just checked against the cart.
+  @Field(() => Coupon, { nullable: true })
+  @ManyToOne(() => Coupon, { nullable: true, onDelete: 'SET NULL' })
+  coupon?: Coupon;
+
+  // Priced from the current menu whenever the cart is loaded.
+  @Field(() => Float, { nullable: true })
+  subtotal?: number;
+
+  @Field(() => Float, { nullable: true })
+  discount?: number;
+
+  @Field(() => Float, { nullable: true })
+  total?: number;
+
+  // Why the coupon doesn't apply to the cart as it is now, if it doesn't.
+  @Field(() => String, { nullable: true })
+  couponError?: string;
+}
@@ -0,0 +1,2 @@
+export * from './cart.entity';
+export * from './cart-item.entity';
@@ -0,0 +1,8 @@
+/** Source of the current time, injected so time-based rules can be tested. */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
@@ -1 +1,4 @@
-export const CONFIG_OPTIONS = 'CONFIG_OPTIONS';
\ No newline at end of file
+export const CONFIG_OPTIONS = 'CONFIG_OPTIONS';
+export const PUB_SUB = 'PUB_SUB';
+export const GEOCODER = 'GEOCODER';
+export const CLOCK = 'CLOCK';
@@ -0,0 +1,10 @@
+import { registerEnumType } from '@nestjs/graphql';
+
+export enum Locale {
+  En = 'en',
+  Uk = 'uk',
+}
+
+registerEnumType(Locale, { name: 'Locale' });
+
+export const DEFAULT_LOCALE = Locale.En;
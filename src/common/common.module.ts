@@ -1,4 +1,21 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
+import { PubSub } from 'graphql-subscriptions';
 
-@Module({})
+import { CLOCK, PUB_SUB } from './common.constants';
+import { systemClock } from './common.clock';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: PUB_SUB,
+      useValue: new PubSub(),
+    },
+    {
+      provide: CLOCK,
+      useValue: systemClock,
+    },
+  ],
+  exports: [PUB_SUB, CLOCK],
+})
 export class CommonModule {}
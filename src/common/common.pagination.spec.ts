@@ -0,0 +1,191 @@
+import { getMetadataArgsStorage, SelectQueryBuilder } from 'typeorm';
+
+import { decodeCursor, encodeCursor, paginate } from './common.pagination';
+import { CoreEntity } from './entities/core.entity';
+
+type PinnedNode = CoreEntity & { isPromoted: boolean };
+
+const node = (id: number, createdAt: string) => ({
+  id,
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt),
+});
+
+const mockQueryBuilder = <T>(nodes: T[], count: number) => {
+  const query: Partial<SelectQueryBuilder<T>> = {
+    alias: 'restaurant',
+    getCount: jest.fn().mockResolvedValue(count),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getMany: jest.fn().mockResolvedValue(nodes),
+  };
+
+  return query as SelectQueryBuilder<T>;
+};
+
+describe('pagination', () => {
+  describe('cursors', () => {
+    it('should decode an encoded cursor', () => {
+      const cursor = encodeCursor(node(7, '2021-09-01T10:00:00.123Z'));
+
+      expect(decodeCursor(cursor)).toEqual({
+        id: 7,
+        createdAt: new Date('2021-09-01T10:00:00.123Z'),
+      });
+    });
+
+    // Postgres keeps microseconds by default, which a cursor can't carry.
+    it('should store creation times to the millisecond', () => {
+      const column = getMetadataArgsStorage().columns.find(
+        ({ target, propertyName }) =>
+          target === CoreEntity && propertyName === 'createdAt',
+      );
+
+      expect(column.options.precision).toEqual(3);
+    });
+
+    it('should reject a malformed cursor', () => {
+      expect(decodeCursor('not a cursor')).toBeUndefined();
+    });
+
+    it('should keep the pinned flag', () => {
+      const pinned = {
+        ...node(7, '2021-09-01T10:00:00.123Z'),
+        isPromoted: true,
+      };
+
+      expect(decodeCursor(encodeCursor(pinned, 'isPromoted'))).toEqual({
+        id: 7,
+        createdAt: new Date('2021-09-01T10:00:00.123Z'),
+        pinned: true,
+      });
+    });
+  });
+
+  describe('paginate', () => {
+    it('should return the first page', async () => {
+      const nodes = [
+        node(3, '2021-09-03T00:00:00.000Z'),
+        node(2, '2021-09-02T00:00:00.000Z'),
+        node(1, '2021-09-01T00:00:00.000Z'),
+      ];
+      const query = mockQueryBuilder(nodes, 3);
+
+      const connection = await paginate(query, { first: 2 });
+
+      expect(query.andWhere).not.toHaveBeenCalled();
+      expect(query.orderBy).toHaveBeenCalledWith(
+        'restaurant.createdAt',
+        'DESC',
+      );
+      expect(query.addOrderBy).toHaveBeenCalledWith('restaurant.id', 'DESC');
+      expect(query.take).toHaveBeenCalledWith(3);
+      expect(connection).toEqual({
+        totalCount: 3,
+        edges: [
+          { cursor: encodeCursor(nodes[0]), node: nodes[0] },
+          { cursor: encodeCursor(nodes[1]), node: nodes[1] },
+        ],
+        pageInfo: { endCursor: encodeCursor(nodes[1]), hasNextPage: true },
+      });
+    });
+
+    it('should continue after a cursor', async () => {
+      const last = node(1, '2021-09-01T00:00:00.000Z');
+      const query = mockQueryBuilder([last], 3);
+      const after = encodeCursor(node(2, '2021-09-02T00:00:00.000Z'));
+
+      const connection = await paginate(query, { first: 2, after });
+
+      expect(query.andWhere).toHaveBeenCalledWith(
+        '(restaurant.createdAt, restaurant.id) < (:cursorCreatedAt, :cursorId)',
+        { cursorCreatedAt: new Date('2021-09-02T00:00:00.000Z'), cursorId: 2 },
+      );
+      expect(connection.pageInfo).toEqual({
+        endCursor: encodeCursor(last),
+        hasNextPage: false,
+      });
+    });
+
+    it('should continue between rows of the same millisecond', async () => {
+      const createdAt = '2021-09-01T00:00:00.123Z';
+      const nodes = [node(3, createdAt), node(2, createdAt)];
+      const firstPage = await paginate(mockQueryBuilder(nodes, 2), {
+        first: 1,
+      });
+
+      const query = mockQueryBuilder([nodes[1]], 2);
+      const secondPage = await paginate(query, {
+        first: 1,
+        after: firstPage.pageInfo.endCursor,
+      });
+
+      expect(query.andWhere).toHaveBeenCalledWith(
+        '(restaurant.createdAt, restaurant.id) < (:cursorCreatedAt, :cursorId)',
+        { cursorCreatedAt: new Date(createdAt), cursorId: 3 },
+      );
+      expect(secondPage.edges.map(({ node }) => node.id)).toEqual([2]);
+    });
+
+    it('should sort pinned rows first', async () => {
+      const last = {
+        ...node(1, '2021-09-01T00:00:00.000Z'),
+        isPromoted: false,
+      };
+      const query = mockQueryBuilder([last], 3);
+      const after = encodeCursor(
+        { ...node(2, '2021-09-02T00:00:00.000Z'), isPromoted: true },
+        'isPromoted',
+      );
+
+      const connection = await paginate<PinnedNode>(
+        query,
+        { first: 2, after },
+        { pinnedBy: 'isPromoted' },
+      );
+
+      expect(query.andWhere).toHaveBeenCalledWith(
+        '(restaurant.isPromoted, restaurant.createdAt, restaurant.id) < (:cursorPinned, :cursorCreatedAt, :cursorId)',
+        {
+          cursorPinned: true,
+          cursorCreatedAt: new Date('2021-09-02T00:00:00.000Z'),
+          cursorId: 2,
+        },
+      );
+      expect(query.orderBy).toHaveBeenCalledWith(
+        'restaurant.isPromoted',
+        'DESC',
+      );
+      expect(query.addOrderBy).toHaveBeenCalledWith(
+        'restaurant.createdAt',
+        'DESC',
+      );
+      expect(connection.edges).toEqual([
+        { cursor: encodeCursor(last, 'isPromoted'), node: last },
+      ]);
+    });
+
+    it('should reject a cursor from another ordering', async () => {
+      const query = mockQueryBuilder<PinnedNode>([], 0);
+      const after = encodeCursor(node(2, '2021-09-02T00:00:00.000Z'));
+
+      await expect(
+        paginate<PinnedNode>(
+          query,
+          { first: 2, after },
+          { pinnedBy: 'isPromoted' },
+        ),
+      ).rejects.toThrow('Invalid cursor.');
+    });
+
+    it('should fail on an invalid cursor', async () => {
+      const query = mockQueryBuilder([], 0);
+
+      await expect(paginate(query, { first: 2, after: 'bad' })).rejects.toThrow(
+        'Invalid cursor.',
+      );
+    });
+  });
+});
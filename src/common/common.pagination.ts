@@ -0,0 +1,107 @@
+import { SelectQueryBuilder } from 'typeorm';
+
+import { CoreEntity } from './entities/core.entity';
+import { Connection, ConnectionArgs } from './dtos/pagination.dto';
+
+interface Cursor {
+  createdAt: Date;
+  id: number;
+  pinned?: boolean;
+}
+
+interface PaginateOptions<T> {
+  /** A boolean column whose `true` rows come before all the others. */
+  pinnedBy?: keyof T & string;
+}
+
+export const encodeCursor = <T extends CoreEntity>(
+  node: T,
+  pinnedBy?: keyof T & string,
+): string => {
+  const parts = [node.createdAt.toISOString(), node.id];
+  if (pinnedBy) {
+    parts.push(node[pinnedBy] ? 1 : 0);
+  }
+
+  return Buffer.from(parts.join('|')).toString('base64');
+};
+
+export const decodeCursor = (cursor: string): Cursor | undefined => {
+  const [createdAt, id, pinned] = Buffer.from(cursor, 'base64')
+    .toString()
+    .split('|');
+  const cursorDate = new Date(createdAt);
+
+  if (isNaN(cursorDate.getTime()) || !Number.isInteger(Number(id))) {
+    return undefined;
+  }
+
+  if (pinned !== undefined && pinned !== '0' && pinned !== '1') {
+    return undefined;
+  }
+
+  return {
+    createdAt: cursorDate,
+    id: Number(id),
+    ...(pinned !== undefined && { pinned: pinned === '1' }),
+  };
+};
+
+/**
+ * Loads one page of `query`, newest first. Rows are ordered by
+ * `createdAt` and then `id`, so cursors stay stable while rows are added.
+ * With `pinnedBy`, the pinned rows are listed before everything else.
+ */
+export async function paginate<T extends CoreEntity>(
+  query: SelectQueryBuilder<T>,
+  { first, after }: ConnectionArgs,
+  { pinnedBy }: PaginateOptions<T> = {},
+): Promise<Connection<T>> {
+  const { alias } = query;
+  const totalCount = await query.getCount();
+
+  const sortColumns = [`${alias}.createdAt`, `${alias}.id`];
+  if (pinnedBy) {
+    sortColumns.unshift(`${alias}.${pinnedBy}`);
+  }
+
+  if (after) {
+    const cursor = decodeCursor(after);
+    if (!cursor || (pinnedBy !== undefined) !== 'pinned' in cursor) {
+      throw new Error('Invalid cursor.');
+    }
+
+    const parameters: Record<string, unknown> = {
+      cursorCreatedAt: cursor.createdAt,
+      cursorId: cursor.id,
+    };
+    const placeholders = [':cursorCreatedAt', ':cursorId'];
+    if (pinnedBy) {
+      parameters.cursorPinned = cursor.pinned;
+      placeholders.unshift(':cursorPinned');
+    }
+
+    query.andWhere(
+      `(${sortColumns.join(', ')}) < (${placeholders.join(', ')})`,
+      parameters,
+    );
+  }
+
+  const [firstColumn, ...otherColumns] = sortColumns;
+  query.orderBy(firstColumn, 'DESC');
+  otherColumns.forEach((column) => query.addOrderBy(column, 'DESC'));
+  const nodes = await query.take(first + 1).getMany();
+
+  const edges = nodes
+    .slice(0, first)
+    .map((node) => ({ cursor: encodeCursor(node, pinnedBy), node }));
+
+  return {
+    edges,
+    totalCount,
+    pageInfo: {
+      endCursor: edges.length ? edges[edges.length - 1].cursor : null,
+      hasNextPage: nodes.length > first,
+    },
+  };
+}
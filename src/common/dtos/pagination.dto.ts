@@ -0,0 +1,83 @@
+import { Type } from '@nestjs/common';
+import { ArgsType, Field, Int, ObjectType } from '@nestjs/graphql';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { CoreOutput } from './output.dto';
+
+@ArgsType()
+export class ConnectionArgs {
+  @Field(() => Int, { defaultValue: 20 })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  first: number;
+
+  @Field(() => String, { nullable: true })
+  @IsString()
+  @IsOptional()
+  after?: string;
+}
+
+@ObjectType()
+export class PageInfo {
+  @Field(() => String, { nullable: true })
+  endCursor?: string;
+
+  @Field(() => Boolean)
+  hasNextPage: boolean;
+}
+
+export interface Edge<T> {
+  cursor: string;
+  node: T;
+}
+
+export interface Connection<T> {
+  edges: Edge<T>[];
+  pageInfo: PageInfo;
+  totalCount: number;
+}
+
+export interface PaginatedOutput<T>
+  extends CoreOutput,
+    Partial<Connection<T>> {}
+
+const edgeTypes = new Map<Type<unknown>, Type<Edge<unknown>>>();
+
+function EdgeType<T>(classRef: Type<T>): Type<Edge<T>> {
+  if (!edgeTypes.has(classRef)) {
+    @ObjectType(`${classRef.name}Edge`)
+    class EdgeTypeClass {
+      @Field(() => String)
+      cursor: string;
+
+      @Field(() => classRef)
+      node: T;
+    }
+
+    edgeTypes.set(classRef, EdgeTypeClass);
+  }
+
+  return edgeTypes.get(classRef) as Type<Edge<T>>;
+}
+
+/**
+ * Relay-style connection output: `edges`, `pageInfo` and `totalCount` next
+ * to the usual `ok`/`error` fields.
+ */
+export function Paginated<T>(classRef: Type<T>): Type<PaginatedOutput<T>> {
+  const edgeType = EdgeType(classRef);
+
+  @ObjectType({ isAbstract: true })
+  abstract class PaginatedType extends CoreOutput {
+    @Field(() => [edgeType], { nullable: true })
+    edges?: Edge<T>[];
+
+    @Field(() => PageInfo, { nullable: true })
+    pageInfo?: PageInfo;
+
+    @Field(() => Int, { nullable: true })
+    totalCount?: number;
+  }
+
+  return PaginatedType as Type<PaginatedOutput<T>>;
+}
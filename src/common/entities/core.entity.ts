@@ -7,7 +7,8 @@ export class CoreEntity {
   @Field(() => Number)
   id: number;
 
-  @CreateDateColumn()
+  // Millisecond precision so pagination cursors round-trip through Date.
+  @CreateDateColumn({ precision: 3 })
   @Field(() => Date)
   createdAt: Date;
 
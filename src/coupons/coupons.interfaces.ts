@@ -0,0 +1,8 @@
+import { Coupon } from './entities';
+
+/** Result of checking a coupon against an order. */
+export interface CouponDiscount {
+  coupon?: Coupon;
+  discount?: number;
+  error?: string;
+}
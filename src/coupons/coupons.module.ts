@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { CouponsResolver } from './coupons.resolver';
+import { CouponsService } from './coupons.service';
+import { Coupon, CouponRedemption } from './entities';
+import { Restaurant } from '../restaurants/entities';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Coupon, CouponRedemption, Restaurant])],
+  providers: [CouponsResolver, CouponsService],
+  exports: [CouponsService],
+})
+export class CouponsModule {}
@@ -0,0 +1,36 @@
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+
+import { Coupon } from './entities';
+import { CouponsService } from './coupons.service';
+import {
+  CreateCouponInput,
+  CreateCouponOutput,
+  ValidateCouponInput,
+  ValidateCouponOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { AuthUser } from '../auth/auth-user.decorator';
+import { Role } from '../auth/role.decorator';
+
+@Resolver(() => Coupon)
+export class CouponsResolver {
+  constructor(private readonly couponsService: CouponsService) {}
+
+  @Mutation(() => CreateCouponOutput)
+  @Role('Owner', 'Admin')
+  createCoupon(
+    @AuthUser() creator: User,
+    @Args('input') createCouponInput: CreateCouponInput,
+  ): Promise<CreateCouponOutput> {
+    return this.couponsService.createCoupon(creator, createCouponInput);
+  }
+
+  @Query(() => ValidateCouponOutput)
+  @Role('Client')
+  validateCoupon(
+    @AuthUser() client: User,
+    @Args() validateCouponInput: ValidateCouponInput,
+  ): Promise<ValidateCouponOutput> {
+    return this.couponsService.validateCoupon(client, validateCouponInput);
+  }
+}
@@ -0,0 +1,390 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+
+import { Coupon, CouponRedemption, DiscountType } from './entities';
+import { CouponsService } from './coupons.service';
+import { User, UserRole } from '../users/entities';
+import { Restaurant } from '../restaurants/entities';
+import { CLOCK } from '../common/common.constants';
+
+const mockRepository = () => ({
+  findOne: jest.fn(),
+  findByIds: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn((entity) => entity),
+  count: jest.fn(),
+  increment: jest.fn(),
+  createQueryBuilder: jest.fn(),
+});
+
+const mockQueryBuilder = () => ({
+  setLock: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  getOne: jest.fn(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+describe('CouponsService', () => {
+  let couponsRepository: MockRepository<Coupon>;
+  let redemptionsRepository: MockRepository<CouponRedemption>;
+  let restaurantsRepository: MockRepository<Restaurant>;
+  let service: CouponsService;
+
+  const now = new Date('2021-09-01T12:00:00Z');
+  const owner = { id: 1, role: UserRole.Owner } as User;
+  const admin = { id: 2, role: UserRole.Admin } as User;
+  const client = { id: 3, role: UserRole.Client } as User;
+  const coupon = {
+    id: 4,
+    code: 'SAVE10',
+    discountType: DiscountType.Percent,
+    amount: 10,
+    minOrderTotal: 0,
+    redemptionCount: 0,
+    restaurantIds: [5],
+  };
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        CouponsService,
+        {
+          provide: getRepositoryToken(Coupon),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(CouponRedemption),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Restaurant),
+          useValue: mockRepository(),
+        },
+        {
+          provide: CLOCK,
+          useValue: { now: () => now },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CouponsService>(CouponsService);
+    couponsRepository = module.get(getRepositoryToken(Coupon));
+    redemptionsRepository = module.get(getRepositoryToken(CouponRedemption));
+    restaurantsRepository = module.get(getRepositoryToken(Restaurant));
+  });
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  describe('createCoupon', () => {
+    const input = {
+      code: ' save10 ',
+      discountType: DiscountType.Percent,
+      amount: 10,
+      minOrderTotal: 0,
+      allRestaurants: false,
+      restaurantIds: [5],
+    };
+
+    it("should create a coupon for the owner's restaurant", async () => {
+      restaurantsRepository.findByIds.mockResolvedValue([
+        { id: 5, ownerId: owner.id },
+      ]);
+      couponsRepository.findOne.mockResolvedValue(undefined);
+      couponsRepository.save.mockResolvedValue({ id: 4 });
+
+      const result = await service.createCoupon(owner, input);
+
+      expect(couponsRepository.findOne).toHaveBeenCalledWith({
+        code: 'SAVE10',
+      });
+      expect(couponsRepository.save).toHaveBeenCalledWith({
+        code: 'SAVE10',
+        discountType: DiscountType.Percent,
+        amount: 10,
+        minOrderTotal: 0,
+        allRestaurants: false,
+        restaurants: [{ id: 5, ownerId: owner.id }],
+        createdBy: owner,
+      });
+      expect(result).toEqual({ ok: true, couponId: 4 });
+    });
+
+    it('should let an admin create a coupon for every restaurant', async () => {
+      couponsRepository.findOne.mockResolvedValue(undefined);
+      couponsRepository.save.mockResolvedValue({ id: 4 });
+
+      const result = await service.createCoupon(admin, {
+        ...input,
+        allRestaurants: true,
+      });
+
+      expect(restaurantsRepository.findByIds).not.toHaveBeenCalled();
+      expect(couponsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ allRestaurants: true, restaurants: [] }),
+      );
+      expect(result).toEqual({ ok: true, couponId: 4 });
+    });
+
+    it('should fail on percent discounts above 100', async () => {
+      const result = await service.createCoupon(owner, {
+        ...input,
+        amount: 150,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Percent discounts can be at most 100.',
+      });
+    });
+
+    it('should fail if a restaurant does not exist', async () => {
+      restaurantsRepository.findByIds.mockResolvedValue([]);
+      const result = await service.createCoupon(owner, input);
+
+      expect(result).toEqual({ ok: false, error: 'Restaurant not found.' });
+    });
+
+    it('should not let an owner create a coupon for every restaurant', async () => {
+      const result = await service.createCoupon(owner, {
+        ...input,
+        allRestaurants: true,
+      });
+
+      expect(couponsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Only admins can create coupons for every restaurant.',
+      });
+    });
+
+    it('should fail without restaurants', async () => {
+      const result = await service.createCoupon(admin, {
+        ...input,
+        restaurantIds: [],
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Choose at least one restaurant.',
+      });
+    });
+
+    it("should not let an owner use someone else's restaurant", async () => {
+      restaurantsRepository.findByIds.mockResolvedValue([
+        { id: 5, ownerId: 42 },
+      ]);
+      const result = await service.createCoupon(owner, input);
+
+      expect(couponsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: "You can't create coupons for restaurants you don't own.",
+      });
+    });
+
+    it('should fail if the code is taken', async () => {
+      restaurantsRepository.findByIds.mockResolvedValue([
+        { id: 5, ownerId: owner.id },
+      ]);
+      couponsRepository.findOne.mockResolvedValue(coupon);
+      const result = await service.createCoupon(owner, input);
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'A coupon with this code already exists.',
+      });
+    });
+
+    it('should fail on exception', async () => {
+      restaurantsRepository.findByIds.mockRejectedValue(new Error());
+      const result = await service.createCoupon(owner, input);
+
+      expect(result).toEqual({ ok: false, error: 'Could not create coupon.' });
+    });
+  });
+
+  describe('validateCoupon', () => {
+    const input = { code: 'save10', restaurantId: 5, subtotal: 36 };
+
+    it('should return the discount and the new total', async () => {
+      couponsRepository.findOne.mockResolvedValue(coupon);
+      const result = await service.validateCoupon(client, input);
+
+      expect(couponsRepository.findOne).toHaveBeenCalledWith({
+        code: 'SAVE10',
+      });
+      expect(result).toEqual({ ok: true, discount: 3.6, total: 32.4 });
+    });
+
+    it('should cap fixed discounts at the order total', async () => {
+      couponsRepository.findOne.mockResolvedValue({
+        ...coupon,
+        discountType: DiscountType.Fixed,
+        amount: 50,
+      });
+      const result = await service.validateCoupon(client, input);
+
+      expect(result).toEqual({ ok: true, discount: 36, total: 0 });
+    });
+
+    it('should apply to any restaurant if it is for all restaurants', async () => {
+      couponsRepository.findOne.mockResolvedValue({
+        ...coupon,
+        allRestaurants: true,
+        restaurantIds: [],
+      });
+      const result = await service.validateCoupon(client, {
+        ...input,
+        restaurantId: 42,
+      });
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should not apply anywhere once its restaurants are deleted', async () => {
+      couponsRepository.findOne.mockResolvedValue({
+        ...coupon,
+        restaurantIds: [],
+      });
+      const result = await service.validateCoupon(client, {
+        ...input,
+        restaurantId: 42,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: "Coupon can't be used at this restaurant.",
+      });
+    });
+
+    it('should fail on unknown codes', async () => {
+      couponsRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.validateCoupon(client, input);
+
+      expect(result).toEqual({ ok: false, error: 'Coupon not found.' });
+    });
+
+    it.each([
+      [{ expiresAt: new Date('2021-09-01T11:59:00Z') }, 'Coupon has expired.'],
+      [{ restaurantIds: [42] }, "Coupon can't be used at this restaurant."],
+      [{ minOrderTotal: 50 }, 'Order total is below the coupon minimum.'],
+      [
+        { maxRedemptions: 10, redemptionCount: 10 },
+        'Coupon has been fully redeemed.',
+      ],
+    ])('should reject %p with "%s"', async (changes, error) => {
+      couponsRepository.findOne.mockResolvedValue({ ...coupon, ...changes });
+      const result = await service.validateCoupon(client, input);
+
+      expect(result).toEqual({ ok: false, error });
+    });
+
+    it('should limit how often a user can use the coupon', async () => {
+      couponsRepository.findOne.mockResolvedValue({
+        ...coupon,
+        maxRedemptionsPerUser: 1,
+      });
+      redemptionsRepository.count.mockResolvedValue(1);
+
+      const result = await service.validateCoupon(client, input);
+
+      expect(redemptionsRepository.count).toHaveBeenCalledWith({
+        coupon: { id: 4 },
+        user: { id: 3 },
+      });
+      expect(result).toEqual({
+        ok: false,
+        error: "You've already used this coupon.",
+      });
+    });
+
+    it('should fail on exception', async () => {
+      couponsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.validateCoupon(client, input);
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not validate coupon.',
+      });
+    });
+  });
+
+  describe('redeemCoupon', () => {
+    let query: ReturnType<typeof mockQueryBuilder>;
+    let transactionCoupons: ReturnType<typeof mockRepository>;
+    let transactionRedemptions: ReturnType<typeof mockRepository>;
+    let manager: EntityManager;
+
+    beforeEach(() => {
+      query = mockQueryBuilder();
+      transactionCoupons = mockRepository();
+      transactionCoupons.createQueryBuilder.mockReturnValue(query);
+      transactionRedemptions = mockRepository();
+      manager = {
+        getRepository: (entity) =>
+          entity === Coupon ? transactionCoupons : transactionRedemptions,
+      } as unknown as EntityManager;
+    });
+
+    it('should lock the coupon and count the redemption', async () => {
+      query.getOne.mockResolvedValue(coupon);
+
+      const result = await service.redeemCoupon(
+        manager,
+        client,
+        'save10',
+        5,
+        36,
+      );
+
+      expect(query.setLock).toHaveBeenCalledWith('pessimistic_write');
+      expect(query.where).toHaveBeenCalledWith('coupon.code = :code', {
+        code: 'SAVE10',
+      });
+      expect(transactionCoupons.increment).toHaveBeenCalledWith(
+        { id: 4 },
+        'redemptionCount',
+        1,
+      );
+      expect(transactionRedemptions.save).toHaveBeenCalledWith({
+        coupon,
+        user: client,
+      });
+      expect(result).toEqual({ coupon, discount: 3.6 });
+    });
+
+    it('should count redemptions inside the transaction', async () => {
+      query.getOne.mockResolvedValue({ ...coupon, maxRedemptionsPerUser: 1 });
+      transactionRedemptions.count.mockResolvedValue(0);
+
+      await service.redeemCoupon(manager, client, 'SAVE10', 5, 36);
+
+      expect(transactionRedemptions.count).toHaveBeenCalled();
+      expect(redemptionsRepository.count).not.toHaveBeenCalled();
+    });
+
+    it('should not redeem a coupon that does not apply', async () => {
+      query.getOne.mockResolvedValue({
+        ...coupon,
+        maxRedemptions: 1,
+        redemptionCount: 1,
+      });
+
+      const result = await service.redeemCoupon(
+        manager,
+        client,
+        'SAVE10',
+        5,
+        36,
+      );
+
+      expect(transactionCoupons.increment).not.toHaveBeenCalled();
+      expect(transactionRedemptions.save).not.toHaveBeenCalled();
+      expect(result).toEqual({ error: 'Coupon has been fully redeemed.' });
+    });
+  });
+});
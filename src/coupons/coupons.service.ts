@@ -0,0 +1,231 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+
+import { Coupon, CouponRedemption, DiscountType } from './entities';
+import {
+  CreateCouponInput,
+  CreateCouponOutput,
+  ValidateCouponInput,
+  ValidateCouponOutput,
+} from './dtos';
+import { CouponDiscount } from './coupons.interfaces';
+import { User, UserRole } from '../users/entities';
+import { Restaurant } from '../restaurants/entities';
+import { CLOCK } from '../common/common.constants';
+import { Clock } from '../common/common.clock';
+
+const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+@Injectable()
+export class CouponsService {
+  constructor(
+    @InjectRepository(Coupon) private readonly coupons: Repository<Coupon>,
+    @InjectRepository(CouponRedemption)
+    private readonly redemptions: Repository<CouponRedemption>,
+    @InjectRepository(Restaurant)
+    private readonly restaurants: Repository<Restaurant>,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  /**
+   * Owners create coupons for their own restaurants only; admins may also
+   * create coupons for every restaurant.
+   */
+  async createCoupon(
+    creator: User,
+    { code, restaurantIds, ...couponInput }: CreateCouponInput,
+  ): Promise<CreateCouponOutput> {
+    try {
+      if (
+        couponInput.discountType === DiscountType.Percent &&
+        couponInput.amount > 100
+      ) {
+        return { ok: false, error: 'Percent discounts can be at most 100.' };
+      }
+
+      if (couponInput.allRestaurants) {
+        if (creator.role !== UserRole.Admin) {
+          return {
+            ok: false,
+            error: 'Only admins can create coupons for every restaurant.',
+          };
+        }
+        restaurantIds = [];
+      } else if (!restaurantIds.length) {
+        return { ok: false, error: 'Choose at least one restaurant.' };
+      }
+
+      const restaurants = restaurantIds.length
+        ? await this.restaurants.findByIds(restaurantIds)
+        : [];
+      if (restaurants.length !== restaurantIds.length) {
+        return { ok: false, error: 'Restaurant not found.' };
+      }
+
+      if (
+        creator.role !== UserRole.Admin &&
+        restaurants.some(({ ownerId }) => ownerId !== creator.id)
+      ) {
+        return {
+          ok: false,
+          error: "You can't create coupons for restaurants you don't own.",
+        };
+      }
+
+      code = normalizeCode(code);
+      const existing = await this.coupons.findOne({ code });
+      if (existing) {
+        return { ok: false, error: 'A coupon with this code already exists.' };
+      }
+
+      const coupon = await this.coupons.save(
+        this.coupons.create({
+          ...couponInput,
+          code,
+          restaurants,
+          createdBy: creator,
+        }),
+      );
+
+      return { ok: true, couponId: coupon.id };
+    } catch (error) {
+      return { ok: false, error: 'Could not create coupon.' };
+    }
+  }
+
+  async validateCoupon(
+    user: User,
+    { code, restaurantId, subtotal }: ValidateCouponInput,
+  ): Promise<ValidateCouponOutput> {
+    try {
+      const { discount, error } = await this.priceCoupon(
+        user,
+        code,
+        restaurantId,
+        subtotal,
+      );
+      if (error) {
+        return { ok: false, error };
+      }
+
+      return { ok: true, discount, total: subtotal - discount };
+    } catch (error) {
+      return { ok: false, error: 'Could not validate coupon.' };
+    }
+  }
+
+  /** Checks `code` for an order and works out the discount, without using it up. */
+  async priceCoupon(
+    user: User,
+    code: string,
+    restaurantId: number,
+    subtotal: number,
+  ): Promise<CouponDiscount> {
+    const coupon = await this.coupons.findOne({ code: normalizeCode(code) });
+
+    return this.checkCoupon(
+      this.redemptions,
+      coupon,
+      user,
+      restaurantId,
+      subtotal,
+    );
+  }
+
+  /**
+   * Redeems `code` as part of the transaction that places an order. The
+   * coupon row stays locked until that transaction ends, so concurrent
+   * checkouts are counted one after the other and limits can't be overrun.
+   */
+  async redeemCoupon(
+    manager: EntityManager,
+    user: User,
+    code: string,
+    restaurantId: number,
+    subtotal: number,
+  ): Promise<CouponDiscount> {
+    const coupons = manager.getRepository(Coupon);
+    const redemptions = manager.getRepository(CouponRedemption);
+
+    const coupon = await coupons
+      .createQueryBuilder('coupon')
+      .setLock('pessimistic_write')
+      .where('coupon.code = :code', { code: normalizeCode(code) })
+      .getOne();
+
+    const result = await this.checkCoupon(
+      redemptions,
+      coupon,
+      user,
+      restaurantId,
+      subtotal,
+    );
+    if (result.error) {
+      return result;
+    }
+
+    await coupons.increment({ id: coupon.id }, 'redemptionCount', 1);
+    await redemptions.save(redemptions.create({ coupon, user }));
+
+    return result;
+  }
+
+  private async checkCoupon(
+    redemptions: Repository<CouponRedemption>,
+    coupon: Coupon | undefined,
+    user: User,
+    restaurantId: number,
+    subtotal: number,
+  ): Promise<CouponDiscount> {
+    if (!coupon) {
+      return { error: 'Coupon not found.' };
+    }
+
+    if (coupon.expiresAt && coupon.expiresAt <= this.clock.now()) {
+      return { error: 'Coupon has expired.' };
+    }
+
+    if (
+      !coupon.allRestaurants &&
+      !coupon.restaurantIds.includes(restaurantId)
+    ) {
+      return { error: "Coupon can't be used at this restaurant." };
+    }
+
+    if (subtotal < coupon.minOrderTotal) {
+      return { error: 'Order total is below the coupon minimum.' };
+    }
+
+    if (
+      coupon.maxRedemptions != null &&
+      coupon.redemptionCount >= coupon.maxRedemptions
+    ) {
+      return { error: 'Coupon has been fully redeemed.' };
+    }
+
+    if (coupon.maxRedemptionsPerUser != null) {
+      const used = await redemptions.count({
+        coupon: { id: coupon.id },
+        user: { id: user.id },
+      });
+      if (used >= coupon.maxRedemptionsPerUser) {
+        return { error: "You've already used this coupon." };
+      }
+    }
+
+    return { coupon, discount: this.discountFor(coupon, subtotal) };
+  }
+
+  private discountFor(
+    { discountType, amount }: Coupon,
+    subtotal: number,
+  ): number {
+    const discount =
+      discountType === DiscountType.Percent
+        ? (subtotal * amount) / 100
+        : amount;
+
+    return Math.round(Math.min(discount, subtotal) * 100) / 100;
+  }
+}
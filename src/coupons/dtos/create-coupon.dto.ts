@@ -0,0 +1,25 @@
+import { Field, InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Coupon } from '../entities';
+
+@InputType()
+export class CreateCouponInput extends PickType(Coupon, [
+  'code',
+  'discountType',
+  'amount',
+  'minOrderTotal',
+  'expiresAt',
+  'maxRedemptions',
+  'maxRedemptionsPerUser',
+  'allRestaurants',
+]) {
+  // Owners must pick some of their own restaurants.
+  @Field(() => [Number], { defaultValue: [] })
+  restaurantIds: number[];
+}
+
+@ObjectType()
+export class CreateCouponOutput extends CoreOutput {
+  @Field(() => Number, { nullable: true })
+  couponId?: number;
+}
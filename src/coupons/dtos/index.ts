@@ -0,0 +1,2 @@
+export * from './create-coupon.dto';
+export * from './validate-coupon.dto';
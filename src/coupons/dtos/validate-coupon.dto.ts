@@ -0,0 +1,27 @@
+import { ArgsType, Field, Float, ObjectType } from '@nestjs/graphql';
+import { IsNumber, IsString, Min } from 'class-validator';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+@ArgsType()
+export class ValidateCouponInput {
+  @Field(() => String)
+  @IsString()
+  code: string;
+
+  @Field(() => Number)
+  restaurantId: number;
+
+  @Field(() => Float)
+  @IsNumber()
+  @Min(0)
+  subtotal: number;
+}
+
+@ObjectType()
+export class ValidateCouponOutput extends CoreOutput {
+  @Field(() => Float, { nullable: true })
+  discount?: number;
+
+  @Field(() => Float, { nullable: true })
+  total?: number;
+}
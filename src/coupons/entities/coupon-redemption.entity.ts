@@ -0,0 +1,16 @@
+import { Entity, Index, ManyToOne } from 'typeorm';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Coupon } from './coupon.entity';
+
+/** One use of a coupon, counted against its per-user limit. */
+@Entity()
+@Index(['coupon', 'user'])
+export class CouponRedemption extends CoreEntity {
+  @ManyToOne(() => Coupon, { onDelete: 'CASCADE' })
+  coupon: Coupon;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+}
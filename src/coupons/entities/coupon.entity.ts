@@ -0,0 +1,112 @@
+import {
+  Field,
+  Float,
+  InputType,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import {
+  Column,
+  Entity,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  RelationId,
+} from 'typeorm';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  Matches,
+  Min,
+} from 'class-validator';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Restaurant } from '../../restaurants/entities';
+
+export enum DiscountType {
+  Percent = 'Percent',
+  Fixed = 'Fixed',
+}
+
+registerEnumType(DiscountType, { name: 'DiscountType' });
+
+@InputType('CouponInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+export class Coupon extends CoreEntity {
+  // Saved upper-case; codes are matched regardless of case.
+  @Field(() => String)
+  @Column({ unique: true })
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/)
+  code: string;
+
+  @Field(() => DiscountType)
+  @Column({ type: 'enum', enum: DiscountType })
+  @IsEnum(DiscountType)
+  discountType: DiscountType;
+
+  // Percent off for Percent coupons, money off for Fixed ones.
+  @Field(() => Float)
+  @Column({ type: 'double precision' })
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @Field(() => Float, { defaultValue: 0 })
+  @Column({ type: 'double precision', default: 0 })
+  @IsNumber()
+  @Min(0)
+  minOrderTotal: number;
+
+  @Field(() => Date, { nullable: true })
+  @Column({ nullable: true })
+  @IsOptional()
+  expiresAt?: Date;
+
+  // Redemptions across all users and per user; unset means no limit.
+  @Field(() => Int, { nullable: true })
+  @Column({ nullable: true })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxRedemptions?: number;
+
+  @Field(() => Int, { nullable: true })
+  @Column({ nullable: true })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxRedemptionsPerUser?: number;
+
+  @Field(() => Int)
+  @Column({ default: 0 })
+  redemptionCount: number;
+
+  // Admins only: the coupon works at every restaurant, not just `restaurants`.
+  @Field(() => Boolean, { defaultValue: false })
+  @Column({ default: false })
+  @IsBoolean()
+  allRestaurants: boolean;
+
+  // The restaurants the coupon works at. Deleted restaurants drop out, so a
+  // coupon whose restaurants are all gone works nowhere.
+  @Field(() => [Restaurant], { nullable: true })
+  @ManyToMany(() => Restaurant, { onDelete: 'CASCADE' })
+  @JoinTable()
+  restaurants: Restaurant[];
+
+  @RelationId((coupon: Coupon) => coupon.restaurants)
+  restaurantIds: number[];
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  createdBy: User;
+
+  @RelationId((coupon: Coupon) => coupon.createdBy)
+  createdById: number;
+}
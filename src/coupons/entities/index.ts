@@ -0,0 +1,2 @@
+export * from './coupon.entity';
+export * from './coupon-redemption.entity';
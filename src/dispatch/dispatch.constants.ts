@@ -0,0 +1 @@
+export const NEW_ORDER_OFFER = 'NEW_ORDER_OFFER';
@@ -0,0 +1,4 @@
+export interface DispatchModuleOptions {
+  autoDispatch: boolean;
+  offerTimeoutMs: number;
+}
@@ -0,0 +1,29 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { CONFIG_OPTIONS } from '../common/common.constants';
+import { DispatchModuleOptions } from './dispatch.interfaces';
+import { DispatchResolver } from './dispatch.resolver';
+import { DispatchService } from './dispatch.service';
+import { User } from '../users/entities';
+import { Order } from '../orders/entities';
+import { Restaurant } from '../restaurants/entities';
+
+@Module({})
+export class DispatchModule {
+  static forRoot(options: DispatchModuleOptions): DynamicModule {
+    return {
+      module: DispatchModule,
+      imports: [TypeOrmModule.forFeature([User, Order, Restaurant])],
+      providers: [
+        {
+          provide: CONFIG_OPTIONS,
+          useValue: options,
+        },
+        DispatchResolver,
+        DispatchService,
+      ],
+      exports: [DispatchService],
+    };
+  }
+}
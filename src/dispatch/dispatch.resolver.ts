@@ -0,0 +1,55 @@
+import { Inject } from '@nestjs/common';
+import { Args, Mutation, Resolver, Subscription } from '@nestjs/graphql';
+import { PubSub } from 'graphql-subscriptions';
+
+import { DispatchService } from './dispatch.service';
+import {
+  OrderOffer,
+  UpdateAvailabilityInput,
+  UpdateAvailabilityOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { AuthUser } from '../auth/auth-user.decorator';
+import { Role } from '../auth/role.decorator';
+import { PUB_SUB } from '../common/common.constants';
+import { NEW_ORDER_OFFER } from './dispatch.constants';
+
+interface OrderOfferPayload {
+  orderOffers: OrderOffer & { driverId: number };
+}
+
+interface SubscriptionContext {
+  user: User;
+}
+
+@Resolver()
+export class DispatchResolver {
+  constructor(
+    private readonly dispatchService: DispatchService,
+    @Inject(PUB_SUB) private readonly pubSub: PubSub,
+  ) {}
+
+  @Mutation(() => UpdateAvailabilityOutput)
+  @Role('Delivery')
+  updateAvailability(
+    @AuthUser() driver: User,
+    @Args('input') updateAvailabilityInput: UpdateAvailabilityInput,
+  ): Promise<UpdateAvailabilityOutput> {
+    return this.dispatchService.updateAvailability(
+      driver,
+      updateAvailabilityInput,
+    );
+  }
+
+  @Subscription(() => OrderOffer, {
+    filter: (
+      { orderOffers: { driverId } }: OrderOfferPayload,
+      _,
+      { user }: SubscriptionContext,
+    ) => driverId === user.id,
+  })
+  @Role('Delivery')
+  orderOffers() {
+    return this.pubSub.asyncIterator(NEW_ORDER_OFFER);
+  }
+}
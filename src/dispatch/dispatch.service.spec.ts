@@ -0,0 +1,210 @@
+import { Test } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { DispatchService } from './dispatch.service';
+import { User, UserRole } from '../users/entities';
+import { Order, OrderStatus } from '../orders/entities';
+import { Restaurant } from '../restaurants/entities';
+import { CONFIG_OPTIONS, PUB_SUB } from '../common/common.constants';
+import { NEW_ORDER_OFFER } from './dispatch.constants';
+import { NEW_COOKED_ORDER } from '../orders/orders.constants';
+
+const mockRepository = () => ({
+  find: jest.fn(),
+  findOne: jest.fn(),
+  update: jest.fn(),
+  createQueryBuilder: jest.fn(),
+});
+
+const mockQueryBuilder = () => ({
+  where: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  getMany: jest.fn(),
+});
+
+const mockPubSub = () => ({
+  publish: jest.fn(),
+  subscribe: jest.fn(),
+  unsubscribe: jest.fn(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+describe('DispatchService', () => {
+  let usersRepository: MockRepository<User>;
+  let ordersRepository: MockRepository<Order>;
+  let service: DispatchService;
+  let pubSub: ReturnType<typeof mockPubSub>;
+  let drivers: ReturnType<typeof mockQueryBuilder>;
+
+  const restaurant = { id: 2, lat: 50, lng: 30 } as Restaurant;
+  const order = { id: 7, status: OrderStatus.Cooked, restaurant } as Order;
+  const near = { id: 10, lat: 50.01, lng: 30 };
+  const far = { id: 11, lat: 50.1, lng: 30 };
+
+  const createService = async (autoDispatch: boolean) => {
+    const module = await Test.createTestingModule({
+      providers: [
+        DispatchService,
+        {
+          provide: CONFIG_OPTIONS,
+          useValue: { autoDispatch, offerTimeoutMs: 0 },
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Order),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Restaurant),
+          useValue: mockRepository(),
+        },
+        {
+          provide: PUB_SUB,
+          useValue: mockPubSub(),
+        },
+      ],
+    }).compile();
+
+    usersRepository = module.get(getRepositoryToken(User));
+    ordersRepository = module.get(getRepositoryToken(Order));
+    service = module.get<DispatchService>(DispatchService);
+    pubSub = module.get(PUB_SUB);
+    drivers = mockQueryBuilder();
+    usersRepository.createQueryBuilder.mockReturnValue(drivers);
+  };
+
+  beforeEach(async () => {
+    await createService(true);
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  describe('onModuleInit', () => {
+    it('should listen for cooked orders', async () => {
+      await service.onModuleInit();
+
+      expect(pubSub.subscribe).toHaveBeenCalledWith(
+        NEW_COOKED_ORDER,
+        expect.any(Function),
+      );
+    });
+
+    it('should do nothing when auto-dispatch is off', async () => {
+      await createService(false);
+      await service.onModuleInit();
+
+      expect(pubSub.subscribe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateAvailability', () => {
+    it('should update the driver', async () => {
+      const result = await service.updateAvailability({ id: 10 } as User, {
+        isAvailable: true,
+        lat: 1,
+        lng: 2,
+      });
+
+      expect(usersRepository.update).toHaveBeenCalledWith(10, {
+        isAvailable: true,
+        lat: 1,
+        lng: 2,
+      });
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail on exception', async () => {
+      usersRepository.update.mockRejectedValue(new Error());
+      const result = await service.updateAvailability({ id: 10 } as User, {
+        isAvailable: false,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not update availability.',
+      });
+    });
+  });
+
+  describe('findAvailableDrivers', () => {
+    it('should return located drivers nearest first', async () => {
+      drivers.getMany.mockResolvedValue([far, { id: 12 }, near]);
+
+      const found = await service.findAvailableDrivers({ lat: 50, lng: 30 });
+
+      expect(drivers.where).toHaveBeenCalledWith('driver.role = :role', {
+        role: UserRole.Delivery,
+      });
+      expect(drivers.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('NOT EXISTS'),
+        { activeStatuses: [OrderStatus.Cooked, OrderStatus.PickedUp] },
+      );
+      expect(found).toEqual([near, far]);
+    });
+  });
+
+  describe('dispatch', () => {
+    it('should offer the order to the nearest driver first', async () => {
+      drivers.getMany.mockResolvedValue([far, near]);
+      ordersRepository.findOne.mockResolvedValue({
+        ...order,
+        driverId: near.id,
+      });
+
+      const driverId = await service.dispatch(order);
+
+      expect(pubSub.publish).toHaveBeenCalledTimes(1);
+      expect(pubSub.publish).toHaveBeenCalledWith(NEW_ORDER_OFFER, {
+        orderOffers: { order, driverId: near.id, expiresAt: expect.any(Date) },
+      });
+      expect(driverId).toEqual(near.id);
+    });
+
+    it('should move on when an offer times out', async () => {
+      drivers.getMany.mockResolvedValue([far, near]);
+      ordersRepository.findOne
+        .mockResolvedValueOnce(order)
+        .mockResolvedValueOnce({ ...order, driverId: far.id });
+
+      const driverId = await service.dispatch(order);
+
+      expect(pubSub.publish).toHaveBeenNthCalledWith(2, NEW_ORDER_OFFER, {
+        orderOffers: { order, driverId: far.id, expiresAt: expect.any(Date) },
+      });
+      expect(driverId).toEqual(far.id);
+    });
+
+    it('should give up when nobody takes the order', async () => {
+      drivers.getMany.mockResolvedValue([near]);
+      ordersRepository.findOne.mockResolvedValue(order);
+
+      const driverId = await service.dispatch(order);
+
+      expect(pubSub.publish).toHaveBeenCalledTimes(1);
+      expect(Logger.prototype.log).toHaveBeenCalledWith('Nobody took order 7.');
+      expect(driverId).toBeUndefined();
+    });
+
+    it('should stop when the order is no longer cooked', async () => {
+      drivers.getMany.mockResolvedValue([near, far]);
+      ordersRepository.findOne.mockResolvedValue({
+        ...order,
+        status: OrderStatus.Cancelled,
+      });
+
+      const driverId = await service.dispatch(order);
+
+      expect(pubSub.publish).toHaveBeenCalledTimes(1);
+      expect(driverId).toBeUndefined();
+    });
+  });
+});
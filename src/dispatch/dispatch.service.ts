@@ -0,0 +1,138 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PubSub } from 'graphql-subscriptions';
+
+import { User, UserRole } from '../users/entities';
+import { Order, OrderStatus } from '../orders/entities';
+import { Restaurant } from '../restaurants/entities';
+import { UpdateAvailabilityInput, UpdateAvailabilityOutput } from './dtos';
+import { DispatchModuleOptions } from './dispatch.interfaces';
+import { NEW_ORDER_OFFER } from './dispatch.constants';
+import { NEW_COOKED_ORDER } from '../orders/orders.constants';
+import { CONFIG_OPTIONS, PUB_SUB } from '../common/common.constants';
+import { Coordinates, distanceKm } from '../geo';
+
+@Injectable()
+export class DispatchService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DispatchService.name);
+  private subscriptionId?: number;
+
+  constructor(
+    @Inject(CONFIG_OPTIONS) private readonly options: DispatchModuleOptions,
+    @InjectRepository(User) private readonly users: Repository<User>,
+    @InjectRepository(Order) private readonly orders: Repository<Order>,
+    @InjectRepository(Restaurant)
+    private readonly restaurants: Repository<Restaurant>,
+    @Inject(PUB_SUB) private readonly pubSub: PubSub,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    if (!this.options.autoDispatch) {
+      return;
+    }
+
+    this.subscriptionId = await this.pubSub.subscribe(
+      NEW_COOKED_ORDER,
+      ({ cookedOrders }: { cookedOrders: Order }) => {
+        this.dispatch(cookedOrders).catch((error) =>
+          this.logger.error(
+            `Could not dispatch order ${cookedOrders.id}.`,
+            error.stack,
+          ),
+        );
+      },
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.subscriptionId !== undefined) {
+      this.pubSub.unsubscribe(this.subscriptionId);
+    }
+  }
+
+  async updateAvailability(
+    driver: User,
+    { isAvailable, lat, lng }: UpdateAvailabilityInput,
+  ): Promise<UpdateAvailabilityOutput> {
+    try {
+      await this.users.update(driver.id, {
+        isAvailable,
+        ...(lat !== undefined && { lat }),
+        ...(lng !== undefined && { lng }),
+      });
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not update availability.' };
+    }
+  }
+
+  /**
+   * Available drivers with a known location, nearest first. Drivers who are
+   * still delivering another order are left out.
+   */
+  async findAvailableDrivers(origin: Coordinates): Promise<User[]> {
+    const drivers = await this.users
+      .createQueryBuilder('driver')
+      .where('driver.role = :role', { role: UserRole.Delivery })
+      .andWhere('driver.isAvailable = true')
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM "order" WHERE "order"."driverId" = driver.id AND "order".status IN (:...activeStatuses))`,
+        { activeStatuses: [OrderStatus.Cooked, OrderStatus.PickedUp] },
+      )
+      .getMany();
+
+    return drivers
+      .filter(({ lat, lng }) => lat != null && lng != null)
+      .map((driver) => ({
+        driver,
+        distance: distanceKm(origin, { lat: driver.lat, lng: driver.lng }),
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ driver }) => driver);
+  }
+
+  /**
+   * Offers `order` to available drivers one at a time, nearest first, until
+   * one of them takes it or everyone has had a chance. Drivers accept with
+   * the `takeOrder` mutation. Returns the id of the driver who took it.
+   */
+  async dispatch(order: Order): Promise<number | undefined> {
+    const restaurant =
+      order.restaurant ?? (await this.restaurants.findOne(order.restaurantId));
+    if (restaurant?.lat == null || restaurant?.lng == null) {
+      return undefined;
+    }
+
+    const drivers = await this.findAvailableDrivers({
+      lat: restaurant.lat,
+      lng: restaurant.lng,
+    });
+    for (const driver of drivers) {
+      const expiresAt = new Date(Date.now() + this.options.offerTimeoutMs);
+      await this.pubSub.publish(NEW_ORDER_OFFER, {
+        orderOffers: { order, expiresAt, driverId: driver.id },
+      });
+      await this.wait(this.options.offerTimeoutMs);
+
+      const current = await this.orders.findOne(order.id);
+      if (current?.status !== OrderStatus.Cooked || current.driverId) {
+        return current?.driverId ?? undefined;
+      }
+    }
+
+    this.logger.log(`Nobody took order ${order.id}.`);
+    return undefined;
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,2 @@
+export * from './order-offer.dto';
+export * from './update-availability.dto';
@@ -0,0 +1,13 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { Order } from '../../orders/entities';
+
+@ObjectType()
+export class OrderOffer {
+  @Field(() => Order)
+  order: Order;
+
+  @Field(() => Date, {
+    description: 'The offer goes to the next driver after this.',
+  })
+  expiresAt: Date;
+}
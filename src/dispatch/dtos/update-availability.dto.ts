@@ -0,0 +1,28 @@
+import { Field, Float, InputType, ObjectType } from '@nestjs/graphql';
+import {
+  IsBoolean,
+  IsLatitude,
+  IsLongitude,
+  IsOptional,
+} from 'class-validator';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+@InputType()
+export class UpdateAvailabilityInput {
+  @Field(() => Boolean)
+  @IsBoolean()
+  isAvailable: boolean;
+
+  @Field(() => Float, { nullable: true })
+  @IsLatitude()
+  @IsOptional()
+  lat?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsLongitude()
+  @IsOptional()
+  lng?: number;
+}
+
+@ObjectType()
+export class UpdateAvailabilityOutput extends CoreOutput {}
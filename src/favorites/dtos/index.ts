@@ -0,0 +1,2 @@
+export * from './my-favorites.dto';
+export * from './toggle-favorite.dto';
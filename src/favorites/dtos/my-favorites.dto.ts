@@ -0,0 +1,9 @@
+import { ArgsType, ObjectType } from '@nestjs/graphql';
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { Favorite } from '../entities';
+
+@ArgsType()
+export class MyFavoritesInput extends ConnectionArgs {}
+
+@ObjectType()
+export class MyFavoritesOutput extends Paginated(Favorite) {}
@@ -0,0 +1,19 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+/** Exactly one of `restaurantId` and `dishId` must be given. */
+@InputType()
+export class ToggleFavoriteInput {
+  @Field(() => Number, { nullable: true })
+  restaurantId?: number;
+
+  @Field(() => Number, { nullable: true })
+  dishId?: number;
+}
+
+@ObjectType()
+export class ToggleFavoriteOutput extends CoreOutput {
+  // Whether the restaurant or dish is a favorite after the toggle.
+  @Field(() => Boolean, { nullable: true })
+  isFavorite?: boolean;
+}
@@ -0,0 +1,35 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { Entity, ManyToOne, RelationId, Unique } from 'typeorm';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Dish, Restaurant } from '../../restaurants/entities';
+
+// Either `restaurant` or `dish` is set. Postgres treats NULLs as distinct,
+// so each unique constraint only applies to its own kind of favorite.
+@InputType('FavoriteInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+@Unique(['user', 'restaurant'])
+@Unique(['user', 'dish'])
+export class Favorite extends CoreEntity {
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @RelationId((favorite: Favorite) => favorite.user)
+  userId: number;
+
+  @Field(() => Restaurant, { nullable: true })
+  @ManyToOne(() => Restaurant, { nullable: true, onDelete: 'CASCADE' })
+  restaurant?: Restaurant;
+
+  @RelationId((favorite: Favorite) => favorite.restaurant)
+  restaurantId?: number;
+
+  @Field(() => Dish, { nullable: true })
+  @ManyToOne(() => Dish, { nullable: true, onDelete: 'CASCADE' })
+  dish?: Dish;
+
+  @RelationId((favorite: Favorite) => favorite.dish)
+  dishId?: number;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { FavoritesResolver } from './favorites.resolver';
+import { FavoritesService } from './favorites.service';
+import { Favorite } from './entities';
+import { Dish, Restaurant } from '../restaurants/entities';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Favorite, Restaurant, Dish])],
+  providers: [FavoritesResolver, FavoritesService],
+})
+export class FavoritesModule {}
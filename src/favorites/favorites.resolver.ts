@@ -0,0 +1,36 @@
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+
+import { Favorite } from './entities';
+import { FavoritesService } from './favorites.service';
+import {
+  MyFavoritesInput,
+  MyFavoritesOutput,
+  ToggleFavoriteInput,
+  ToggleFavoriteOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { AuthUser } from '../auth/auth-user.decorator';
+import { Role } from '../auth/role.decorator';
+
+@Resolver(() => Favorite)
+export class FavoritesResolver {
+  constructor(private readonly favoritesService: FavoritesService) {}
+
+  @Mutation(() => ToggleFavoriteOutput)
+  @Role('Client')
+  toggleFavorite(
+    @AuthUser() client: User,
+    @Args('input') toggleFavoriteInput: ToggleFavoriteInput,
+  ): Promise<ToggleFavoriteOutput> {
+    return this.favoritesService.toggleFavorite(client, toggleFavoriteInput);
+  }
+
+  @Query(() => MyFavoritesOutput)
+  @Role('Client')
+  myFavorites(
+    @AuthUser() client: User,
+    @Args() myFavoritesInput: MyFavoritesInput,
+  ): Promise<MyFavoritesOutput> {
+    return this.favoritesService.myFavorites(client, myFavoritesInput);
+  }
+}
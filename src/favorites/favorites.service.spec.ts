@@ -0,0 +1,182 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Favorite } from './entities';
+import { FavoritesService } from './favorites.service';
+import { User } from '../users/entities';
+import { Dish, Restaurant } from '../restaurants/entities';
+import { paginate } from '../common/common.pagination';
+
+jest.mock('../common/common.pagination', () => ({
+  paginate: jest.fn(),
+}));
+
+const mockRepository = () => ({
+  findOne: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn((entity) => entity),
+  delete: jest.fn(),
+  createQueryBuilder: jest.fn(),
+});
+
+const mockQueryBuilder = () => ({
+  leftJoinAndSelect: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+describe('FavoritesService', () => {
+  let favoritesRepository: MockRepository<Favorite>;
+  let restaurantsRepository: MockRepository<Restaurant>;
+  let dishesRepository: MockRepository<Dish>;
+  let service: FavoritesService;
+
+  const client = { id: 1 } as User;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        FavoritesService,
+        {
+          provide: getRepositoryToken(Favorite),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Restaurant),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Dish),
+          useValue: mockRepository(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<FavoritesService>(FavoritesService);
+    favoritesRepository = module.get(getRepositoryToken(Favorite));
+    restaurantsRepository = module.get(getRepositoryToken(Restaurant));
+    dishesRepository = module.get(getRepositoryToken(Dish));
+  });
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  describe('toggleFavorite', () => {
+    it('should add a restaurant', async () => {
+      favoritesRepository.findOne.mockResolvedValue(undefined);
+      restaurantsRepository.findOne.mockResolvedValue({ id: 2 });
+
+      const result = await service.toggleFavorite(client, { restaurantId: 2 });
+
+      expect(favoritesRepository.findOne).toHaveBeenCalledWith({
+        user: { id: 1 },
+        restaurant: { id: 2 },
+      });
+      expect(favoritesRepository.save).toHaveBeenCalledWith({
+        user: client,
+        restaurant: { id: 2 },
+      });
+      expect(result).toEqual({ ok: true, isFavorite: true });
+    });
+
+    it('should add a dish', async () => {
+      favoritesRepository.findOne.mockResolvedValue(undefined);
+      dishesRepository.findOne.mockResolvedValue({ id: 3 });
+
+      const result = await service.toggleFavorite(client, { dishId: 3 });
+
+      expect(favoritesRepository.save).toHaveBeenCalledWith({
+        user: client,
+        dish: { id: 3 },
+      });
+      expect(result).toEqual({ ok: true, isFavorite: true });
+    });
+
+    it('should remove an existing favorite', async () => {
+      favoritesRepository.findOne.mockResolvedValue({ id: 5 });
+
+      const result = await service.toggleFavorite(client, { dishId: 3 });
+
+      expect(favoritesRepository.delete).toHaveBeenCalledWith(5);
+      expect(favoritesRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: true, isFavorite: false });
+    });
+
+    it('should need exactly one target', async () => {
+      const none = await service.toggleFavorite(client, {});
+      const both = await service.toggleFavorite(client, {
+        restaurantId: 2,
+        dishId: 3,
+      });
+
+      const error = {
+        ok: false,
+        error: 'Choose either a restaurant or a dish.',
+      };
+      expect(none).toEqual(error);
+      expect(both).toEqual(error);
+      expect(favoritesRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should fail if the restaurant does not exist', async () => {
+      favoritesRepository.findOne.mockResolvedValue(undefined);
+      restaurantsRepository.findOne.mockResolvedValue(undefined);
+
+      const result = await service.toggleFavorite(client, { restaurantId: 2 });
+
+      expect(result).toEqual({ ok: false, error: 'Restaurant not found.' });
+    });
+
+    it('should fail if the dish does not exist', async () => {
+      favoritesRepository.findOne.mockResolvedValue(undefined);
+      dishesRepository.findOne.mockResolvedValue(undefined);
+
+      const result = await service.toggleFavorite(client, { dishId: 3 });
+
+      expect(result).toEqual({ ok: false, error: 'Dish not found.' });
+    });
+
+    it('should fail on exception', async () => {
+      favoritesRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.toggleFavorite(client, { dishId: 3 });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not update favorites.',
+      });
+    });
+  });
+
+  describe('myFavorites', () => {
+    it("should paginate the user's favorites", async () => {
+      const query = mockQueryBuilder();
+      const connection = {
+        edges: [],
+        totalCount: 0,
+        pageInfo: { hasNextPage: false },
+      };
+      favoritesRepository.createQueryBuilder.mockReturnValue(query);
+      (paginate as jest.Mock).mockResolvedValue(connection);
+
+      const result = await service.myFavorites(client, { first: 20 });
+
+      expect(query.where).toHaveBeenCalledWith('favorite.user = :userId', {
+        userId: 1,
+      });
+      expect(paginate).toHaveBeenCalledWith(query, { first: 20 });
+      expect(result).toEqual({ ok: true, ...connection });
+    });
+
+    it('should fail on exception', async () => {
+      favoritesRepository.createQueryBuilder.mockImplementation(() => {
+        throw new Error();
+      });
+      const result = await service.myFavorites(client, { first: 20 });
+
+      expect(result).toEqual({ ok: false, error: 'Could not load favorites.' });
+    });
+  });
+});
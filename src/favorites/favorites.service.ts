@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Favorite } from './entities';
+import {
+  MyFavoritesInput,
+  MyFavoritesOutput,
+  ToggleFavoriteInput,
+  ToggleFavoriteOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { Dish, Restaurant } from '../restaurants/entities';
+import { paginate } from '../common/common.pagination';
+
+@Injectable()
+export class FavoritesService {
+  constructor(
+    @InjectRepository(Favorite)
+    private readonly favorites: Repository<Favorite>,
+    @InjectRepository(Restaurant)
+    private readonly restaurants: Repository<Restaurant>,
+    @InjectRepository(Dish) private readonly dishes: Repository<Dish>,
+  ) {}
+
+  /** Adds the restaurant or dish to the user's favorites, or removes it. */
+  async toggleFavorite(
+    user: User,
+    { restaurantId, dishId }: ToggleFavoriteInput,
+  ): Promise<ToggleFavoriteOutput> {
+    try {
+      if ((restaurantId == null) === (dishId == null)) {
+        return { ok: false, error: 'Choose either a restaurant or a dish.' };
+      }
+
+      const target =
+        restaurantId != null
+          ? { restaurant: { id: restaurantId } }
+          : { dish: { id: dishId } };
+
+      const favorite = await this.favorites.findOne({
+        user: { id: user.id },
+        ...target,
+      });
+      if (favorite) {
+        await this.favorites.delete(favorite.id);
+        return { ok: true, isFavorite: false };
+      }
+
+      if (restaurantId != null) {
+        const restaurant = await this.restaurants.findOne(restaurantId);
+        if (!restaurant) {
+          return { ok: false, error: 'Restaurant not found.' };
+        }
+      } else {
+        const dish = await this.dishes.findOne(dishId);
+        if (!dish) {
+          return { ok: false, error: 'Dish not found.' };
+        }
+      }
+
+      await this.favorites.save(this.favorites.create({ user, ...target }));
+
+      return { ok: true, isFavorite: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not update favorites.' };
+    }
+  }
+
+  async myFavorites(
+    user: User,
+    myFavoritesInput: MyFavoritesInput,
+  ): Promise<MyFavoritesOutput> {
+    try {
+      const connection = await paginate(
+        this.favorites
+          .createQueryBuilder('favorite')
+          .leftJoinAndSelect('favorite.restaurant', 'restaurant')
+          .leftJoinAndSelect('favorite.dish', 'dish')
+          .where('favorite.user = :userId', { userId: user.id }),
+        myFavoritesInput,
+      );
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load favorites.' };
+    }
+  }
+}
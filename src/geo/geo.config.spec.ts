@@ -0,0 +1,35 @@
+import { createGeocoder, geocoderFromEnv } from './geo.config';
+import { LocalGeocoder } from './local-geocoder';
+import { NominatimGeocoder } from './nominatim-geocoder';
+
+describe('geocoderFromEnv', () => {
+  it('should default to the local geocoder', () => {
+    expect(geocoderFromEnv({})).toEqual({ type: 'local' });
+  });
+
+  it('should read the Nominatim settings', () => {
+    expect(
+      geocoderFromEnv({
+        GEOCODER: 'nominatim',
+        NOMINATIM_USER_AGENT: 'nuber-eats',
+      }),
+    ).toEqual({
+      type: 'nominatim',
+      url: 'https://nominatim.openstreetmap.org',
+      userAgent: 'nuber-eats',
+    });
+  });
+});
+
+describe('createGeocoder', () => {
+  it('should create the configured geocoder', () => {
+    expect(createGeocoder({ type: 'local' })).toBeInstanceOf(LocalGeocoder);
+    expect(
+      createGeocoder({
+        type: 'nominatim',
+        url: 'https://geo.test',
+        userAgent: 'test',
+      }),
+    ).toBeInstanceOf(NominatimGeocoder);
+  });
+});
@@ -0,0 +1,24 @@
+import { Geocoder, GeocoderOptions } from './geo.interfaces';
+import { LocalGeocoder } from './local-geocoder';
+import { NominatimGeocoder } from './nominatim-geocoder';
+
+/** Builds the geocoder options from the `GEOCODER*` env validated in `AppModule`. */
+export const geocoderFromEnv = (
+  env: NodeJS.ProcessEnv = process.env,
+): GeocoderOptions =>
+  env.GEOCODER === 'nominatim'
+    ? {
+        type: 'nominatim',
+        url: env.NOMINATIM_URL ?? 'https://nominatim.openstreetmap.org',
+        userAgent: env.NOMINATIM_USER_AGENT,
+      }
+    : { type: 'local' };
+
+export const createGeocoder = (options: GeocoderOptions): Geocoder => {
+  switch (options.type) {
+    case 'nominatim':
+      return new NominatimGeocoder(options);
+    case 'local':
+      return new LocalGeocoder();
+  }
+};
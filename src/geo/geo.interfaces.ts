@@ -0,0 +1,22 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface Geocoder {
+  /** Resolves an address, or returns undefined if it can't be found. */
+  geocode(address: string): Promise<Coordinates | undefined>;
+}
+
+export interface LocalGeocoderOptions {
+  type: 'local';
+}
+
+export interface NominatimGeocoderOptions {
+  type: 'nominatim';
+  url: string;
+  // Nominatim's usage policy asks every application to identify itself.
+  userAgent: string;
+}
+
+export type GeocoderOptions = LocalGeocoderOptions | NominatimGeocoderOptions;
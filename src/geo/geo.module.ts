@@ -0,0 +1,22 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+
+import { GEOCODER } from '../common/common.constants';
+import { GeocoderOptions } from './geo.interfaces';
+import { createGeocoder } from './geo.config';
+
+@Global()
+@Module({})
+export class GeoModule {
+  static forRoot(options: GeocoderOptions): DynamicModule {
+    return {
+      module: GeoModule,
+      providers: [
+        {
+          provide: GEOCODER,
+          useValue: createGeocoder(options),
+        },
+      ],
+      exports: [GEOCODER],
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { Coordinates, Geocoder } from './geo.interfaces';
+
+export const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/** Great-circle distance between two points, using the haversine formula. */
+export const distanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+interface Locatable {
+  address?: string;
+  lat?: number;
+  lng?: number;
+}
+
+/**
+ * Uses the given coordinates if both are set, and geocodes the address
+ * otherwise.
+ */
+export const locate = async (
+  geocoder: Geocoder,
+  { address, lat, lng }: Locatable,
+): Promise<Coordinates | undefined> => {
+  if (typeof lat === 'number' && typeof lng === 'number') {
+    return { lat, lng };
+  }
+
+  return address ? geocoder.geocode(address) : undefined;
+};
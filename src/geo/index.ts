@@ -0,0 +1,6 @@
+export * from './geo.interfaces';
+export * from './geo.config';
+export * from './geo.module';
+export * from './geo.utils';
+export * from './local-geocoder';
+export * from './nominatim-geocoder';
@@ -0,0 +1,53 @@
+import { LocalGeocoder } from './local-geocoder';
+import { distanceKm } from './geo.utils';
+
+describe('LocalGeocoder', () => {
+  let geocoder: LocalGeocoder;
+
+  beforeEach(() => {
+    geocoder = new LocalGeocoder();
+  });
+
+  it('should be defined', () => {
+    expect(geocoder).toBeDefined();
+  });
+
+  it('should parse "lat,lng" addresses', async () => {
+    await expect(geocoder.geocode(' 50.45, 30.52 ')).resolves.toEqual({
+      lat: 50.45,
+      lng: 30.52,
+    });
+  });
+
+  it('should resolve registered addresses', async () => {
+    geocoder.register('1 Main  Street', { lat: 1, lng: 2 });
+
+    await expect(geocoder.geocode('1 main street')).resolves.toEqual({
+      lat: 1,
+      lng: 2,
+    });
+  });
+
+  it('should not resolve unknown or invalid addresses', async () => {
+    await expect(geocoder.geocode('Nowhere')).resolves.toBeUndefined();
+    await expect(geocoder.geocode('91,0')).resolves.toBeUndefined();
+    await expect(geocoder.geocode('1,2,3')).resolves.toBeUndefined();
+  });
+});
+
+describe('distanceKm', () => {
+  it('should be zero for the same point', () => {
+    expect(distanceKm({ lat: 10, lng: 10 }, { lat: 10, lng: 10 })).toEqual(0);
+  });
+
+  it('should measure great-circle distance', () => {
+    expect(distanceKm({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(
+      111.19,
+      2,
+    );
+    expect(distanceKm({ lat: 0, lng: 0 }, { lat: 0, lng: 180 })).toBeCloseTo(
+      20015.09,
+      2,
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { isLatitude, isLongitude } from 'class-validator';
+
+import { Coordinates, Geocoder } from './geo.interfaces';
+
+const normalize = (address: string): string =>
+  address.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Offline geocoder for dev and tests. It understands "lat,lng" addresses
+ * and anything registered with `register()`, and nothing else.
+ */
+@Injectable()
+export class LocalGeocoder implements Geocoder {
+  private readonly addresses = new Map<string, Coordinates>();
+
+  register(address: string, coordinates: Coordinates): void {
+    this.addresses.set(normalize(address), coordinates);
+  }
+
+  async geocode(address: string): Promise<Coordinates | undefined> {
+    const known = this.addresses.get(normalize(address));
+    if (known) {
+      return known;
+    }
+
+    const [lat, lng, ...rest] = address.split(',').map((part) => part.trim());
+    if (rest.length || !lat || !lng || !isLatitude(lat) || !isLongitude(lng)) {
+      return undefined;
+    }
+
+    return { lat: +lat, lng: +lng };
+  }
+}
@@ -0,0 +1,38 @@
+import got from 'got';
+
+import { NominatimGeocoder } from './nominatim-geocoder';
+
+jest.mock('got');
+
+describe('NominatimGeocoder', () => {
+  const geocoder = new NominatimGeocoder({
+    type: 'nominatim',
+    url: 'https://geo.test',
+    userAgent: 'nuber-eats-test',
+  });
+  const respond = (places: unknown[]) =>
+    (got as unknown as jest.Mock).mockReturnValue({
+      json: jest.fn().mockResolvedValue(places),
+    });
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('should search for the address', async () => {
+    respond([{ lat: '50.45', lon: '30.52' }]);
+
+    await expect(geocoder.geocode('Main St 1')).resolves.toEqual({
+      lat: 50.45,
+      lng: 30.52,
+    });
+    expect(got).toHaveBeenCalledWith('https://geo.test/search', {
+      searchParams: { q: 'Main St 1', format: 'json', limit: 1 },
+      headers: { 'User-Agent': 'nuber-eats-test' },
+    });
+  });
+
+  it('should not resolve unknown addresses', async () => {
+    respond([]);
+
+    await expect(geocoder.geocode('Nowhere')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,26 @@
+import got from 'got';
+
+import {
+  Coordinates,
+  Geocoder,
+  NominatimGeocoderOptions,
+} from './geo.interfaces';
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+}
+
+/** Geocodes through a Nominatim (OpenStreetMap) search API. */
+export class NominatimGeocoder implements Geocoder {
+  constructor(private readonly options: NominatimGeocoderOptions) {}
+
+  async geocode(address: string): Promise<Coordinates | undefined> {
+    const [place] = await got(`${this.options.url}/search`, {
+      searchParams: { q: address, format: 'json', limit: 1 },
+      headers: { 'User-Agent': this.options.userAgent },
+    }).json<NominatimPlace[]>();
+
+    return place ? { lat: +place.lat, lng: +place.lon } : undefined;
+  }
+}
@@ -1,3 +1,22 @@
 export interface JwtModuleOptions {
   privateKey: string;
+  accessTokenExpiresIn: string;
+  refreshTokenExpiresIn: string;
+}
+
+export enum TokenType {
+  Access = 'access',
+  Refresh = 'refresh',
+}
+
+export interface AccessTokenPayload {
+  id: number;
+  sid: number;
+  typ: TokenType.Access;
+}
+
+export interface RefreshTokenPayload {
+  sid: number;
+  gen: number;
+  typ: TokenType.Refresh;
 }
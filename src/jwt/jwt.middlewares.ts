@@ -1,30 +1,22 @@
 import { Injectable, NestMiddleware } from '@nestjs/common';
 import { NextFunction, Request, Response } from 'express';
-import { JwtService } from './jwt.service';
 import { UsersService } from '../users/users.service';
 
 @Injectable()
 export class JwtMiddleware implements NestMiddleware {
-  constructor(
-    private readonly jwtService: JwtService,
-    private readonly userService: UsersService,
-  ) {}
+  constructor(private readonly userService: UsersService) {}
 
   async use(req: Request, res: Response, next: NextFunction) {
     if ('x-jwt' in req.headers) {
       const token = req.headers['x-jwt'];
 
       try {
-        const decodedToken = this.jwtService.verify(token.toString());
-
-        if (
-          typeof decodedToken === 'object' &&
-          decodedToken.hasOwnProperty('id')
-        ) {
-          const { user, ok } = await this.userService.findById(decodedToken.id);
-          if (ok) {
-            req['user'] = user;
-          }
+        const session = await this.userService.findSessionByToken(
+          token.toString(),
+        );
+        if (session) {
+          req['user'] = session.user;
+          req['session'] = session;
         }
       } catch (error) {
         console.log(error);
@@ -6,6 +6,7 @@ import { CONFIG_OPTIONS } from '../common/common.constants';
 
 const TEST_KEY = 'testKey';
 const USER_ID = 1;
+const SESSION_ID = 2;
 const TOKEN = 'TOKEN';
 
 jest.mock('jsonwebtoken', () => {
@@ -24,7 +25,11 @@ describe('JwtService', () => {
         JwtService,
         {
           provide: CONFIG_OPTIONS,
-          useValue: { privateKey: TEST_KEY },
+          useValue: {
+            privateKey: TEST_KEY,
+            accessTokenExpiresIn: '15m',
+            refreshTokenExpiresIn: '30d',
+          },
         },
       ],
     }).compile();
@@ -36,12 +41,28 @@ describe('JwtService', () => {
 
   describe('sign', () => {
     it('should return a sign token', () => {
-      const token = service.sign(USER_ID);
+      const token = service.sign(USER_ID, SESSION_ID);
 
       expect(typeof token).toBe('string');
 
       expect(jwt.sign).toHaveBeenCalledTimes(1);
-      expect(jwt.sign).toHaveBeenLastCalledWith({ id: USER_ID }, TEST_KEY);
+      expect(jwt.sign).toHaveBeenLastCalledWith(
+        { id: USER_ID, sid: SESSION_ID, typ: 'access' },
+        TEST_KEY,
+        { expiresIn: '15m' },
+      );
+    });
+  });
+
+  describe('signRefreshToken', () => {
+    it('should sign a long-lived refresh token', () => {
+      service.signRefreshToken(SESSION_ID, 3);
+
+      expect(jwt.sign).toHaveBeenLastCalledWith(
+        { sid: SESSION_ID, gen: 3, typ: 'refresh' },
+        TEST_KEY,
+        { expiresIn: '30d' },
+      );
     });
   });
 
@@ -1,7 +1,12 @@
 import { Inject, Injectable } from "@nestjs/common";
 import * as jwt from 'jsonwebtoken';
 
-import { JwtModuleOptions } from './jwt.interfaces';
+import {
+  AccessTokenPayload,
+  JwtModuleOptions,
+  RefreshTokenPayload,
+  TokenType,
+} from './jwt.interfaces';
 import { CONFIG_OPTIONS } from "../common/common.constants";
 
 @Injectable()
@@ -10,8 +15,26 @@ export class JwtService {
     @Inject(CONFIG_OPTIONS) private readonly options: JwtModuleOptions,
   ) {}
 
-  sign(userId: number): string {
-    return jwt.sign({ id: userId }, this.options.privateKey);
+  sign(userId: number, sessionId: number): string {
+    const payload: AccessTokenPayload = {
+      id: userId,
+      sid: sessionId,
+      typ: TokenType.Access,
+    };
+    return jwt.sign(payload, this.options.privateKey, {
+      expiresIn: this.options.accessTokenExpiresIn,
+    });
+  }
+
+  signRefreshToken(sessionId: number, generation: number): string {
+    const payload: RefreshTokenPayload = {
+      sid: sessionId,
+      gen: generation,
+      typ: TokenType.Refresh,
+    };
+    return jwt.sign(payload, this.options.privateKey, {
+      expiresIn: this.options.refreshTokenExpiresIn,
+    });
   }
 
   verify(token: string) {
@@ -0,0 +1,10 @@
+import { ArgsType, ObjectType } from '@nestjs/graphql';
+
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { OutboxMessage } from '../entities';
+
+@ArgsType()
+export class DeadLetteredEmailsInput extends ConnectionArgs {}
+
+@ObjectType()
+export class DeadLetteredEmailsOutput extends Paginated(OutboxMessage) {}
@@ -0,0 +1,2 @@
+export * from './dead-lettered-emails.dto';
+export * from './replay-email.dto';
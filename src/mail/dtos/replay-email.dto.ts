@@ -0,0 +1,10 @@
+import { InputType, ObjectType, PickType } from '@nestjs/graphql';
+
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { OutboxMessage } from '../entities';
+
+@InputType()
+export class ReplayEmailInput extends PickType(OutboxMessage, ['id']) {}
+
+@ObjectType()
+export class ReplayEmailOutput extends CoreOutput {}
@@ -0,0 +1 @@
+export * from './outbox-message.entity';
@@ -0,0 +1,58 @@
+import {
+  Field,
+  InputType,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { Column, Entity, Index } from 'typeorm';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+
+export enum OutboxStatus {
+  Pending = 'Pending',
+  DeadLettered = 'DeadLettered',
+}
+
+registerEnumType(OutboxStatus, { name: 'OutboxStatus' });
+
+/**
+ * An email waiting to be delivered, or one that could not be. The bodies are
+ * encrypted since they carry verification codes and reset links, and rows
+ * are deleted once the email is sent.
+ */
+@InputType('OutboxMessageInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+@Index(['status', 'nextAttemptAt'])
+export class OutboxMessage extends CoreEntity {
+  @Field(() => String)
+  @Column()
+  to: string;
+
+  @Field(() => String)
+  @Column()
+  subject: string;
+
+  @Column({ type: 'text' })
+  html: string;
+
+  @Column({ type: 'text' })
+  text: string;
+
+  @Field(() => OutboxStatus)
+  @Column({ type: 'enum', enum: OutboxStatus, default: OutboxStatus.Pending })
+  status: OutboxStatus;
+
+  @Field(() => Int)
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Field(() => Date)
+  @Column()
+  nextAttemptAt: Date;
+
+  @Field(() => String, { nullable: true })
+  @Column({ type: 'text', nullable: true })
+  lastError?: string;
+}
@@ -1,3 +1,8 @@
 export * from './mail.service';
+export * from './outbox.service';
+export * from './entities';
 export * from './mail.interfaces';
 export * from './mail.module';
+export * from './mail.config';
+export * from './mail.constants';
+export * from './transports';
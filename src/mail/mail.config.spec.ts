@@ -0,0 +1,71 @@
+import { mailFromEmailFromEnv, mailTransportFromEnv } from './mail.config';
+
+describe('mailTransportFromEnv', () => {
+  it('should default to Mailgun', () => {
+    expect(
+      mailTransportFromEnv({
+        MAILGUN_API_KEY: 'key',
+        MAILGUN_DOMAIN_NAME: 'domain',
+      }),
+    ).toEqual({
+      type: 'mailgun',
+      apiKey: 'key',
+      domain: 'domain',
+    });
+  });
+
+  it('should read the SMTP settings', () => {
+    expect(
+      mailTransportFromEnv({
+        MAIL_TRANSPORT: 'smtp',
+        SMTP_HOST: 'smtp.test.com',
+        SMTP_PORT: '465',
+        SMTP_SECURE: 'true',
+      }),
+    ).toEqual({
+      type: 'smtp',
+      host: 'smtp.test.com',
+      port: 465,
+      secure: true,
+      user: undefined,
+      password: undefined,
+    });
+  });
+
+  it('should read the file sink settings', () => {
+    expect(
+      mailTransportFromEnv({
+        MAIL_TRANSPORT: 'file',
+        MAIL_OUTPUT_DIR: 'tmp/mail',
+        MAIL_FILE_FORMAT: 'eml',
+      }),
+    ).toEqual({
+      type: 'file',
+      directory: 'tmp/mail',
+      format: 'eml',
+    });
+  });
+
+  it('should use the memory sink', () => {
+    expect(mailTransportFromEnv({ MAIL_TRANSPORT: 'memory' })).toEqual({
+      type: 'memory',
+    });
+  });
+});
+
+describe('mailFromEmailFromEnv', () => {
+  it('should read MAIL_FROM_EMAIL', () => {
+    expect(
+      mailFromEmailFromEnv({
+        MAIL_FROM_EMAIL: 'new@test.com',
+        MAILGUN_FROM_EMAIL: 'old@test.com',
+      }),
+    ).toEqual('new@test.com');
+  });
+
+  it('should fall back to the old MAILGUN_FROM_EMAIL', () => {
+    expect(
+      mailFromEmailFromEnv({ MAILGUN_FROM_EMAIL: 'old@test.com' }),
+    ).toEqual('old@test.com');
+  });
+});
@@ -0,0 +1,37 @@
+import { MailTransportOptions } from './mail.interfaces';
+
+/** Builds the transport options from the `MAIL_*` env validated in `AppModule`. */
+export const mailTransportFromEnv = (
+  env: NodeJS.ProcessEnv = process.env,
+): MailTransportOptions => {
+  switch (env.MAIL_TRANSPORT ?? 'mailgun') {
+    case 'smtp':
+      return {
+        type: 'smtp',
+        host: env.SMTP_HOST,
+        port: +(env.SMTP_PORT ?? 587),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      };
+    case 'file':
+      return {
+        type: 'file',
+        directory: env.MAIL_OUTPUT_DIR,
+        format: env.MAIL_FILE_FORMAT === 'eml' ? 'eml' : 'json',
+      };
+    case 'memory':
+      return { type: 'memory' };
+    default:
+      return {
+        type: 'mailgun',
+        apiKey: env.MAILGUN_API_KEY,
+        domain: env.MAILGUN_DOMAIN_NAME,
+      };
+  }
+};
+
+/** `MAILGUN_FROM_EMAIL` is the name from before other transports existed. */
+export const mailFromEmailFromEnv = (
+  env: NodeJS.ProcessEnv = process.env,
+): string => env.MAIL_FROM_EMAIL ?? env.MAILGUN_FROM_EMAIL;
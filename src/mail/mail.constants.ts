@@ -0,0 +1,7 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export const OUTBOX_BATCH_SIZE = 20;
+export const OUTBOX_MAX_ATTEMPTS = 8;
+export const OUTBOX_BASE_DELAY_SECONDS = 30;
+// How long a worker owns the messages it picked before others may retry them.
+export const OUTBOX_CLAIM_SECONDS = 120;
@@ -1,10 +1,102 @@
-export interface MailModuleOptions {
+import { Locale } from '../common/common.locale';
+
+export interface MailgunTransportOptions {
+  type: 'mailgun';
   apiKey: string;
   domain: string;
+}
+
+export interface SmtpTransportOptions {
+  type: 'smtp';
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export interface FileTransportOptions {
+  type: 'file';
+  directory: string;
+  format: 'json' | 'eml';
+}
+
+export interface MemoryTransportOptions {
+  type: 'memory';
+}
+
+export type MailTransportOptions =
+  | MailgunTransportOptions
+  | SmtpTransportOptions
+  | FileTransportOptions
+  | MemoryTransportOptions;
+
+export interface MailModuleOptions {
   fromEmail: string;
+  // Encrypts the bodies of queued emails at rest.
+  outboxSecret: string;
+  transport: MailTransportOptions;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailMessage extends RenderedEmail {
+  from: string;
+  to: string;
+}
+
+/** Renders one email; a template has an English variant and optional translations. */
+export type EmailRenderer<T> = (vars: T) => RenderedEmail;
+export type EmailTemplate<T> = { [Locale.En]: EmailRenderer<T> } & Partial<
+  Record<Locale, EmailRenderer<T>>
+>;
+
+export interface VerificationEmail {
+  email: string;
+  code: string;
+}
+
+export interface PasswordResetEmail {
+  email: string;
+  token: string;
+}
+
+export interface AccountLockedEmail {
+  email: string;
+  lockedUntil: Date;
+}
+
+export interface OrderReceiptLine {
+  name: string;
+  quantity: number;
+  // Unit price including the extras of the chosen options.
+  price: number;
+  options?: { name: string; choice: string; extra: number }[];
+}
+
+export interface OrderReceiptEmail {
+  orderId: number;
+  restaurantName: string;
+  address: string;
+  items: OrderReceiptLine[];
+  /** The coupon's discount, already taken off `total`. */
+  discount?: number;
+  total: number;
+}
+
+/** Sent to a restaurant's owner; same contents as the client's receipt. */
+export type NewOrderEmail = OrderReceiptEmail;
+
+export interface OrderUpdateEmail {
+  orderId: number;
+  restaurantName: string;
 }
 
-export interface EmailVar {
-  key: string;
-  value: string;
+/** Delivers a message or throws. */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
 }
@@ -1,8 +1,14 @@
 import { DynamicModule, Global, Module } from "@nestjs/common";
+import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { CONFIG_OPTIONS } from "../common/common.constants";
 import { MailModuleOptions } from "./mail.interfaces";
 import { MailService } from "./mail.service";
+import { MAIL_TRANSPORT } from './mail.constants';
+import { createMailTransport } from './transports';
+import { OutboxMessage } from './entities';
+import { OutboxService } from './outbox.service';
+import { OutboxResolver } from './outbox.resolver';
 
 @Module({})
 @Global()
@@ -10,14 +16,21 @@ export class MailModule {
   static forRoot(options: MailModuleOptions): DynamicModule {
     return {
       module: MailModule,
+      imports: [TypeOrmModule.forFeature([OutboxMessage])],
       providers: [
         {
           provide: CONFIG_OPTIONS,
           useValue: options,
         },
+        {
+          provide: MAIL_TRANSPORT,
+          useValue: createMailTransport(options.transport),
+        },
+        OutboxService,
+        OutboxResolver,
         MailService,
       ],
-      exports: [MailService],
+      exports: [MailService, OutboxService, MAIL_TRANSPORT],
     };
   }
 }
@@ -1,73 +1,171 @@
 import { MailService } from './mail.service';
 import { Test } from '@nestjs/testing';
-import { CONFIG_OPTIONS } from '../common/common.constants';
-import got from 'got';
-import * as FormData from 'form-data';
+import { OutboxService } from './outbox.service';
+import { Locale } from '../common/common.locale';
 
-const TEST_DOMAIN = 'test-domain';
-
-jest.mock('got');
-jest.mock('form-data');
+const mockOutboxService = () => ({
+  enqueue: jest.fn(),
+});
 
 describe('MailService', () => {
   let service: MailService;
+  let outbox: ReturnType<typeof mockOutboxService>;
+
+  const queued = () => {
+    const [to, { subject, html, text }, manager] = outbox.enqueue.mock.calls[0];
+    return { to, subject, html, text, manager };
+  };
 
   beforeEach(async () => {
     const module = await Test.createTestingModule({
       providers: [
         MailService,
         {
-          provide: CONFIG_OPTIONS,
-          useValue: {
-            apiKey: 'test-apiKey',
-            domain: TEST_DOMAIN,
-            fromEmail: 'test-fromEmail',
-          },
+          provide: OutboxService,
+          useValue: mockOutboxService(),
         },
       ],
     }).compile();
 
     service = module.get<MailService>(MailService);
+    outbox = module.get(OutboxService);
   });
 
   it('should be defined', () => expect(service).toBeDefined());
 
   describe('sendVerificationEmail', () => {
-    it('should call sendEmail', () => {
-      const { code, email } = { email: 'email', code: 'code' };
-      jest.spyOn(service, 'sendEmail').mockImplementation(async () => true);
-      service.sendVerificationEmail(email, code);
-
-      expect(service.sendEmail).toHaveBeenCalledTimes(1);
-      expect(service.sendEmail).toHaveBeenCalledWith(
-        'Verify Your Email',
-        'verify-email',
-        [
-          { key: 'code', value: code },
-          { key: 'username', value: email },
-        ],
+    it('should send the code to the user', async () => {
+      await service.sendVerificationEmail('user@test.com', 'code');
+      const message = queued();
+
+      expect(message.to).toEqual('user@test.com');
+      expect(message.subject).toEqual('Verify Your Email');
+      expect(message.text).toContain('code');
+    });
+
+    it('should use the requested locale', async () => {
+      await service.sendVerificationEmail('user@test.com', 'code', Locale.Uk);
+
+      expect(queued().subject).toEqual('Підтвердіть електронну пошту');
+    });
+  });
+
+  describe('sendPasswordResetEmail', () => {
+    it('should send the token to the user', async () => {
+      await service.sendPasswordResetEmail('user@test.com', 'token');
+      const message = queued();
+
+      expect(message.to).toEqual('user@test.com');
+      expect(message.subject).toEqual('Reset Your Password');
+      expect(message.text).toContain('token');
+    });
+  });
+
+  describe('sendAccountLockedEmail', () => {
+    it('should tell the user until when the account is locked', async () => {
+      await service.sendAccountLockedEmail(
+        'user@test.com',
+        new Date('2021-09-01T12:15:00Z'),
       );
+      const message = queued();
+
+      expect(message.to).toEqual('user@test.com');
+      expect(message.subject).toEqual('Your Account Was Locked');
+      expect(message.text).toContain('2021-09-01 12:15 UTC');
+    });
+  });
+
+  describe('sendOrderReceiptEmail', () => {
+    it('should send the receipt to the user', async () => {
+      await service.sendOrderReceiptEmail('user@test.com', {
+        orderId: 7,
+        restaurantName: 'Pizza',
+        address: 'Main St 1',
+        items: [{ name: 'Margherita', quantity: 2, price: 10 }],
+        total: 20,
+      });
+      const message = queued();
+
+      expect(message.to).toEqual('user@test.com');
+      expect(message.subject).toEqual('Your Order #7');
+      expect(message.text).toContain('Total: $20.00');
+    });
+  });
+
+  describe('sendOrderPickedUpEmail', () => {
+    it('should tell the user the order is on its way', async () => {
+      await service.sendOrderPickedUpEmail('user@test.com', {
+        orderId: 7,
+        restaurantName: 'Pizza',
+      });
+      const message = queued();
+
+      expect(message.to).toEqual('user@test.com');
+      expect(message.subject).toEqual('Your Order #7 Is on Its Way');
+    });
+  });
+
+  describe('sendOrderDeliveredEmail', () => {
+    it('should tell the user the order was delivered', async () => {
+      await service.sendOrderDeliveredEmail('user@test.com', {
+        orderId: 7,
+        restaurantName: 'Pizza',
+      });
+      const message = queued();
+
+      expect(message.to).toEqual('user@test.com');
+      expect(message.subject).toEqual('Your Order #7 Was Delivered');
+    });
+  });
+
+  describe('sendNewOrderEmail', () => {
+    it('should send the order to the owner', async () => {
+      await service.sendNewOrderEmail('owner@test.com', {
+        orderId: 7,
+        restaurantName: 'Pizza',
+        address: 'Main St 1',
+        items: [{ name: 'Margherita', quantity: 2, price: 10 }],
+        total: 20,
+      });
+      const message = queued();
+
+      expect(message.to).toEqual('owner@test.com');
+      expect(message.subject).toEqual('New Order #7 for Pizza');
+      expect(message.text).toContain('2 × Margherita');
     });
   });
 
   describe('sendEmail', () => {
-    it('should send email', async () => {
-      const ok = await service.sendEmail('', '', []);
-      const formSpy = jest.spyOn(FormData.prototype, 'append');
+    const email = { subject: 'Subject', html: '<p>Hi</p>', text: 'Hi' };
 
-      expect(formSpy).toHaveBeenCalled();
+    it('should queue the email in the outbox', async () => {
+      await service.sendEmail('to@test.com', email);
 
-      expect(got.post).toHaveBeenCalledTimes(1);
-      expect(got.post).toHaveBeenCalledWith(`https://api.mailgun.net/v3/${TEST_DOMAIN}/messages`, expect.any(Object));
+      expect(outbox.enqueue).toHaveBeenCalledWith(
+        'to@test.com',
+        email,
+        undefined,
+      );
+    });
 
-      expect(ok).toEqual(true);
+    it('should queue the email in the given transaction', async () => {
+      const manager = {};
+      await service.sendVerificationEmail(
+        'to@test.com',
+        'code',
+        Locale.En,
+        manager as never,
+      );
+
+      expect(queued().manager).toBe(manager);
     });
 
-    it('should fail on exception', async () => {
-      jest.spyOn(got, "post").mockImplementation(() => { throw new Error() })
-      const ok = await service.sendEmail('', '', []);
+    it('should not swallow errors', async () => {
+      outbox.enqueue.mockRejectedValue(new Error('db down'));
 
-      expect(ok).toEqual(false);
-    })
+      await expect(service.sendEmail('to@test.com', email)).rejects.toThrow(
+        'db down',
+      );
+    });
   });
 });
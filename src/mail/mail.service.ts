@@ -1,41 +1,129 @@
-import { Inject, Injectable } from '@nestjs/common';
-import got from 'got';
-import * as FormData from 'form-data';
+import { Injectable } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
 
-import { CONFIG_OPTIONS } from '../common/common.constants';
-import { EmailVar, MailModuleOptions } from "./mail.interfaces";
+import {
+  NewOrderEmail,
+  OrderReceiptEmail,
+  OrderUpdateEmail,
+  RenderedEmail,
+} from './mail.interfaces';
+import { Locale } from '../common/common.locale';
+import { OutboxService } from './outbox.service';
+import {
+  accountLockedTemplate,
+  newOrderTemplate,
+  orderDeliveredTemplate,
+  orderPickedUpTemplate,
+  orderReceiptTemplate,
+  passwordResetTemplate,
+  renderEmail,
+  verificationTemplate,
+} from './templates';
 
+/**
+ * Renders emails and queues them in the outbox. Pass the `manager` of a
+ * transaction to queue an email only if the rest of the transaction commits.
+ */
 @Injectable()
 export class MailService {
-  constructor(@Inject(CONFIG_OPTIONS) private readonly options: MailModuleOptions) {}
-
-  async sendEmail(subject: string, template: string, emailVars: EmailVar[], to: string = process.env.MAILGUN_FROM_EMAIL): Promise<boolean> {
-    const form = new FormData();
-    form.append('from', `Nuber Eats <mailgun@${this.options.domain}>`);
-    form.append('to', to);
-    form.append('subject', subject);
-    form.append('template', template);
-
-    emailVars.forEach(({ key, value }) => form.append(`v:${key}`, value));
-
-    try {
-      await got.post(`https://api.mailgun.net/v3/${this.options.domain}/messages`, {
-        headers: {
-          "Authorization": `Basic ${Buffer.from(`api:${this.options.apiKey}`).toString('base64')}`,
-        },
-        body: form,
-      });
-
-      return true;
-    } catch (error) {
-      return false;
-    }
-  }
-
-  sendVerificationEmail(email: string, code: string): Promise<boolean> {
-    return this.sendEmail('Verify Your Email', 'verify-email', [
-      { key: 'code', value: code },
-      { key: 'username', value: email },
-    ])
+  constructor(private readonly outbox: OutboxService) {}
+
+  async sendEmail(
+    to: string,
+    email: RenderedEmail,
+    manager?: EntityManager,
+  ): Promise<void> {
+    await this.outbox.enqueue(to, email, manager);
+  }
+
+  sendVerificationEmail(
+    email: string,
+    code: string,
+    locale?: Locale,
+    manager?: EntityManager,
+  ): Promise<void> {
+    return this.sendEmail(
+      email,
+      renderEmail(verificationTemplate, { email, code }, locale),
+      manager,
+    );
+  }
+
+  sendPasswordResetEmail(
+    email: string,
+    token: string,
+    locale?: Locale,
+    manager?: EntityManager,
+  ): Promise<void> {
+    return this.sendEmail(
+      email,
+      renderEmail(passwordResetTemplate, { email, token }, locale),
+      manager,
+    );
+  }
+
+  sendAccountLockedEmail(
+    email: string,
+    lockedUntil: Date,
+    locale?: Locale,
+    manager?: EntityManager,
+  ): Promise<void> {
+    return this.sendEmail(
+      email,
+      renderEmail(accountLockedTemplate, { email, lockedUntil }, locale),
+      manager,
+    );
+  }
+
+  sendOrderReceiptEmail(
+    email: string,
+    receipt: OrderReceiptEmail,
+    locale?: Locale,
+    manager?: EntityManager,
+  ): Promise<void> {
+    return this.sendEmail(
+      email,
+      renderEmail(orderReceiptTemplate, receipt, locale),
+      manager,
+    );
+  }
+
+  sendOrderPickedUpEmail(
+    email: string,
+    update: OrderUpdateEmail,
+    locale?: Locale,
+    manager?: EntityManager,
+  ): Promise<void> {
+    return this.sendEmail(
+      email,
+      renderEmail(orderPickedUpTemplate, update, locale),
+      manager,
+    );
+  }
+
+  sendOrderDeliveredEmail(
+    email: string,
+    update: OrderUpdateEmail,
+    locale?: Locale,
+    manager?: EntityManager,
+  ): Promise<void> {
+    return this.sendEmail(
+      email,
+      renderEmail(orderDeliveredTemplate, update, locale),
+      manager,
+    );
+  }
+
+  sendNewOrderEmail(
+    email: string,
+    newOrder: NewOrderEmail,
+    locale?: Locale,
+    manager?: EntityManager,
+  ): Promise<void> {
+    return this.sendEmail(
+      email,
+      renderEmail(newOrderTemplate, newOrder, locale),
+      manager,
+    );
   }
 }
@@ -0,0 +1,41 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+const keyFrom = (secret: string): Buffer =>
+  createHash('sha256').update(`outbox:${secret}`).digest();
+
+/**
+ * Encrypts an email body for the outbox, so codes and reset links in it
+ * can't be read from the database. Stored as `iv.tag.ciphertext` in base64.
+ */
+export const sealBody = (secret: string, body: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, keyFrom(secret), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(body, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString('base64'))
+    .join('.');
+};
+
+export const openBody = (secret: string, sealed: string): string => {
+  const [iv, tag, ciphertext] = sealed
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv(ALGORITHM, keyFrom(secret), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString('utf8');
+};
@@ -0,0 +1,32 @@
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+
+import { OutboxMessage } from './entities';
+import { OutboxService } from './outbox.service';
+import {
+  DeadLetteredEmailsInput,
+  DeadLetteredEmailsOutput,
+  ReplayEmailInput,
+  ReplayEmailOutput,
+} from './dtos';
+import { Role } from '../auth/role.decorator';
+
+@Resolver(() => OutboxMessage)
+export class OutboxResolver {
+  constructor(private readonly outboxService: OutboxService) {}
+
+  @Query(() => DeadLetteredEmailsOutput)
+  @Role('Admin')
+  deadLetteredEmails(
+    @Args() deadLetteredEmailsInput: DeadLetteredEmailsInput,
+  ): Promise<DeadLetteredEmailsOutput> {
+    return this.outboxService.getDeadLettered(deadLetteredEmailsInput);
+  }
+
+  @Mutation(() => ReplayEmailOutput)
+  @Role('Admin')
+  replayEmail(
+    @Args('input') replayEmailInput: ReplayEmailInput,
+  ): Promise<ReplayEmailOutput> {
+    return this.outboxService.replay(replayEmailInput);
+  }
+}
@@ -0,0 +1,255 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Connection, Repository } from 'typeorm';
+
+import { OutboxService } from './outbox.service';
+import { OutboxMessage, OutboxStatus } from './entities';
+import { CLOCK, CONFIG_OPTIONS } from '../common/common.constants';
+import { MAIL_TRANSPORT, OUTBOX_MAX_ATTEMPTS } from './mail.constants';
+import { MemoryTransport } from './transports';
+import { paginate } from '../common/common.pagination';
+import { openBody, sealBody } from './outbox.crypto';
+
+jest.mock('../common/common.pagination', () => ({ paginate: jest.fn() }));
+
+const mockRepository = () => ({
+  create: jest.fn((message) => message),
+  save: jest.fn((message) => message),
+  update: jest.fn(),
+  delete: jest.fn(),
+  createQueryBuilder: jest.fn(),
+});
+
+const mockQueryBuilder = () => ({
+  setLock: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  orderBy: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  getMany: jest.fn(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+const now = new Date('2021-09-01T12:00:00Z');
+const secret = 'secret';
+
+const pendingMessage = (attempts = 0) => ({
+  id: 1,
+  to: 'to@test.com',
+  subject: 'Subject',
+  html: sealBody(secret, '<p>Hi</p>'),
+  text: sealBody(secret, 'Hi'),
+  status: OutboxStatus.Pending,
+  attempts,
+  nextAttemptAt: now,
+});
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+  let messagesRepository: MockRepository<OutboxMessage>;
+  let transport: MemoryTransport;
+  let query: ReturnType<typeof mockQueryBuilder>;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        OutboxService,
+        {
+          provide: getRepositoryToken(OutboxMessage),
+          useValue: mockRepository(),
+        },
+        {
+          provide: CONFIG_OPTIONS,
+          useValue: {
+            fromEmail: 'from@test.com',
+            outboxSecret: secret,
+            transport: { type: 'memory' },
+          },
+        },
+        {
+          provide: MAIL_TRANSPORT,
+          useValue: new MemoryTransport(),
+        },
+        {
+          provide: CLOCK,
+          useValue: { now: () => now },
+        },
+        {
+          provide: Connection,
+          useFactory: (messages) => ({
+            transaction: jest.fn((work) =>
+              work({ getRepository: () => messages }),
+            ),
+          }),
+          inject: [getRepositoryToken(OutboxMessage)],
+        },
+      ],
+    }).compile();
+
+    service = module.get(OutboxService);
+    messagesRepository = module.get(getRepositoryToken(OutboxMessage));
+    transport = module.get(MAIL_TRANSPORT);
+    query = mockQueryBuilder();
+    messagesRepository.createQueryBuilder.mockReturnValue(query);
+  });
+
+  afterEach(() => jest.clearAllMocks());
+
+  describe('enqueue', () => {
+    const email = { subject: 'Subject', html: '<p>Hi</p>', text: 'Hi' };
+
+    it('should store the email as due now', async () => {
+      await service.enqueue('to@test.com', email);
+
+      expect(messagesRepository.save).toHaveBeenCalledWith({
+        to: 'to@test.com',
+        subject: 'Subject',
+        html: expect.any(String),
+        text: expect.any(String),
+        nextAttemptAt: now,
+      });
+    });
+
+    it('should encrypt the bodies', async () => {
+      const { html, text } = await service.enqueue('to@test.com', {
+        ...email,
+        text: 'Your code is 123456',
+      });
+
+      expect(html).not.toContain('<p>Hi</p>');
+      expect(text).not.toContain('123456');
+      expect(openBody(secret, text)).toEqual('Your code is 123456');
+      expect(() => openBody('other', text)).toThrow();
+    });
+
+    it('should store the email through the given transaction', async () => {
+      const transactionRepository = mockRepository();
+      const manager = { getRepository: jest.fn(() => transactionRepository) };
+      await service.enqueue('to@test.com', email, manager as never);
+
+      expect(manager.getRepository).toHaveBeenCalledWith(OutboxMessage);
+      expect(transactionRepository.save).toHaveBeenCalled();
+      expect(messagesRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deliverDue', () => {
+    it('should claim due messages while skipping locked ones', async () => {
+      query.getMany.mockResolvedValue([pendingMessage()]);
+      await service.deliverDue();
+
+      expect(query.setLock).toHaveBeenCalledWith('pessimistic_partial_write');
+      expect(query.andWhere).toHaveBeenCalledWith(
+        'message.nextAttemptAt <= :now',
+        { now },
+      );
+      expect(messagesRepository.update).toHaveBeenNthCalledWith(1, [1], {
+        nextAttemptAt: new Date('2021-09-01T12:02:00Z'),
+      });
+    });
+
+    it('should send the messages and delete them', async () => {
+      query.getMany.mockResolvedValue([pendingMessage()]);
+      const sent = await service.deliverDue();
+
+      expect(transport.messages).toEqual([
+        {
+          from: 'Nuber Eats <from@test.com>',
+          to: 'to@test.com',
+          subject: 'Subject',
+          html: '<p>Hi</p>',
+          text: 'Hi',
+        },
+      ]);
+      expect(messagesRepository.delete).toHaveBeenCalledWith(1);
+      expect(sent).toEqual(1);
+    });
+
+    it('should do nothing when no message is due', async () => {
+      query.getMany.mockResolvedValue([]);
+      const sent = await service.deliverDue();
+
+      expect(messagesRepository.update).not.toHaveBeenCalled();
+      expect(sent).toEqual(0);
+    });
+
+    it('should retry failed messages with exponential backoff', async () => {
+      query.getMany.mockResolvedValue([pendingMessage(2)]);
+      jest
+        .spyOn(transport, 'send')
+        .mockRejectedValue(new Error('Mailgun is down'));
+      const sent = await service.deliverDue();
+
+      expect(messagesRepository.update).toHaveBeenLastCalledWith(1, {
+        attempts: 3,
+        lastError: 'Mailgun is down',
+        nextAttemptAt: new Date('2021-09-01T12:02:00Z'),
+      });
+      expect(sent).toEqual(0);
+    });
+
+    it('should dead-letter a message after the last attempt', async () => {
+      query.getMany.mockResolvedValue([
+        pendingMessage(OUTBOX_MAX_ATTEMPTS - 1),
+      ]);
+      jest
+        .spyOn(transport, 'send')
+        .mockRejectedValue(new Error('Mailgun is down'));
+      await service.deliverDue();
+
+      expect(messagesRepository.update).toHaveBeenLastCalledWith(1, {
+        attempts: OUTBOX_MAX_ATTEMPTS,
+        lastError: 'Mailgun is down',
+        status: OutboxStatus.DeadLettered,
+      });
+    });
+  });
+
+  describe('getDeadLettered', () => {
+    it('should page through dead-lettered messages', async () => {
+      const connection = {
+        edges: [],
+        pageInfo: { hasNextPage: false },
+        totalCount: 0,
+      };
+      (paginate as jest.Mock).mockResolvedValue(connection);
+      const result = await service.getDeadLettered({ first: 20 });
+
+      expect(query.where).toHaveBeenCalledWith('message.status = :status', {
+        status: OutboxStatus.DeadLettered,
+      });
+      expect(result).toEqual({ ok: true, ...connection });
+    });
+
+    it('should fail on exception', async () => {
+      (paginate as jest.Mock).mockRejectedValue(new Error());
+      const result = await service.getDeadLettered({ first: 20 });
+
+      expect(result).toEqual({ ok: false, error: 'Could not load emails.' });
+    });
+  });
+
+  describe('replay', () => {
+    it('should queue a dead-lettered message again', async () => {
+      messagesRepository.update.mockResolvedValue({ affected: 1 });
+      const result = await service.replay({ id: 1 });
+
+      expect(messagesRepository.update).toHaveBeenCalledWith(
+        { id: 1, status: OutboxStatus.DeadLettered },
+        { status: OutboxStatus.Pending, attempts: 0, nextAttemptAt: now },
+      );
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail if the message is not dead-lettered', async () => {
+      messagesRepository.update.mockResolvedValue({ affected: 0 });
+      const result = await service.replay({ id: 1 });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Dead-lettered email not found.',
+      });
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Connection, EntityManager, Repository } from 'typeorm';
+
+import { CLOCK, CONFIG_OPTIONS } from '../common/common.constants';
+import { Clock } from '../common/common.clock';
+import { paginate } from '../common/common.pagination';
+import { OutboxMessage, OutboxStatus } from './entities';
+import {
+  MailModuleOptions,
+  MailTransport,
+  RenderedEmail,
+} from './mail.interfaces';
+import {
+  MAIL_TRANSPORT,
+  OUTBOX_BASE_DELAY_SECONDS,
+  OUTBOX_BATCH_SIZE,
+  OUTBOX_CLAIM_SECONDS,
+  OUTBOX_MAX_ATTEMPTS,
+} from './mail.constants';
+import {
+  DeadLetteredEmailsInput,
+  DeadLetteredEmailsOutput,
+  ReplayEmailInput,
+  ReplayEmailOutput,
+} from './dtos';
+import { openBody, sealBody } from './outbox.crypto';
+
+/**
+ * Emails are stored first and delivered later by `deliverDue`, so a failing
+ * mail provider never loses a message. Failed deliveries are retried with
+ * exponential backoff until `OUTBOX_MAX_ATTEMPTS`, then dead-lettered.
+ * Sent messages are deleted rather than kept.
+ */
+@Injectable()
+export class OutboxService {
+  constructor(
+    @InjectRepository(OutboxMessage)
+    private readonly messages: Repository<OutboxMessage>,
+    @Inject(CONFIG_OPTIONS) private readonly options: MailModuleOptions,
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    @Inject(CLOCK) private readonly clock: Clock,
+    private readonly connection: Connection,
+  ) {}
+
+  /** Queues an email. Pass the `manager` of a transaction to commit it together with other changes. */
+  async enqueue(
+    to: string,
+    { subject, html, text }: RenderedEmail,
+    manager?: EntityManager,
+  ): Promise<OutboxMessage> {
+    const messages = manager
+      ? manager.getRepository(OutboxMessage)
+      : this.messages;
+
+    return messages.save(
+      messages.create({
+        to,
+        subject,
+        html: sealBody(this.options.outboxSecret, html),
+        text: sealBody(this.options.outboxSecret, text),
+        nextAttemptAt: this.clock.now(),
+      }),
+    );
+  }
+
+  /** Delivers the messages that are due and returns how many were sent. */
+  async deliverDue(): Promise<number> {
+    const now = this.clock.now();
+    const due = await this.claimDue(now);
+    let sent = 0;
+
+    for (const message of due) {
+      if (await this.deliver(message, now)) {
+        sent += 1;
+      }
+    }
+
+    return sent;
+  }
+
+  async getDeadLettered(
+    input: DeadLetteredEmailsInput,
+  ): Promise<DeadLetteredEmailsOutput> {
+    try {
+      const connection = await paginate(
+        this.messages
+          .createQueryBuilder('message')
+          .where('message.status = :status', {
+            status: OutboxStatus.DeadLettered,
+          }),
+        input,
+      );
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load emails.' };
+    }
+  }
+
+  /** Puts a dead-lettered message back in the queue with a fresh set of attempts. */
+  async replay({ id }: ReplayEmailInput): Promise<ReplayEmailOutput> {
+    try {
+      const { affected } = await this.messages.update(
+        { id, status: OutboxStatus.DeadLettered },
+        {
+          status: OutboxStatus.Pending,
+          attempts: 0,
+          nextAttemptAt: this.clock.now(),
+        },
+      );
+      if (!affected) {
+        return { ok: false, error: 'Dead-lettered email not found.' };
+      }
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not replay email.' };
+    }
+  }
+
+  // Skips rows other workers have locked and pushes the picked ones into the
+  // future, so each message is only attempted by one worker at a time.
+  private claimDue(now: Date): Promise<OutboxMessage[]> {
+    return this.connection.transaction(async (manager) => {
+      const messages = manager.getRepository(OutboxMessage);
+      const due = await messages
+        .createQueryBuilder('message')
+        .setLock('pessimistic_partial_write')
+        .where('message.status = :status', { status: OutboxStatus.Pending })
+        .andWhere('message.nextAttemptAt <= :now', { now })
+        .orderBy('message.nextAttemptAt', 'ASC')
+        .limit(OUTBOX_BATCH_SIZE)
+        .getMany();
+
+      if (due.length) {
+        await messages.update(
+          due.map(({ id }) => id),
+          {
+            nextAttemptAt: new Date(
+              now.getTime() + OUTBOX_CLAIM_SECONDS * 1000,
+            ),
+          },
+        );
+      }
+
+      return due;
+    });
+  }
+
+  private async deliver(message: OutboxMessage, now: Date): Promise<boolean> {
+    const { id, to, subject, html, text } = message;
+    const attempts = message.attempts + 1;
+
+    try {
+      await this.transport.send({
+        from: `Nuber Eats <${this.options.fromEmail}>`,
+        to,
+        subject,
+        html: openBody(this.options.outboxSecret, html),
+        text: openBody(this.options.outboxSecret, text),
+      });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      await this.messages.update(
+        id,
+        attempts >= OUTBOX_MAX_ATTEMPTS
+          ? { attempts, lastError, status: OutboxStatus.DeadLettered }
+          : {
+              attempts,
+              lastError,
+              nextAttemptAt: new Date(now.getTime() + backoffMs(attempts)),
+            },
+      );
+
+      return false;
+    }
+
+    await this.messages.delete(id);
+
+    return true;
+  }
+}
+
+const backoffMs = (attempts: number): number =>
+  OUTBOX_BASE_DELAY_SECONDS * 1000 * 2 ** (attempts - 1);
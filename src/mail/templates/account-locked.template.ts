@@ -0,0 +1,42 @@
+import { Locale } from '../../common/common.locale';
+import { AccountLockedEmail, EmailTemplate } from '../mail.interfaces';
+import { formatDateTime, layout, markup } from './template.utils';
+
+export const accountLockedTemplate: EmailTemplate<AccountLockedEmail> = {
+  [Locale.En]: ({ email, lockedUntil }) => {
+    const subject = 'Your Account Was Locked';
+    const until = formatDateTime(lockedUntil);
+
+    return {
+      subject,
+      html: layout(
+        Locale.En,
+        subject,
+        markup`<p>Hi ${email},</p>
+<p>After too many failed login attempts your account is locked until ${until}.</p>
+<p>If this wasn't you, consider changing your password.</p>`,
+      ),
+      text:
+        `Hi ${email},\n\nAfter too many failed login attempts your account is locked until ${until}.\n\n` +
+        "If this wasn't you, consider changing your password.\n",
+    };
+  },
+  [Locale.Uk]: ({ email, lockedUntil }) => {
+    const subject = 'Ваш обліковий запис заблоковано';
+    const until = formatDateTime(lockedUntil);
+
+    return {
+      subject,
+      html: layout(
+        Locale.Uk,
+        subject,
+        markup`<p>Вітаємо, ${email}!</p>
+<p>Через забагато невдалих спроб входу ваш обліковий запис заблоковано до ${until}.</p>
+<p>Якщо це були не ви, радимо змінити пароль.</p>`,
+      ),
+      text:
+        `Вітаємо, ${email}!\n\nЧерез забагато невдалих спроб входу ваш обліковий запис заблоковано до ${until}.\n\n` +
+        'Якщо це були не ви, радимо змінити пароль.\n',
+    };
+  },
+};
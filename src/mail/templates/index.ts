@@ -0,0 +1,16 @@
+import { DEFAULT_LOCALE, Locale } from '../../common/common.locale';
+import { EmailTemplate, RenderedEmail } from '../mail.interfaces';
+
+export * from './account-locked.template';
+export * from './new-order.template';
+export * from './order-receipt.template';
+export * from './order-update.template';
+export * from './password-reset.template';
+export * from './verification.template';
+
+/** Renders the template in `locale`, falling back to English. */
+export const renderEmail = <T>(
+  template: EmailTemplate<T>,
+  vars: T,
+  locale: Locale = DEFAULT_LOCALE,
+): RenderedEmail => (template[locale] ?? template[DEFAULT_LOCALE])(vars);
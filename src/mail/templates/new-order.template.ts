@@ -0,0 +1,72 @@
+import { Locale } from '../../common/common.locale';
+import { EmailTemplate, NewOrderEmail } from '../mail.interfaces';
+import {
+  discountHtml,
+  discountText,
+  itemsHtml,
+  itemsText,
+} from './order-lines.utils';
+import { formatPrice, layout, markup } from './template.utils';
+
+export const newOrderTemplate: EmailTemplate<NewOrderEmail> = {
+  [Locale.En]: ({
+    orderId,
+    restaurantName,
+    address,
+    items,
+    discount,
+    total,
+  }) => {
+    const subject = `New Order #${orderId} for ${restaurantName}`;
+
+    return {
+      subject,
+      html: layout(
+        Locale.En,
+        subject,
+        markup`<p>${restaurantName} has a new order waiting to be accepted.</p>
+${itemsHtml(items)}
+${discountHtml('Discount', discount)}<p><strong>Total: ${formatPrice(
+          total,
+        )}</strong></p>
+<p>Delivering to: ${address}</p>`,
+      ),
+      text:
+        `${restaurantName} has a new order waiting to be accepted.\n\n${itemsText(
+          items,
+        )}\n\n` +
+        discountText('Discount', discount) +
+        `Total: ${formatPrice(total)}\nDelivering to: ${address}\n`,
+    };
+  },
+  [Locale.Uk]: ({
+    orderId,
+    restaurantName,
+    address,
+    items,
+    discount,
+    total,
+  }) => {
+    const subject = `Нове замовлення №${orderId} для ${restaurantName}`;
+
+    return {
+      subject,
+      html: layout(
+        Locale.Uk,
+        subject,
+        markup`<p>${restaurantName} отримав нове замовлення, яке чекає на підтвердження.</p>
+${itemsHtml(items)}
+${discountHtml('Знижка', discount)}<p><strong>Разом: ${formatPrice(
+          total,
+        )}</strong></p>
+<p>Адреса доставки: ${address}</p>`,
+      ),
+      text:
+        `${restaurantName} отримав нове замовлення, яке чекає на підтвердження.\n\n${itemsText(
+          items,
+        )}\n\n` +
+        discountText('Знижка', discount) +
+        `Разом: ${formatPrice(total)}\nАдреса доставки: ${address}\n`,
+    };
+  },
+};
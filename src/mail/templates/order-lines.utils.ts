@@ -0,0 +1,44 @@
+import { OrderReceiptLine } from '../mail.interfaces';
+import { formatPrice, markup, SafeHtml } from './template.utils';
+
+const lineTotal = ({ price, quantity }: OrderReceiptLine): number =>
+  price * quantity;
+
+const optionLabel = ({
+  name,
+  choice,
+  extra,
+}: OrderReceiptLine['options'][number]): string =>
+  `${name}: ${choice}${extra ? ` (+${formatPrice(extra)})` : ''}`;
+
+/** The order's lines as a table, one row per item with its options below. */
+export const itemsHtml = (items: OrderReceiptLine[]): SafeHtml => markup`<table>
+${items.map(
+  (item) => markup`<tr>
+<td>${item.quantity} × ${item.name}${(item.options ?? []).map(
+    (option) => markup`<br><small>${optionLabel(option)}</small>`,
+  )}</td>
+<td style="text-align: right;">${formatPrice(lineTotal(item))}</td>
+</tr>
+`,
+)}</table>`;
+
+export const itemsText = (items: OrderReceiptLine[]): string =>
+  items
+    .map((item) =>
+      [
+        `${item.quantity} × ${item.name} — ${formatPrice(lineTotal(item))}`,
+        ...(item.options ?? []).map((option) => `    ${optionLabel(option)}`),
+      ].join('\n'),
+    )
+    .join('\n');
+
+/** The coupon's discount above the total, or nothing without one. */
+export const discountHtml = (label: string, discount = 0): SafeHtml =>
+  discount > 0
+    ? markup`<p>${label}: −${formatPrice(discount)}</p>
+`
+    : markup``;
+
+export const discountText = (label: string, discount = 0): string =>
+  discount > 0 ? `${label}: −${formatPrice(discount)}\n` : '';
@@ -0,0 +1,72 @@
+import { Locale } from '../../common/common.locale';
+import { EmailTemplate, OrderReceiptEmail } from '../mail.interfaces';
+import {
+  discountHtml,
+  discountText,
+  itemsHtml,
+  itemsText,
+} from './order-lines.utils';
+import { formatPrice, layout, markup } from './template.utils';
+
+export const orderReceiptTemplate: EmailTemplate<OrderReceiptEmail> = {
+  [Locale.En]: ({
+    orderId,
+    restaurantName,
+    address,
+    items,
+    discount,
+    total,
+  }) => {
+    const subject = `Your Order #${orderId}`;
+
+    return {
+      subject,
+      html: layout(
+        Locale.En,
+        subject,
+        markup`<p>Thanks for ordering from ${restaurantName}!</p>
+${itemsHtml(items)}
+${discountHtml('Discount', discount)}<p><strong>Total: ${formatPrice(
+          total,
+        )}</strong></p>
+<p>Delivering to: ${address}</p>`,
+      ),
+      text:
+        `Thanks for ordering from ${restaurantName}!\n\n${itemsText(
+          items,
+        )}\n\n` +
+        discountText('Discount', discount) +
+        `Total: ${formatPrice(total)}\nDelivering to: ${address}\n`,
+    };
+  },
+  [Locale.Uk]: ({
+    orderId,
+    restaurantName,
+    address,
+    items,
+    discount,
+    total,
+  }) => {
+    const subject = `Ваше замовлення №${orderId}`;
+
+    return {
+      subject,
+      html: layout(
+        Locale.Uk,
+        subject,
+        markup`<p>Дякуємо за замовлення в ${restaurantName}!</p>
+${itemsHtml(items)}
+${discountHtml('Знижка', discount)}<p><strong>Разом: ${formatPrice(
+          total,
+        )}</strong></p>
+<p>Адреса доставки: ${address}</p>`,
+      ),
+      text:
+        `Дякуємо за замовлення в ${restaurantName}!\n\n${itemsText(
+          items,
+        )}\n\n` +
+        discountText('Знижка', discount) +
+        `Разом: ${formatPrice(total)}\nАдреса доставки: ${address}\n`,
+    };
+  },
+};
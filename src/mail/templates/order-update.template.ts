@@ -0,0 +1,61 @@
+import { Locale } from '../../common/common.locale';
+import { EmailTemplate, OrderUpdateEmail } from '../mail.interfaces';
+import { layout, markup } from './template.utils';
+
+export const orderPickedUpTemplate: EmailTemplate<OrderUpdateEmail> = {
+  [Locale.En]: ({ orderId, restaurantName }) => {
+    const subject = `Your Order #${orderId} Is on Its Way`;
+
+    return {
+      subject,
+      html: layout(
+        Locale.En,
+        subject,
+        markup`<p>Your driver has picked up your order from ${restaurantName} and is heading to you.</p>`,
+      ),
+      text: `Your driver has picked up your order from ${restaurantName} and is heading to you.\n`,
+    };
+  },
+  [Locale.Uk]: ({ orderId, restaurantName }) => {
+    const subject = `Ваше замовлення №${orderId} вже в дорозі`;
+
+    return {
+      subject,
+      html: layout(
+        Locale.Uk,
+        subject,
+        markup`<p>Кур'єр забрав ваше замовлення з ${restaurantName} і прямує до вас.</p>`,
+      ),
+      text: `Кур'єр забрав ваше замовлення з ${restaurantName} і прямує до вас.\n`,
+    };
+  },
+};
+
+export const orderDeliveredTemplate: EmailTemplate<OrderUpdateEmail> = {
+  [Locale.En]: ({ orderId, restaurantName }) => {
+    const subject = `Your Order #${orderId} Was Delivered`;
+
+    return {
+      subject,
+      html: layout(
+        Locale.En,
+        subject,
+        markup`<p>Your order from ${restaurantName} was delivered. Enjoy your meal!</p>`,
+      ),
+      text: `Your order from ${restaurantName} was delivered. Enjoy your meal!\n`,
+    };
+  },
+  [Locale.Uk]: ({ orderId, restaurantName }) => {
+    const subject = `Ваше замовлення №${orderId} доставлено`;
+
+    return {
+      subject,
+      html: layout(
+        Locale.Uk,
+        subject,
+        markup`<p>Ваше замовлення з ${restaurantName} доставлено. Смачного!</p>`,
+      ),
+      text: `Ваше замовлення з ${restaurantName} доставлено. Смачного!\n`,
+    };
+  },
+};
@@ -0,0 +1,42 @@
+import { Locale } from '../../common/common.locale';
+import { EmailTemplate, PasswordResetEmail } from '../mail.interfaces';
+import { layout, markup } from './template.utils';
+
+export const passwordResetTemplate: EmailTemplate<PasswordResetEmail> = {
+  [Locale.En]: ({ email, token }) => {
+    const subject = 'Reset Your Password';
+
+    return {
+      subject,
+      html: layout(
+        Locale.En,
+        subject,
+        markup`<p>Hi ${email},</p>
+<p>We received a request to reset your password. Use this token to set a new one:</p>
+<p><strong>${token}</strong></p>
+<p>If you didn't ask for this, you can ignore this email.</p>`,
+      ),
+      text:
+        `Hi ${email},\n\nWe received a request to reset your password. Use this token to set a new one:\n\n${token}\n\n` +
+        "If you didn't ask for this, you can ignore this email.\n",
+    };
+  },
+  [Locale.Uk]: ({ email, token }) => {
+    const subject = 'Скидання пароля';
+
+    return {
+      subject,
+      html: layout(
+        Locale.Uk,
+        subject,
+        markup`<p>Вітаємо, ${email}!</p>
+<p>Ми отримали запит на скидання пароля. Використайте цей токен, щоб встановити новий:</p>
+<p><strong>${token}</strong></p>
+<p>Якщо ви не надсилали запит, просто проігноруйте цей лист.</p>`,
+      ),
+      text:
+        `Вітаємо, ${email}!\n\nМи отримали запит на скидання пароля. Використайте цей токен, щоб встановити новий:\n\n${token}\n\n` +
+        'Якщо ви не надсилали запит, просто проігноруйте цей лист.\n',
+    };
+  },
+};
@@ -0,0 +1,62 @@
+import { Locale } from '../../common/common.locale';
+
+/** Markup that is already escaped and is interpolated as is. */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+const toHtml = (value: unknown): string => {
+  if (value instanceof SafeHtml) {
+    return value.value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toHtml).join('');
+  }
+
+  return escapeHtml(String(value ?? ''));
+};
+
+/** Tagged template that escapes every interpolated value except `SafeHtml`. */
+export const markup = (
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): SafeHtml =>
+  new SafeHtml(
+    strings.reduce((out, string, i) => out + toHtml(values[i - 1]) + string),
+  );
+
+export const layout = (
+  locale: Locale,
+  title: string,
+  content: SafeHtml,
+): string =>
+  markup`<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+</head>
+<body style="font-family: sans-serif; color: #222;">
+${content}
+<p style="color: #888;">Nuber Eats</p>
+</body>
+</html>
+`.value;
+
+export const formatPrice = (value: number): string => `$${value.toFixed(2)}`;
+
+/** Formats as `YYYY-MM-DD HH:mm UTC`, the same for every server time zone. */
+export const formatDateTime = (date: Date): string =>
+  `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
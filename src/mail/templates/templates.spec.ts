@@ -0,0 +1,152 @@
+import { Locale } from '../../common/common.locale';
+import {
+  accountLockedTemplate,
+  newOrderTemplate,
+  orderDeliveredTemplate,
+  orderPickedUpTemplate,
+  orderReceiptTemplate,
+  passwordResetTemplate,
+  renderEmail,
+  verificationTemplate,
+} from '.';
+import { escapeHtml, markup } from './template.utils';
+
+const receipt = {
+  orderId: 7,
+  restaurantName: 'Pizza & Pasta',
+  address: 'Main St 1',
+  items: [
+    {
+      name: 'Margherita',
+      quantity: 2,
+      price: 12.5,
+      options: [
+        { name: 'Size', choice: 'L', extra: 2.5 },
+        { name: 'Crust', choice: 'Thin', extra: 0 },
+      ],
+    },
+    { name: 'Lemonade', quantity: 1, price: 3 },
+  ],
+  total: 28,
+};
+
+describe('email templates', () => {
+  describe.each(Object.values(Locale))('%s', (locale) => {
+    it('should render the verification email', () => {
+      expect(
+        renderEmail(
+          verificationTemplate,
+          { email: 'user@test.com', code: 'code' },
+          locale,
+        ),
+      ).toMatchSnapshot();
+    });
+
+    it('should render the password reset email', () => {
+      expect(
+        renderEmail(
+          passwordResetTemplate,
+          { email: 'user@test.com', token: 'token' },
+          locale,
+        ),
+      ).toMatchSnapshot();
+    });
+
+    it('should render the account locked email', () => {
+      expect(
+        renderEmail(
+          accountLockedTemplate,
+          {
+            email: 'user@test.com',
+            lockedUntil: new Date('2021-09-01T12:15:00Z'),
+          },
+          locale,
+        ),
+      ).toMatchSnapshot();
+    });
+
+    it('should render the order receipt email', () => {
+      expect(
+        renderEmail(orderReceiptTemplate, receipt, locale),
+      ).toMatchSnapshot();
+    });
+
+    it('should render the new order email', () => {
+      expect(renderEmail(newOrderTemplate, receipt, locale)).toMatchSnapshot();
+    });
+
+    it('should render the order picked up email', () => {
+      expect(
+        renderEmail(
+          orderPickedUpTemplate,
+          { orderId: 7, restaurantName: 'Pizza & Pasta' },
+          locale,
+        ),
+      ).toMatchSnapshot();
+    });
+
+    it('should render the order delivered email', () => {
+      expect(
+        renderEmail(
+          orderDeliveredTemplate,
+          { orderId: 7, restaurantName: 'Pizza & Pasta' },
+          locale,
+        ),
+      ).toMatchSnapshot();
+    });
+  });
+
+  it('should fall back to English', () => {
+    const template = { [Locale.En]: verificationTemplate[Locale.En] };
+
+    expect(
+      renderEmail(template, { email: 'user@test.com', code: 'code' }, Locale.Uk)
+        .subject,
+    ).toEqual('Verify Your Email');
+  });
+
+  it('should escape values in HTML but not in text', () => {
+    const { html: body, text } = renderEmail(orderReceiptTemplate, {
+      ...receipt,
+      restaurantName: '<script>alert("x")</script>',
+    });
+
+    expect(body).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+    expect(body).not.toContain('<script>');
+    expect(text).toContain('<script>alert("x")</script>');
+  });
+
+  it('should show the discount only when there is one', () => {
+    const discounted = renderEmail(orderReceiptTemplate, {
+      ...receipt,
+      discount: 5.6,
+      total: 22.4,
+    });
+
+    expect(discounted.html).toContain('<p>Discount: −$5.60</p>');
+    expect(discounted.text).toContain('Discount: −$5.60\nTotal: $22.40\n');
+    expect(renderEmail(orderReceiptTemplate, receipt).text).not.toContain(
+      'Discount',
+    );
+  });
+
+  describe('markup', () => {
+    it('should escape interpolated values', () => {
+      expect(markup`<p>${`Tom & "Jerry's"`}</p>`.value).toEqual(
+        '<p>Tom &amp; &quot;Jerry&#39;s&quot;</p>',
+      );
+    });
+
+    it('should keep nested markup and join arrays', () => {
+      const items = ['a', '<b>'].map((item) => markup`<li>${item}</li>`);
+
+      expect(markup`<ul>${items}</ul>`.value).toEqual(
+        '<ul><li>a</li><li>&lt;b&gt;</li></ul>',
+      );
+    });
+  });
+
+  it('should escape every special character', () => {
+    expect(escapeHtml(`<>&"'`)).toEqual('&lt;&gt;&amp;&quot;&#39;');
+  });
+});
@@ -0,0 +1,36 @@
+import { Locale } from '../../common/common.locale';
+import { EmailTemplate, VerificationEmail } from '../mail.interfaces';
+import { layout, markup } from './template.utils';
+
+export const verificationTemplate: EmailTemplate<VerificationEmail> = {
+  [Locale.En]: ({ email, code }) => {
+    const subject = 'Verify Your Email';
+
+    return {
+      subject,
+      html: layout(
+        Locale.En,
+        subject,
+        markup`<p>Hi ${email},</p>
+<p>Use this code to verify your email address:</p>
+<p><strong>${code}</strong></p>`,
+      ),
+      text: `Hi ${email},\n\nUse this code to verify your email address:\n\n${code}\n`,
+    };
+  },
+  [Locale.Uk]: ({ email, code }) => {
+    const subject = 'Підтвердіть електронну пошту';
+
+    return {
+      subject,
+      html: layout(
+        Locale.Uk,
+        subject,
+        markup`<p>Вітаємо, ${email}!</p>
+<p>Використайте цей код, щоб підтвердити адресу електронної пошти:</p>
+<p><strong>${code}</strong></p>`,
+      ),
+      text: `Вітаємо, ${email}!\n\nВикористайте цей код, щоб підтвердити адресу електронної пошти:\n\n${code}\n`,
+    };
+  },
+};
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FileTransport } from './file.transport';
+
+describe('FileTransport', () => {
+  const message = {
+    from: 'Nuber Eats <from@test.com>',
+    to: 'to@test.com',
+    subject: 'Subject',
+    html: '<p>Your code: <strong>code</strong></p>',
+    text: 'Your code: code',
+  };
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'mail-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write the message as JSON', async () => {
+    await new FileTransport({ type: 'file', directory, format: 'json' }).send(
+      message,
+    );
+    const [file] = await fs.readdir(directory);
+
+    expect(file).toMatch(/\.json$/);
+    expect(
+      JSON.parse(await fs.readFile(join(directory, file), 'utf8')),
+    ).toEqual(message);
+  });
+
+  it('should write the message as EML', async () => {
+    await new FileTransport({ type: 'file', directory, format: 'eml' }).send(
+      message,
+    );
+    const [file] = await fs.readdir(directory);
+    const eml = await fs.readFile(join(directory, file), 'utf8');
+
+    expect(file).toMatch(/\.eml$/);
+    expect(eml).toContain('To: to@test.com\r\n');
+    expect(eml).toContain(
+      `Subject: =?utf-8?B?${Buffer.from('Subject').toString('base64')}?=\r\n`,
+    );
+    expect(eml).toContain(
+      'Content-Type: text/plain; charset=utf-8\r\n\r\nYour code: code\r\n',
+    );
+    expect(eml).toContain(
+      'Content-Type: text/html; charset=utf-8\r\n\r\n<p>Your code: <strong>code</strong></p>\r\n',
+    );
+  });
+
+  it('should create a missing directory', async () => {
+    const nested = join(directory, 'outbox');
+    await new FileTransport({
+      type: 'file',
+      directory: nested,
+      format: 'json',
+    }).send(message);
+
+    expect(await fs.readdir(nested)).toHaveLength(1);
+  });
+});
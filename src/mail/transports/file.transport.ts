@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+
+import {
+  FileTransportOptions,
+  MailMessage,
+  MailTransport,
+} from '../mail.interfaces';
+
+/** Writes every message to its own file instead of sending it. */
+export class FileTransport implements MailTransport {
+  constructor(private readonly options: FileTransportOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { directory, format } = this.options;
+    const id = randomBytes(4).toString('hex');
+    const fileName = `${Date.now()}-${id}.${format}`;
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(
+      join(directory, fileName),
+      format === 'eml' ? toEml(message, id) : toJson(message),
+    );
+  }
+}
+
+const toJson = (message: MailMessage): string =>
+  JSON.stringify(message, null, 2);
+
+// A multipart/alternative message, so mail clients can show either part.
+const toEml = (
+  { from, to, subject, html, text }: MailMessage,
+  id: string,
+): string => {
+  const boundary = `nuber-eats-${id}`;
+
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: =?utf-8?B?${Buffer.from(subject).toString('base64')}?=`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    html,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+};
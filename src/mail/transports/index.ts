@@ -0,0 +1,25 @@
+import { MailTransport, MailTransportOptions } from '../mail.interfaces';
+import { FileTransport } from './file.transport';
+import { MailgunTransport } from './mailgun.transport';
+import { MemoryTransport } from './memory.transport';
+import { SmtpTransport } from './smtp.transport';
+
+export * from './file.transport';
+export * from './mailgun.transport';
+export * from './memory.transport';
+export * from './smtp.transport';
+
+export const createMailTransport = (
+  options: MailTransportOptions,
+): MailTransport => {
+  switch (options.type) {
+    case 'mailgun':
+      return new MailgunTransport(options);
+    case 'smtp':
+      return new SmtpTransport(options);
+    case 'file':
+      return new FileTransport(options);
+    case 'memory':
+      return new MemoryTransport();
+  }
+};
@@ -0,0 +1,57 @@
+import got from 'got';
+import * as FormData from 'form-data';
+
+import { MailgunTransport } from './mailgun.transport';
+
+jest.mock('got');
+jest.mock('form-data');
+
+describe('MailgunTransport', () => {
+  const transport = new MailgunTransport({
+    type: 'mailgun',
+    apiKey: 'test-apiKey',
+    domain: 'test-domain',
+  });
+  const message = {
+    from: 'Nuber Eats <from@test.com>',
+    to: 'to@test.com',
+    subject: 'Subject',
+    html: '<p>Your code: <strong>code</strong></p>',
+    text: 'Your code: code',
+  };
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('should post the message to the Mailgun API', async () => {
+    await transport.send(message);
+
+    expect(FormData.prototype.append).toHaveBeenCalledWith('to', 'to@test.com');
+    expect(FormData.prototype.append).toHaveBeenCalledWith(
+      'html',
+      message.html,
+    );
+    expect(FormData.prototype.append).toHaveBeenCalledWith(
+      'text',
+      message.text,
+    );
+    expect(got.post).toHaveBeenCalledWith(
+      'https://api.mailgun.net/v3/test-domain/messages',
+      {
+        headers: {
+          Authorization: `Basic ${Buffer.from('api:test-apiKey').toString(
+            'base64',
+          )}`,
+        },
+        body: expect.any(FormData),
+      },
+    );
+  });
+
+  it('should throw if Mailgun rejects the message', async () => {
+    jest.spyOn(got, 'post').mockImplementation(() => {
+      throw new Error();
+    });
+
+    await expect(transport.send(message)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,34 @@
+import got from 'got';
+import * as FormData from 'form-data';
+
+import {
+  MailgunTransportOptions,
+  MailMessage,
+  MailTransport,
+} from '../mail.interfaces';
+
+/** Sends through the Mailgun HTTP API. */
+export class MailgunTransport implements MailTransport {
+  constructor(private readonly options: MailgunTransportOptions) {}
+
+  async send({ from, to, subject, html, text }: MailMessage): Promise<void> {
+    const form = new FormData();
+    form.append('from', from);
+    form.append('to', to);
+    form.append('subject', subject);
+    form.append('html', html);
+    form.append('text', text);
+
+    await got.post(
+      `https://api.mailgun.net/v3/${this.options.domain}/messages`,
+      {
+        headers: {
+          Authorization: `Basic ${Buffer.from(
+            `api:${this.options.apiKey}`,
+          ).toString('base64')}`,
+        },
+        body: form,
+      },
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { MailMessage, MailTransport } from '../mail.interfaces';
+
+/** Keeps sent messages in memory so tests and local runs can inspect them. */
+export class MemoryTransport implements MailTransport {
+  readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,24 @@
+import { createTransport, Transporter } from 'nodemailer';
+
+import {
+  MailMessage,
+  MailTransport,
+  SmtpTransportOptions,
+} from '../mail.interfaces';
+
+export class SmtpTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor({ host, port, secure, user, password }: SmtpTransportOptions) {
+    this.transporter = createTransport({
+      host,
+      port,
+      secure,
+      auth: user ? { user, pass: password } : undefined,
+    });
+  }
+
+  async send({ from, to, subject, html, text }: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from, to, subject, html, text });
+  }
+}
@@ -1,11 +1,21 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
+import { json } from 'express';
+import { RawBodyRequest } from './payments/payments.interfaces';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
 
   app.useGlobalPipes(new ValidationPipe());
+  // Payment webhooks are signed over the exact bytes that were sent.
+  app.use(
+    json({
+      verify: (req: RawBodyRequest, _, buffer: Buffer) => {
+        req.rawBody = buffer;
+      },
+    }),
+  );
 
   await app.listen(5000);
 }
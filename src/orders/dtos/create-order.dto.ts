@@ -0,0 +1,90 @@
+import {
+  Field,
+  Float,
+  InputType,
+  Int,
+  ObjectType,
+  PickType,
+} from '@nestjs/graphql';
+import {
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { OrderItemOption } from '../entities';
+
+@InputType()
+export class OrderItemOptionInput extends PickType(OrderItemOption, [
+  'name',
+  'choice',
+]) {}
+
+@InputType()
+export class CreateOrderItemInput {
+  @Field(() => Number)
+  dishId: number;
+
+  @Field(() => Int, { defaultValue: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @Field(() => [OrderItemOptionInput], { nullable: true })
+  @ValidateNested({ each: true })
+  @Type(() => OrderItemOptionInput)
+  @IsOptional()
+  options?: OrderItemOptionInput[];
+}
+
+@InputType()
+export class CreateOrderInput {
+  @Field(() => Number)
+  restaurantId: number;
+
+  @Field(() => String)
+  @IsString()
+  address: string;
+
+  // Optional precise location, e.g. from the device. Otherwise the address
+  // is geocoded.
+  @Field(() => Float, { nullable: true })
+  @IsLatitude()
+  @IsOptional()
+  lat?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsLongitude()
+  @IsOptional()
+  lng?: number;
+
+  @Field(() => [CreateOrderItemInput])
+  @ValidateNested({ each: true })
+  @Type(() => CreateOrderItemInput)
+  items: CreateOrderItemInput[];
+
+  @Field(() => String, { nullable: true })
+  @IsString()
+  @IsOptional()
+  couponCode?: string;
+}
+
+@ObjectType()
+export class CreateOrderOutput extends CoreOutput {
+  @Field(() => Number, { nullable: true })
+  orderId?: number;
+
+  @Field(() => Number, { nullable: true })
+  subtotal?: number;
+
+  @Field(() => Number, { nullable: true })
+  discount?: number;
+
+  @Field(() => Number, { nullable: true })
+  total?: number;
+}
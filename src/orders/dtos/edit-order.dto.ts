@@ -0,0 +1,26 @@
+import {
+  Field,
+  InputType,
+  ObjectType,
+  PickType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Order } from '../entities';
+
+export enum EditOrderErrorCode {
+  OrderNotFound = 'OrderNotFound',
+  NotAllowed = 'NotAllowed',
+  InvalidTransition = 'InvalidTransition',
+}
+
+registerEnumType(EditOrderErrorCode, { name: 'EditOrderErrorCode' });
+
+@InputType()
+export class EditOrderInput extends PickType(Order, ['id', 'status']) {}
+
+@ObjectType()
+export class EditOrderOutput extends CoreOutput {
+  @Field(() => EditOrderErrorCode, { nullable: true })
+  code?: EditOrderErrorCode;
+}
@@ -0,0 +1,15 @@
+import { ArgsType, Field, ObjectType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Order } from '../entities';
+
+@ArgsType()
+export class GetOrderInput {
+  @Field(() => Number)
+  id: number;
+}
+
+@ObjectType()
+export class GetOrderOutput extends CoreOutput {
+  @Field(() => Order, { nullable: true })
+  order?: Order;
+}
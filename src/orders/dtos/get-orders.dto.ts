@@ -0,0 +1,12 @@
+import { ArgsType, Field, ObjectType } from '@nestjs/graphql';
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { Order, OrderStatus } from '../entities';
+
+@ArgsType()
+export class GetOrdersInput extends ConnectionArgs {
+  @Field(() => OrderStatus, { nullable: true })
+  status?: OrderStatus;
+}
+
+@ObjectType()
+export class GetOrdersOutput extends Paginated(Order) {}
@@ -0,0 +1,7 @@
+export * from './create-order.dto';
+export * from './edit-order.dto';
+export * from './get-order.dto';
+export * from './get-orders.dto';
+export * from './order-updates.dto';
+export * from './reorder.dto';
+export * from './take-order.dto';
@@ -0,0 +1,7 @@
+import { ArgsType, Field } from '@nestjs/graphql';
+
+@ArgsType()
+export class OrderUpdatesInput {
+  @Field(() => Number)
+  orderId: number;
+}
@@ -0,0 +1,50 @@
+import {
+  Field,
+  InputType,
+  ObjectType,
+  PickType,
+  registerEnumType,
+} from '@nestjs/graphql';
+import { Order } from '../entities';
+import { CreateOrderOutput } from './create-order.dto';
+
+export enum ReorderIssueReason {
+  DishUnavailable = 'DishUnavailable',
+  ChoiceUnavailable = 'ChoiceUnavailable',
+  PriceChanged = 'PriceChanged',
+}
+
+registerEnumType(ReorderIssueReason, { name: 'ReorderIssueReason' });
+
+/** Something about a past item that couldn't be ordered as it was. */
+@ObjectType()
+export class ReorderIssue {
+  @Field(() => String)
+  name: string;
+
+  @Field(() => ReorderIssueReason)
+  reason: ReorderIssueReason;
+
+  // The option and choice that were dropped, for ChoiceUnavailable.
+  @Field(() => String, { nullable: true })
+  option?: string;
+
+  @Field(() => String, { nullable: true })
+  choice?: string;
+
+  // Unit prices, for PriceChanged.
+  @Field(() => Number, { nullable: true })
+  oldPrice?: number;
+
+  @Field(() => Number, { nullable: true })
+  newPrice?: number;
+}
+
+@InputType()
+export class ReorderInput extends PickType(Order, ['id']) {}
+
+@ObjectType()
+export class ReorderOutput extends CreateOrderOutput {
+  @Field(() => [ReorderIssue], { nullable: true })
+  issues?: ReorderIssue[];
+}
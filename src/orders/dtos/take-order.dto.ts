@@ -0,0 +1,9 @@
+import { InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Order } from '../entities';
+
+@InputType()
+export class TakeOrderInput extends PickType(Order, ['id']) {}
+
+@ObjectType()
+export class TakeOrderOutput extends CoreOutput {}
@@ -0,0 +1,4 @@
+export * from './order.entity';
+export * from './order-item.entity';
+export * from './order-status-change.entity';
+export * from './order-status.enum';
@@ -0,0 +1,53 @@
+import { Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { Column, Entity, ManyToOne, RelationId } from 'typeorm';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { Dish } from '../../restaurants/entities';
+import { Order } from './order.entity';
+
+@InputType('OrderItemOptionInputType', { isAbstract: true })
+@ObjectType()
+export class OrderItemOption {
+  @Field(() => String)
+  name: string;
+
+  @Field(() => String)
+  choice: string;
+
+  @Field(() => Number)
+  extra: number;
+}
+
+@InputType('OrderItemInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+export class OrderItem extends CoreEntity {
+  @Field(() => Order)
+  @ManyToOne(() => Order, (order) => order.items, { onDelete: 'CASCADE' })
+  order: Order;
+
+  @Field(() => Dish, { nullable: true })
+  @ManyToOne(() => Dish, { nullable: true, onDelete: 'SET NULL' })
+  dish?: Dish;
+
+  @RelationId((orderItem: OrderItem) => orderItem.dish)
+  dishId?: number;
+
+  // Name, price and choices are copied from the menu when the order is
+  // placed, so editing or deleting the dish later doesn't change the order.
+  @Field(() => String)
+  @Column()
+  name: string;
+
+  @Field(() => Number)
+  @Column({ type: 'double precision' })
+  price: number;
+
+  @Field(() => Int)
+  @Column({ default: 1 })
+  quantity: number;
+
+  @Field(() => [OrderItemOption], { nullable: true })
+  @Column({ type: 'json', nullable: true })
+  options?: OrderItemOption[];
+}
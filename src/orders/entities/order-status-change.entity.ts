@@ -0,0 +1,30 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { Column, Entity, ManyToOne, RelationId } from 'typeorm';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Order } from './order.entity';
+import { OrderStatus } from './order-status.enum';
+
+@ObjectType()
+@Entity()
+export class OrderStatusChange extends CoreEntity {
+  @ManyToOne(() => Order, (order) => order.statusChanges, {
+    onDelete: 'CASCADE',
+  })
+  order: Order;
+
+  @Field(() => OrderStatus, { nullable: true })
+  @Column({ type: 'enum', enum: OrderStatus, nullable: true })
+  from?: OrderStatus;
+
+  @Field(() => OrderStatus)
+  @Column({ type: 'enum', enum: OrderStatus })
+  to: OrderStatus;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  changedBy?: User;
+
+  @RelationId((change: OrderStatusChange) => change.changedBy)
+  changedById?: number;
+}
@@ -0,0 +1,12 @@
+import { registerEnumType } from '@nestjs/graphql';
+
+export enum OrderStatus {
+  Pending = 'Pending',
+  Cooking = 'Cooking',
+  Cooked = 'Cooked',
+  PickedUp = 'PickedUp',
+  Delivered = 'Delivered',
+  Cancelled = 'Cancelled',
+}
+
+registerEnumType(OrderStatus, { name: 'OrderStatus' });
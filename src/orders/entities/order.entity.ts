@@ -0,0 +1,96 @@
+import { Field, Float, InputType, ObjectType } from '@nestjs/graphql';
+import { Column, Entity, ManyToOne, OneToMany, RelationId } from 'typeorm';
+import {
+  IsEnum,
+  IsLatitude,
+  IsLongitude,
+  IsNumber,
+  IsString,
+} from 'class-validator';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Restaurant } from '../../restaurants/entities';
+import { Coupon } from '../../coupons/entities';
+import { OrderItem } from './order-item.entity';
+import { OrderStatus } from './order-status.enum';
+import { OrderStatusChange } from './order-status-change.entity';
+
+@InputType('OrderInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+export class Order extends CoreEntity {
+  @Field(() => User, { nullable: true })
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  customer?: User;
+
+  @RelationId((order: Order) => order.customer)
+  customerId?: number;
+
+  @Field(() => User, { nullable: true })
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  driver?: User;
+
+  @RelationId((order: Order) => order.driver)
+  driverId?: number;
+
+  @Field(() => Restaurant, { nullable: true })
+  @ManyToOne(() => Restaurant, { nullable: true, onDelete: 'SET NULL' })
+  restaurant?: Restaurant;
+
+  @RelationId((order: Order) => order.restaurant)
+  restaurantId?: number;
+
+  @Field(() => [OrderItem])
+  @OneToMany(() => OrderItem, (orderItem) => orderItem.order, {
+    cascade: ['insert'],
+  })
+  items: OrderItem[];
+
+  // Menu prices of the items; `total` is what the customer pays after the
+  // coupon's `discount`.
+  @Field(() => Float)
+  @Column({ type: 'double precision', default: 0 })
+  @IsNumber()
+  subtotal: number;
+
+  @Field(() => Float)
+  @Column({ type: 'double precision', default: 0 })
+  @IsNumber()
+  discount: number;
+
+  @Field(() => Number)
+  @Column({ type: 'double precision' })
+  @IsNumber()
+  total: number;
+
+  @Field(() => Coupon, { nullable: true })
+  @ManyToOne(() => Coupon, { nullable: true, onDelete: 'SET NULL' })
+  coupon?: Coupon;
+
+  @Field(() => String)
+  @Column()
+  @IsString()
+  address: string;
+
+  @Field(() => Float)
+  @Column({ type: 'double precision' })
+  @IsLatitude()
+  lat: number;
+
+  @Field(() => Float)
+  @Column({ type: 'double precision' })
+  @IsLongitude()
+  lng: number;
+
+  @Field(() => OrderStatus)
+  @Column({ type: 'enum', enum: OrderStatus, default: OrderStatus.Pending })
+  @IsEnum(OrderStatus)
+  status: OrderStatus;
+
+  @Field(() => [OrderStatusChange], { nullable: true })
+  @OneToMany(() => OrderStatusChange, (change) => change.order, {
+    cascade: ['insert'],
+  })
+  statusChanges: OrderStatusChange[];
+}
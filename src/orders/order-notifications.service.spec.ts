@@ -0,0 +1,296 @@
+import { Logger } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { OrderNotificationsService } from './order-notifications.service';
+import { Order, OrderStatus } from './entities';
+import { NEW_ORDER_UPDATE, NEW_PENDING_ORDER } from './orders.constants';
+import { PUB_SUB } from '../common/common.constants';
+import { Locale } from '../common/common.locale';
+import { MailService } from '../mail/mail.service';
+
+const mockRepository = () => ({
+  findOne: jest.fn(),
+});
+
+const mockPubSub = () => ({
+  subscribe: jest.fn(),
+  unsubscribe: jest.fn(),
+});
+
+const mockMailService = () => ({
+  sendOrderReceiptEmail: jest.fn(),
+  sendNewOrderEmail: jest.fn(),
+  sendOrderPickedUpEmail: jest.fn(),
+  sendOrderDeliveredEmail: jest.fn(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+describe('OrderNotificationsService', () => {
+  let service: OrderNotificationsService;
+  let ordersRepository: MockRepository<Order>;
+  let pubSub: ReturnType<typeof mockPubSub>;
+  let mailService: ReturnType<typeof mockMailService>;
+
+  const customer = {
+    email: 'client@test.com',
+    locale: Locale.Uk,
+    orderReceiptEmails: true,
+    orderStatusEmails: true,
+  };
+  const owner = {
+    email: 'owner@test.com',
+    locale: Locale.En,
+    newOrderEmails: true,
+  };
+  const order = {
+    id: 7,
+    customer,
+    restaurant: { name: 'Pizza', owner },
+    address: 'Main St 1',
+    items: [
+      {
+        id: 1,
+        name: 'Margherita',
+        quantity: 2,
+        price: 12,
+        options: [{ name: 'Size', choice: 'L', extra: 2 }],
+      },
+    ],
+    total: 24,
+  };
+  const receipt = {
+    orderId: 7,
+    restaurantName: 'Pizza',
+    address: 'Main St 1',
+    items: [
+      {
+        name: 'Margherita',
+        quantity: 2,
+        price: 12,
+        options: [{ name: 'Size', choice: 'L', extra: 2 }],
+      },
+    ],
+    total: 24,
+  };
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        OrderNotificationsService,
+        {
+          provide: getRepositoryToken(Order),
+          useValue: mockRepository(),
+        },
+        {
+          provide: PUB_SUB,
+          useValue: mockPubSub(),
+        },
+        {
+          provide: MailService,
+          useValue: mockMailService(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderNotificationsService>(OrderNotificationsService);
+    ordersRepository = module.get(getRepositoryToken(Order));
+    pubSub = module.get(PUB_SUB);
+    mailService = module.get(MailService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  describe('onModuleInit', () => {
+    it('should listen for new and updated orders', async () => {
+      await service.onModuleInit();
+
+      expect(pubSub.subscribe).toHaveBeenCalledWith(
+        NEW_PENDING_ORDER,
+        expect.any(Function),
+      );
+      expect(pubSub.subscribe).toHaveBeenCalledWith(
+        NEW_ORDER_UPDATE,
+        expect.any(Function),
+      );
+    });
+
+    it('should send emails when an order is placed', async () => {
+      ordersRepository.findOne.mockResolvedValue(order);
+      await service.onModuleInit();
+      const [, onPendingOrder] = pubSub.subscribe.mock.calls.find(
+        ([trigger]) => trigger === NEW_PENDING_ORDER,
+      );
+
+      onPendingOrder({ pendingOrders: { order: { id: 7 }, ownerId: 2 } });
+      await new Promise(process.nextTick);
+
+      expect(ordersRepository.findOne).toHaveBeenCalledWith(7, {
+        relations: ['customer', 'restaurant', 'restaurant.owner', 'items'],
+      });
+      expect(mailService.sendOrderReceiptEmail).toHaveBeenCalled();
+    });
+
+    it('should log emails that could not be sent', async () => {
+      jest.spyOn(Logger.prototype, 'error').mockImplementation();
+      ordersRepository.findOne.mockRejectedValue(new Error('db down'));
+      await service.onModuleInit();
+      const [, onOrderUpdate] = pubSub.subscribe.mock.calls.find(
+        ([trigger]) => trigger === NEW_ORDER_UPDATE,
+      );
+
+      onOrderUpdate({ orderUpdates: { id: 7, status: OrderStatus.PickedUp } });
+      await new Promise(process.nextTick);
+
+      expect(Logger.prototype.error).toHaveBeenCalledWith(
+        'Could not email about order 7.',
+        expect.any(String),
+      );
+    });
+  });
+
+  describe('onModuleDestroy', () => {
+    it('should stop listening', async () => {
+      pubSub.subscribe.mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+      await service.onModuleInit();
+
+      service.onModuleDestroy();
+
+      expect(pubSub.unsubscribe).toHaveBeenCalledWith(1);
+      expect(pubSub.unsubscribe).toHaveBeenCalledWith(2);
+    });
+  });
+
+  describe('orderPlaced', () => {
+    it('should email the receipt to the client and the order to the owner', async () => {
+      ordersRepository.findOne.mockResolvedValue(order);
+
+      await service.orderPlaced(7);
+
+      expect(mailService.sendOrderReceiptEmail).toHaveBeenCalledWith(
+        customer.email,
+        receipt,
+        Locale.Uk,
+      );
+      expect(mailService.sendNewOrderEmail).toHaveBeenCalledWith(
+        owner.email,
+        receipt,
+        Locale.En,
+      );
+    });
+
+    it('should respect notification preferences', async () => {
+      ordersRepository.findOne.mockResolvedValue({
+        ...order,
+        customer: { ...customer, orderReceiptEmails: false },
+        restaurant: {
+          name: 'Pizza',
+          owner: { ...owner, newOrderEmails: false },
+        },
+      });
+
+      await service.orderPlaced(7);
+
+      expect(mailService.sendOrderReceiptEmail).not.toHaveBeenCalled();
+      expect(mailService.sendNewOrderEmail).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing if the restaurant is gone', async () => {
+      ordersRepository.findOne.mockResolvedValue({
+        ...order,
+        restaurant: null,
+      });
+
+      await service.orderPlaced(7);
+
+      expect(mailService.sendOrderReceiptEmail).not.toHaveBeenCalled();
+      expect(mailService.sendNewOrderEmail).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing if the order is gone', async () => {
+      ordersRepository.findOne.mockResolvedValue(undefined);
+
+      await service.orderPlaced(7);
+
+      expect(mailService.sendOrderReceiptEmail).not.toHaveBeenCalled();
+      expect(mailService.sendNewOrderEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('orderUpdated', () => {
+    const update = { orderId: 7, restaurantName: 'Pizza' };
+
+    it('should tell the client the order was picked up', async () => {
+      ordersRepository.findOne.mockResolvedValue(order);
+
+      await service.orderUpdated({
+        id: 7,
+        status: OrderStatus.PickedUp,
+      } as Order);
+
+      expect(mailService.sendOrderPickedUpEmail).toHaveBeenCalledWith(
+        customer.email,
+        update,
+        Locale.Uk,
+      );
+    });
+
+    it('should tell the client the order was delivered', async () => {
+      ordersRepository.findOne.mockResolvedValue(order);
+
+      await service.orderUpdated({
+        id: 7,
+        status: OrderStatus.Delivered,
+      } as Order);
+
+      expect(mailService.sendOrderDeliveredEmail).toHaveBeenCalledWith(
+        customer.email,
+        update,
+        Locale.Uk,
+      );
+    });
+
+    it('should ignore other statuses', async () => {
+      await service.orderUpdated({
+        id: 7,
+        status: OrderStatus.Cooking,
+      } as Order);
+
+      expect(ordersRepository.findOne).not.toHaveBeenCalled();
+      expect(mailService.sendOrderPickedUpEmail).not.toHaveBeenCalled();
+      expect(mailService.sendOrderDeliveredEmail).not.toHaveBeenCalled();
+    });
+
+    it('should respect notification preferences', async () => {
+      ordersRepository.findOne.mockResolvedValue({
+        ...order,
+        customer: { ...customer, orderStatusEmails: false },
+      });
+
+      await service.orderUpdated({
+        id: 7,
+        status: OrderStatus.Delivered,
+      } as Order);
+
+      expect(mailService.sendOrderDeliveredEmail).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing if the restaurant is gone', async () => {
+      ordersRepository.findOne.mockResolvedValue({
+        ...order,
+        restaurant: null,
+      });
+
+      await service.orderUpdated({
+        id: 7,
+        status: OrderStatus.Delivered,
+      } as Order);
+
+      expect(mailService.sendOrderDeliveredEmail).not.toHaveBeenCalled();
+    });
+  });
+});
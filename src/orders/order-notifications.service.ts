@@ -0,0 +1,154 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PubSub } from 'graphql-subscriptions';
+
+import { Order, OrderStatus } from './entities';
+import { NEW_ORDER_UPDATE, NEW_PENDING_ORDER } from './orders.constants';
+import { PUB_SUB } from '../common/common.constants';
+import { MailService } from '../mail/mail.service';
+import { OrderReceiptEmail } from '../mail/mail.interfaces';
+
+/**
+ * Emails the parties to an order as it moves through its lifecycle. Listens
+ * to the same events as the order subscriptions, so whatever changes an
+ * order's status doesn't have to know about emails.
+ */
+@Injectable()
+export class OrderNotificationsService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(OrderNotificationsService.name);
+  private subscriptionIds: number[] = [];
+
+  constructor(
+    @InjectRepository(Order) private readonly orders: Repository<Order>,
+    @Inject(PUB_SUB) private readonly pubSub: PubSub,
+    private readonly mailService: MailService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    this.subscriptionIds = await Promise.all([
+      this.pubSub.subscribe(
+        NEW_PENDING_ORDER,
+        ({ pendingOrders }: { pendingOrders: { order: Order } }) => {
+          this.orderPlaced(pendingOrders.order.id).catch((error) =>
+            this.logger.error(
+              `Could not email about new order ${pendingOrders.order.id}.`,
+              error.stack,
+            ),
+          );
+        },
+      ),
+      this.pubSub.subscribe(
+        NEW_ORDER_UPDATE,
+        ({ orderUpdates }: { orderUpdates: Order }) => {
+          this.orderUpdated(orderUpdates).catch((error) =>
+            this.logger.error(
+              `Could not email about order ${orderUpdates.id}.`,
+              error.stack,
+            ),
+          );
+        },
+      ),
+    ]);
+  }
+
+  onModuleDestroy(): void {
+    this.subscriptionIds.forEach((id) => this.pubSub.unsubscribe(id));
+  }
+
+  /**
+   * Sends the client a receipt and tells the owner about the new order.
+   * Orders whose restaurant has been deleted get no emails.
+   */
+  async orderPlaced(orderId: number): Promise<void> {
+    const order = await this.findOrder(orderId);
+    if (!order?.restaurant) {
+      return;
+    }
+
+    const { customer, restaurant } = order;
+    const receipt = this.receipt(order);
+
+    if (customer?.orderReceiptEmails) {
+      await this.mailService.sendOrderReceiptEmail(
+        customer.email,
+        receipt,
+        customer.locale,
+      );
+    }
+
+    const owner = restaurant.owner;
+    if (owner?.newOrderEmails) {
+      await this.mailService.sendNewOrderEmail(
+        owner.email,
+        receipt,
+        owner.locale,
+      );
+    }
+  }
+
+  /** Tells the client when their order is picked up and delivered. */
+  async orderUpdated({ id, status }: Order): Promise<void> {
+    if (status !== OrderStatus.PickedUp && status !== OrderStatus.Delivered) {
+      return;
+    }
+
+    const order = await this.findOrder(id);
+    const customer = order?.customer;
+    if (!order?.restaurant || !customer?.orderStatusEmails) {
+      return;
+    }
+
+    const update = { orderId: order.id, restaurantName: order.restaurant.name };
+    if (status === OrderStatus.PickedUp) {
+      await this.mailService.sendOrderPickedUpEmail(
+        customer.email,
+        update,
+        customer.locale,
+      );
+    } else {
+      await this.mailService.sendOrderDeliveredEmail(
+        customer.email,
+        update,
+        customer.locale,
+      );
+    }
+  }
+
+  private findOrder(id: number): Promise<Order | undefined> {
+    return this.orders.findOne(id, {
+      relations: ['customer', 'restaurant', 'restaurant.owner', 'items'],
+    });
+  }
+
+  private receipt({
+    id,
+    restaurant,
+    address,
+    items,
+    discount,
+    total,
+  }: Order): OrderReceiptEmail {
+    return {
+      orderId: id,
+      restaurantName: restaurant.name,
+      address,
+      items: items.map(({ name, quantity, price, options }) => ({
+        name,
+        quantity,
+        price,
+        options,
+      })),
+      discount,
+      total,
+    };
+  }
+}
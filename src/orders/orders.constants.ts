@@ -0,0 +1,36 @@
+export const NEW_PENDING_ORDER = 'NEW_PENDING_ORDER';
+export const NEW_COOKED_ORDER = 'NEW_COOKED_ORDER';
+export const NEW_ORDER_UPDATE = 'NEW_ORDER_UPDATE';
+
+import { OrderStatus } from './entities';
+import { UserRole } from '../users/entities';
+
+interface OrderStatusTransition {
+  from: OrderStatus[];
+  role: UserRole;
+}
+
+export const ORDER_STATUS_TRANSITIONS: Partial<
+  Record<OrderStatus, OrderStatusTransition>
+> = {
+  [OrderStatus.Cooking]: {
+    from: [OrderStatus.Pending],
+    role: UserRole.Owner,
+  },
+  [OrderStatus.Cooked]: {
+    from: [OrderStatus.Cooking],
+    role: UserRole.Owner,
+  },
+  [OrderStatus.PickedUp]: {
+    from: [OrderStatus.Cooked],
+    role: UserRole.Delivery,
+  },
+  [OrderStatus.Delivered]: {
+    from: [OrderStatus.PickedUp],
+    role: UserRole.Delivery,
+  },
+  [OrderStatus.Cancelled]: {
+    from: [OrderStatus.Pending],
+    role: UserRole.Client,
+  },
+};
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { OrdersResolver } from './orders.resolver';
+import { OrdersService } from './orders.service';
+import { OrderNotificationsService } from './order-notifications.service';
+import { Order, OrderItem, OrderStatusChange } from './entities';
+import { Dish, Restaurant } from '../restaurants/entities';
+import { CouponsModule } from '../coupons/coupons.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Order,
+      OrderItem,
+      OrderStatusChange,
+      Restaurant,
+      Dish,
+    ]),
+    CouponsModule,
+  ],
+  providers: [OrdersResolver, OrdersService, OrderNotificationsService],
+  exports: [OrdersService],
+})
+export class OrdersModule {}
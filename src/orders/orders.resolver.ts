@@ -0,0 +1,136 @@
+import { Inject } from '@nestjs/common';
+import { Args, Mutation, Query, Resolver, Subscription } from '@nestjs/graphql';
+import { PubSub, withFilter } from 'graphql-subscriptions';
+
+import { Order } from './entities';
+import { OrdersService } from './orders.service';
+import {
+  CreateOrderInput,
+  CreateOrderOutput,
+  EditOrderInput,
+  EditOrderOutput,
+  GetOrderInput,
+  GetOrderOutput,
+  GetOrdersInput,
+  GetOrdersOutput,
+  OrderUpdatesInput,
+  ReorderInput,
+  ReorderOutput,
+  TakeOrderInput,
+  TakeOrderOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { AuthUser } from '../auth/auth-user.decorator';
+import { Role } from '../auth/role.decorator';
+import { PUB_SUB } from '../common/common.constants';
+import {
+  NEW_COOKED_ORDER,
+  NEW_ORDER_UPDATE,
+  NEW_PENDING_ORDER,
+} from './orders.constants';
+
+interface PendingOrderPayload {
+  pendingOrders: { order: Order; ownerId: number };
+}
+
+interface OrderUpdatePayload {
+  orderUpdates: Order;
+}
+
+interface SubscriptionContext {
+  user: User;
+}
+
+@Resolver(() => Order)
+export class OrdersResolver {
+  constructor(
+    private readonly ordersService: OrdersService,
+    @Inject(PUB_SUB) private readonly pubSub: PubSub,
+  ) {}
+
+  @Mutation(() => CreateOrderOutput)
+  @Role('Client')
+  createOrder(
+    @AuthUser() customer: User,
+    @Args('input') createOrderInput: CreateOrderInput,
+  ): Promise<CreateOrderOutput> {
+    return this.ordersService.createOrder(customer, createOrderInput);
+  }
+
+  @Mutation(() => ReorderOutput)
+  @Role('Client')
+  reorder(
+    @AuthUser() customer: User,
+    @Args('input') reorderInput: ReorderInput,
+  ): Promise<ReorderOutput> {
+    return this.ordersService.reorder(customer, reorderInput);
+  }
+
+  @Mutation(() => EditOrderOutput)
+  @Role('Any')
+  editOrder(
+    @AuthUser() user: User,
+    @Args('input') editOrderInput: EditOrderInput,
+  ): Promise<EditOrderOutput> {
+    return this.ordersService.editOrder(user, editOrderInput);
+  }
+
+  @Mutation(() => TakeOrderOutput)
+  @Role('Delivery')
+  takeOrder(
+    @AuthUser() driver: User,
+    @Args('input') takeOrderInput: TakeOrderInput,
+  ): Promise<TakeOrderOutput> {
+    return this.ordersService.takeOrder(driver, takeOrderInput);
+  }
+
+  @Query(() => GetOrdersOutput)
+  @Role('Any')
+  getOrders(
+    @AuthUser() user: User,
+    @Args() getOrdersInput: GetOrdersInput,
+  ): Promise<GetOrdersOutput> {
+    return this.ordersService.getOrders(user, getOrdersInput);
+  }
+
+  @Query(() => GetOrderOutput)
+  @Role('Any')
+  getOrder(
+    @AuthUser() user: User,
+    @Args() getOrderInput: GetOrderInput,
+  ): Promise<GetOrderOutput> {
+    return this.ordersService.getOrder(user, getOrderInput);
+  }
+
+  @Subscription(() => Order, {
+    filter: (
+      { pendingOrders: { ownerId } }: PendingOrderPayload,
+      _,
+      { user }: SubscriptionContext,
+    ) => ownerId === user.id,
+    resolve: ({ pendingOrders: { order } }: PendingOrderPayload) => order,
+  })
+  @Role('Owner')
+  pendingOrders() {
+    return this.pubSub.asyncIterator(NEW_PENDING_ORDER);
+  }
+
+  @Subscription(() => Order)
+  @Role('Delivery')
+  cookedOrders() {
+    return this.pubSub.asyncIterator(NEW_COOKED_ORDER);
+  }
+
+  @Subscription(() => Order)
+  @Role('Any')
+  orderUpdates(@AuthUser() user: User, @Args() { orderId }: OrderUpdatesInput) {
+    return withFilter(
+      () => this.pubSub.asyncIterator(NEW_ORDER_UPDATE),
+      ({ orderUpdates: order }: OrderUpdatePayload) =>
+        order.id === orderId &&
+        [order.customerId, order.driverId, order.restaurant?.ownerId].includes(
+          user.id,
+        ),
+    )();
+  }
+}
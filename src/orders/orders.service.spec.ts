@@ -0,0 +1,912 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Connection, Repository } from 'typeorm';
+
+import { Order, OrderItem, OrderStatus, OrderStatusChange } from './entities';
+import { OrdersService } from './orders.service';
+import { User, UserRole } from '../users/entities';
+import { Dish, Restaurant } from '../restaurants/entities';
+import { GEOCODER, PUB_SUB } from '../common/common.constants';
+import {
+  NEW_COOKED_ORDER,
+  NEW_ORDER_UPDATE,
+  NEW_PENDING_ORDER,
+} from './orders.constants';
+import { paginate } from '../common/common.pagination';
+import { CouponsService } from '../coupons/coupons.service';
+
+jest.mock('../common/common.pagination', () => ({
+  paginate: jest.fn(),
+}));
+
+const mockRepository = () => ({
+  find: jest.fn(),
+  findOne: jest.fn(),
+  findByIds: jest.fn(),
+  save: jest.fn(),
+  update: jest.fn(),
+  create: jest.fn((entity) => entity),
+  createQueryBuilder: jest.fn(),
+});
+
+const mockQueryBuilder = () => ({
+  leftJoinAndSelect: jest.fn().mockReturnThis(),
+  update: jest.fn().mockReturnThis(),
+  set: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  execute: jest.fn(),
+});
+
+const mockPubSub = () => ({
+  publish: jest.fn(),
+});
+
+const mockGeocoder = () => ({
+  geocode: jest.fn(),
+});
+
+const mockCouponsService = () => ({
+  redeemCoupon: jest.fn(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+describe('OrdersService', () => {
+  let ordersRepository: MockRepository<Order>;
+  let statusChangesRepository: MockRepository<OrderStatusChange>;
+  let restaurantsRepository: MockRepository<Restaurant>;
+  let dishesRepository: MockRepository<Dish>;
+  let service: OrdersService;
+  let pubSub: ReturnType<typeof mockPubSub>;
+  let geocoder: ReturnType<typeof mockGeocoder>;
+  let couponsService: ReturnType<typeof mockCouponsService>;
+  let connection: { transaction: jest.Mock };
+
+  const customer = { id: 1, role: UserRole.Client, verified: true } as User;
+  const restaurant = {
+    id: 2,
+    ownerId: 3,
+    lat: 50.45,
+    lng: 30.52,
+    deliveryRadiusKm: 5,
+  };
+  const destination = { address: 'Home', lat: 50.46, lng: 30.53 };
+  const dish = {
+    id: 4,
+    name: 'Pizza',
+    price: 10,
+    restaurantId: restaurant.id,
+    options: [
+      {
+        name: 'Size',
+        choices: [
+          { name: 'M', extra: 0 },
+          { name: 'L', extra: 3 },
+        ],
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        {
+          provide: getRepositoryToken(Order),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(OrderItem),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(OrderStatusChange),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Restaurant),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Dish),
+          useValue: mockRepository(),
+        },
+        {
+          provide: PUB_SUB,
+          useValue: mockPubSub(),
+        },
+        {
+          provide: GEOCODER,
+          useValue: mockGeocoder(),
+        },
+        {
+          provide: CouponsService,
+          useValue: mockCouponsService(),
+        },
+        {
+          provide: Connection,
+          useFactory: (orders: MockRepository<Order>) => ({
+            transaction: jest.fn((work) =>
+              work({ getRepository: () => orders }),
+            ),
+          }),
+          inject: [getRepositoryToken(Order)],
+        },
+      ],
+    }).compile();
+
+    ordersRepository = module.get(getRepositoryToken(Order));
+    statusChangesRepository = module.get(getRepositoryToken(OrderStatusChange));
+    restaurantsRepository = module.get(getRepositoryToken(Restaurant));
+    dishesRepository = module.get(getRepositoryToken(Dish));
+    service = module.get<OrdersService>(OrdersService);
+    pubSub = module.get(PUB_SUB);
+    geocoder = module.get(GEOCODER);
+    couponsService = module.get(CouponsService);
+    connection = module.get(Connection);
+  });
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  describe('createOrder', () => {
+    it('should fail if the customer is not verified', async () => {
+      const result = await service.createOrder(
+        { ...customer, verified: false } as User,
+        { restaurantId: 2, items: [], ...destination },
+      );
+
+      expect(restaurantsRepository.findOne).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Verify your email before placing an order.',
+      });
+    });
+
+    it('should fail if restaurant does not exist', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [],
+        ...destination,
+      });
+
+      expect(result).toEqual({ ok: false, error: 'Restaurant not found.' });
+    });
+
+    it('should fail if the address cannot be located', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      geocoder.geocode.mockResolvedValue(undefined);
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [{ dishId: 4, quantity: 1 }],
+        address: 'Nowhere',
+      });
+
+      expect(geocoder.geocode).toHaveBeenCalledWith('Nowhere');
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not locate this address.',
+      });
+    });
+
+    it('should fail outside the delivery area', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      geocoder.geocode.mockResolvedValue({ lat: 50.6, lng: 30.52 });
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [{ dishId: 4, quantity: 1 }],
+        address: 'Far away',
+      });
+
+      expect(ordersRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Address is outside the delivery area.',
+      });
+    });
+
+    it('should locate a restaurant without coordinates from its address', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({
+        ...restaurant,
+        address: 'Main St 1',
+        lat: null,
+        lng: null,
+      });
+      geocoder.geocode.mockResolvedValue({ lat: 50.6, lng: 30.52 });
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [{ dishId: 4, quantity: 1 }],
+        ...destination,
+      });
+
+      expect(geocoder.geocode).toHaveBeenCalledWith('Main St 1');
+      expect(restaurantsRepository.update).toHaveBeenCalledWith(2, {
+        lat: 50.6,
+        lng: 30.52,
+      });
+      expect(result).toEqual({
+        ok: false,
+        error: 'Address is outside the delivery area.',
+      });
+    });
+
+    it('should not limit the area of a restaurant that cannot be located', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({
+        ...restaurant,
+        address: 'Nowhere',
+        lat: null,
+        lng: null,
+      });
+      geocoder.geocode.mockResolvedValue(undefined);
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+      ordersRepository.save.mockResolvedValue({
+        id: 5,
+        discount: 0,
+        total: 10,
+      });
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [{ dishId: 4, quantity: 1 }],
+        ...destination,
+      });
+
+      expect(restaurantsRepository.update).not.toHaveBeenCalled();
+      expect(result.ok).toBe(true);
+    });
+
+    it('should fail if a dish is from another restaurant', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      dishesRepository.findByIds.mockResolvedValue([
+        { ...dish, restaurantId: 42 },
+      ]);
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [{ dishId: 4, quantity: 1 }],
+        ...destination,
+      });
+
+      expect(ordersRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: false, error: 'Dish not found.' });
+    });
+
+    it('should fail on an unknown choice', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [
+          { dishId: 4, quantity: 1, options: [{ name: 'Size', choice: 'XL' }] },
+        ],
+        ...destination,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Choice "XL" not found for Size.',
+      });
+    });
+
+    it('should compute the total from the menu', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+      ordersRepository.save.mockResolvedValue({
+        id: 5,
+        discount: 0,
+        total: 36,
+      });
+
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [
+          { dishId: 4, quantity: 2, options: [{ name: 'Size', choice: 'L' }] },
+          { dishId: 4, quantity: 1 },
+        ],
+        ...destination,
+      });
+
+      expect(geocoder.geocode).not.toHaveBeenCalled();
+      expect(ordersRepository.save).toHaveBeenCalledWith({
+        customer,
+        restaurant,
+        subtotal: 36,
+        discount: 0,
+        total: 36,
+        coupon: undefined,
+        address: destination.address,
+        lat: destination.lat,
+        lng: destination.lng,
+        items: [
+          {
+            dish,
+            name: 'Pizza',
+            price: 13,
+            quantity: 2,
+            options: [{ name: 'Size', choice: 'L', extra: 3 }],
+          },
+          { dish, name: 'Pizza', price: 10, quantity: 1, options: [] },
+        ],
+        statusChanges: [{ to: OrderStatus.Pending, changedBy: customer }],
+      });
+      expect(pubSub.publish).toHaveBeenCalledWith(NEW_PENDING_ORDER, {
+        pendingOrders: {
+          order: { id: 5, discount: 0, total: 36 },
+          ownerId: restaurant.ownerId,
+        },
+      });
+      expect(couponsService.redeemCoupon).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: true,
+        orderId: 5,
+        subtotal: 36,
+        discount: 0,
+        total: 36,
+      });
+    });
+
+    it('should run onPlaced in the order transaction', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+      ordersRepository.save.mockResolvedValue({
+        id: 5,
+        discount: 0,
+        total: 10,
+      });
+      const onPlaced = jest.fn();
+
+      const result = await service.createOrder(
+        customer,
+        {
+          restaurantId: 2,
+          items: [{ dishId: 4, quantity: 1 }],
+          ...destination,
+        },
+        onPlaced,
+      );
+
+      expect(onPlaced).toHaveBeenCalledWith(
+        expect.objectContaining({ getRepository: expect.any(Function) }),
+      );
+      expect(result.ok).toBe(true);
+    });
+
+    it('should not place the order if onPlaced fails', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+      ordersRepository.save.mockResolvedValue({
+        id: 5,
+        discount: 0,
+        total: 10,
+      });
+
+      const result = await service.createOrder(
+        customer,
+        {
+          restaurantId: 2,
+          items: [{ dishId: 4, quantity: 1 }],
+          ...destination,
+        },
+        jest.fn().mockRejectedValue(new Error()),
+      );
+
+      expect(pubSub.publish).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: false, error: 'Could not create order.' });
+    });
+
+    it('should redeem the coupon with the order', async () => {
+      const coupon = { id: 8, code: 'SAVE10' };
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+      couponsService.redeemCoupon.mockResolvedValue({ coupon, discount: 3.6 });
+      ordersRepository.save.mockImplementation(async (order) => ({
+        id: 5,
+        ...order,
+      }));
+
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [
+          { dishId: 4, quantity: 2, options: [{ name: 'Size', choice: 'L' }] },
+          { dishId: 4, quantity: 1 },
+        ],
+        couponCode: 'save10',
+        ...destination,
+      });
+
+      expect(connection.transaction).toHaveBeenCalled();
+      expect(couponsService.redeemCoupon).toHaveBeenCalledWith(
+        expect.anything(),
+        customer,
+        'save10',
+        restaurant.id,
+        36,
+      );
+      expect(ordersRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subtotal: 36,
+          discount: 3.6,
+          total: 32.4,
+          coupon,
+        }),
+      );
+      expect(result).toEqual({
+        ok: true,
+        orderId: 5,
+        subtotal: 36,
+        discount: 3.6,
+        total: 32.4,
+      });
+    });
+
+    it('should not place the order if the coupon is rejected', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+      couponsService.redeemCoupon.mockResolvedValue({
+        error: 'Coupon has expired.',
+      });
+
+      const result = await service.createOrder(customer, {
+        restaurantId: 2,
+        items: [{ dishId: 4, quantity: 1 }],
+        couponCode: 'OLD',
+        ...destination,
+      });
+
+      expect(ordersRepository.save).not.toHaveBeenCalled();
+      expect(pubSub.publish).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: false, error: 'Coupon has expired.' });
+    });
+  });
+
+  describe('reorder', () => {
+    const previous = {
+      id: 9,
+      customerId: customer.id,
+      restaurantId: restaurant.id,
+      ...destination,
+      items: [
+        {
+          dishId: 4,
+          name: 'Pizza',
+          price: 13,
+          quantity: 2,
+          options: [{ name: 'Size', choice: 'L', extra: 3 }],
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      ordersRepository.save.mockImplementation(async (order) => ({
+        id: 10,
+        ...order,
+      }));
+    });
+
+    it('should place the same order again', async () => {
+      ordersRepository.findOne.mockResolvedValue(previous);
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+
+      const result = await service.reorder(customer, { id: 9 });
+
+      expect(ordersRepository.findOne).toHaveBeenCalledWith(9, {
+        relations: ['items'],
+      });
+      expect(ordersRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ total: 26, address: 'Home' }),
+      );
+      expect(result).toEqual({
+        ok: true,
+        orderId: 10,
+        subtotal: 26,
+        discount: 0,
+        total: 26,
+        issues: [],
+      });
+    });
+
+    it('should leave out dishes that are gone', async () => {
+      ordersRepository.findOne.mockResolvedValue({
+        ...previous,
+        items: [
+          ...previous.items,
+          { dishId: null, name: 'Soup', price: 5, quantity: 1 },
+        ],
+      });
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+
+      const result = await service.reorder(customer, { id: 9 });
+
+      expect(dishesRepository.findByIds).toHaveBeenCalledWith([4]);
+      expect(result).toEqual({
+        ok: true,
+        orderId: 10,
+        subtotal: 26,
+        discount: 0,
+        total: 26,
+        issues: [{ name: 'Soup', reason: 'DishUnavailable' }],
+      });
+    });
+
+    it('should drop choices that are gone', async () => {
+      ordersRepository.findOne.mockResolvedValue(previous);
+      dishesRepository.findByIds.mockResolvedValue([
+        { ...dish, options: [{ name: 'Size', choices: [{ name: 'M' }] }] },
+      ]);
+
+      const result = await service.reorder(customer, { id: 9 });
+
+      expect(result).toEqual({
+        ok: true,
+        orderId: 10,
+        subtotal: 20,
+        discount: 0,
+        total: 20,
+        issues: [
+          {
+            name: 'Pizza',
+            reason: 'ChoiceUnavailable',
+            option: 'Size',
+            choice: 'L',
+          },
+        ],
+      });
+    });
+
+    it('should report price changes', async () => {
+      ordersRepository.findOne.mockResolvedValue(previous);
+      dishesRepository.findByIds.mockResolvedValue([{ ...dish, price: 12 }]);
+
+      const result = await service.reorder(customer, { id: 9 });
+
+      expect(result).toEqual({
+        ok: true,
+        orderId: 10,
+        subtotal: 30,
+        discount: 0,
+        total: 30,
+        issues: [
+          { name: 'Pizza', reason: 'PriceChanged', oldPrice: 13, newPrice: 15 },
+        ],
+      });
+    });
+
+    it('should fail if nothing can be ordered', async () => {
+      ordersRepository.findOne.mockResolvedValue(previous);
+      dishesRepository.findByIds.mockResolvedValue([]);
+
+      const result = await service.reorder(customer, { id: 9 });
+
+      expect(ordersRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'None of the items in this order are available anymore.',
+        issues: [{ name: 'Pizza', reason: 'DishUnavailable' }],
+      });
+    });
+
+    it("should fail on someone else's order", async () => {
+      ordersRepository.findOne.mockResolvedValue({
+        ...previous,
+        customerId: 42,
+      });
+      const result = await service.reorder(customer, { id: 9 });
+
+      expect(result).toEqual({ ok: false, error: 'Order not found.' });
+    });
+
+    it('should pass on order errors', async () => {
+      ordersRepository.findOne.mockResolvedValue(previous);
+      dishesRepository.findByIds.mockResolvedValue([dish]);
+      restaurantsRepository.findOne.mockResolvedValue(undefined);
+
+      const result = await service.reorder(customer, { id: 9 });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Restaurant not found.',
+        issues: [],
+      });
+    });
+
+    it('should fail on exception', async () => {
+      ordersRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.reorder(customer, { id: 9 });
+
+      expect(result).toEqual({ ok: false, error: 'Could not reorder.' });
+    });
+  });
+
+  describe('getOrders', () => {
+    const connection = { edges: [], pageInfo: {}, totalCount: 0 };
+
+    it('should return the orders of a client', async () => {
+      const query = mockQueryBuilder();
+      ordersRepository.createQueryBuilder.mockReturnValue(query);
+      (paginate as jest.Mock).mockResolvedValue(connection);
+
+      const result = await service.getOrders(customer, {
+        first: 10,
+        status: OrderStatus.Pending,
+      });
+
+      expect(query.where).toHaveBeenCalledWith('order.customer = :userId', {
+        userId: customer.id,
+      });
+      expect(query.andWhere).toHaveBeenCalledWith('order.status = :status', {
+        status: OrderStatus.Pending,
+      });
+      expect(paginate).toHaveBeenCalledWith(query, { first: 10 });
+      expect(result).toEqual({ ok: true, ...connection });
+    });
+
+    it('should return the orders of an owner', async () => {
+      const owner = { id: 3, role: UserRole.Owner } as User;
+      const query = mockQueryBuilder();
+      ordersRepository.createQueryBuilder.mockReturnValue(query);
+      restaurantsRepository.find.mockResolvedValue([{ id: 2 }, { id: 4 }]);
+      (paginate as jest.Mock).mockResolvedValue(connection);
+
+      await service.getOrders(owner, { first: 10 });
+
+      expect(query.where).toHaveBeenCalledWith(
+        'order.restaurant IN (:...restaurantIds)',
+        { restaurantIds: [2, 4] },
+      );
+    });
+
+    it('should return nothing for an owner without restaurants', async () => {
+      const owner = { id: 3, role: UserRole.Owner } as User;
+      ordersRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder());
+      restaurantsRepository.find.mockResolvedValue([]);
+      const result = await service.getOrders(owner, { first: 10 });
+
+      expect(paginate).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: true,
+        edges: [],
+        totalCount: 0,
+        pageInfo: { hasNextPage: false },
+      });
+    });
+  });
+
+  describe('getOrder', () => {
+    it('should fail if order does not exist', async () => {
+      ordersRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.getOrder(customer, { id: 5 });
+
+      expect(result).toEqual({ ok: false, error: 'Order not found.' });
+    });
+
+    it('should not show orders of other users', async () => {
+      ordersRepository.findOne.mockResolvedValue({ id: 5, customerId: 42 });
+      const result = await service.getOrder(customer, { id: 5 });
+
+      expect(result).toEqual({ ok: false, error: "You can't see this order." });
+    });
+
+    it('should show the order to the restaurant owner', async () => {
+      const owner = { id: 3, role: UserRole.Owner } as User;
+      const order = { id: 5, restaurant };
+      ordersRepository.findOne.mockResolvedValue(order);
+      const result = await service.getOrder(owner, { id: 5 });
+
+      expect(result).toEqual({ ok: true, order });
+    });
+  });
+
+  describe('editOrder', () => {
+    const owner = { id: 3, role: UserRole.Owner } as User;
+    const pendingOrder = {
+      id: 5,
+      customerId: customer.id,
+      restaurant,
+      status: OrderStatus.Pending,
+    };
+
+    it('should fail if order does not exist', async () => {
+      ordersRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.editOrder(owner, {
+        id: 5,
+        status: OrderStatus.Cooking,
+      });
+
+      expect(result).toMatchObject({ ok: false, code: 'OrderNotFound' });
+    });
+
+    it('should not let a client cook an order', async () => {
+      ordersRepository.findOne.mockResolvedValue(pendingOrder);
+      const result = await service.editOrder(customer, {
+        id: 5,
+        status: OrderStatus.Cooking,
+      });
+
+      expect(ordersRepository.update).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ ok: false, code: 'NotAllowed' });
+    });
+
+    it('should not let an owner skip a status', async () => {
+      ordersRepository.findOne.mockResolvedValue(pendingOrder);
+      const result = await service.editOrder(owner, {
+        id: 5,
+        status: OrderStatus.Cooked,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        code: 'InvalidTransition',
+        error: "Order can't go from Pending to Cooked.",
+      });
+    });
+
+    it('should not let a client cancel a cooking order', async () => {
+      ordersRepository.findOne.mockResolvedValue({
+        ...pendingOrder,
+        status: OrderStatus.Cooking,
+      });
+      const result = await service.editOrder(customer, {
+        id: 5,
+        status: OrderStatus.Cancelled,
+      });
+
+      expect(result).toMatchObject({ ok: false, code: 'InvalidTransition' });
+    });
+
+    beforeEach(() =>
+      ordersRepository.update.mockResolvedValue({ affected: 1 }),
+    );
+
+    it('should move the order and record the change', async () => {
+      ordersRepository.findOne.mockResolvedValue(pendingOrder);
+      const result = await service.editOrder(owner, {
+        id: 5,
+        status: OrderStatus.Cooking,
+      });
+
+      expect(ordersRepository.update).toHaveBeenCalledWith(
+        { id: 5, status: OrderStatus.Pending },
+        { status: OrderStatus.Cooking },
+      );
+      expect(statusChangesRepository.save).toHaveBeenCalledWith({
+        order: pendingOrder,
+        from: OrderStatus.Pending,
+        to: OrderStatus.Cooking,
+        changedBy: owner,
+      });
+      expect(pubSub.publish).toHaveBeenCalledTimes(1);
+      expect(pubSub.publish).toHaveBeenCalledWith(NEW_ORDER_UPDATE, {
+        orderUpdates: { ...pendingOrder, status: OrderStatus.Cooking },
+      });
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should notify drivers about cooked orders', async () => {
+      const cookingOrder = { ...pendingOrder, status: OrderStatus.Cooking };
+      ordersRepository.findOne.mockResolvedValue(cookingOrder);
+      await service.editOrder(owner, { id: 5, status: OrderStatus.Cooked });
+
+      expect(pubSub.publish).toHaveBeenCalledWith(NEW_COOKED_ORDER, {
+        cookedOrders: { ...cookingOrder, status: OrderStatus.Cooked },
+      });
+    });
+
+    it('should not overwrite a status changed in the meantime', async () => {
+      ordersRepository.findOne.mockResolvedValue(pendingOrder);
+      ordersRepository.update.mockResolvedValue({ affected: 0 });
+      const result = await service.editOrder(owner, {
+        id: 5,
+        status: OrderStatus.Cooking,
+      });
+
+      expect(statusChangesRepository.save).not.toHaveBeenCalled();
+      expect(pubSub.publish).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        code: 'InvalidTransition',
+        error: 'Order is no longer Pending.',
+      });
+    });
+  });
+
+  describe('takeOrder', () => {
+    const driver = { id: 6, role: UserRole.Delivery } as User;
+
+    it('should assign a cooked order to the driver', async () => {
+      const query = mockQueryBuilder();
+      ordersRepository.createQueryBuilder.mockReturnValue(query);
+      query.execute.mockResolvedValue({ affected: 1 });
+      const order = { id: 7, status: OrderStatus.Cooked, driverId: driver.id };
+      ordersRepository.findOne.mockResolvedValue(order);
+
+      const result = await service.takeOrder(driver, { id: 7 });
+
+      expect(query.set).toHaveBeenCalledWith({ driver });
+      expect(query.andWhere).toHaveBeenCalledWith('"driverId" IS NULL');
+      expect(pubSub.publish).toHaveBeenCalledWith(NEW_ORDER_UPDATE, {
+        orderUpdates: order,
+      });
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail if another driver took the order first', async () => {
+      const query = mockQueryBuilder();
+      ordersRepository.createQueryBuilder.mockReturnValue(query);
+      query.execute.mockResolvedValue({ affected: 0 });
+      ordersRepository.findOne.mockResolvedValue({
+        id: 7,
+        status: OrderStatus.Cooked,
+        driverId: 42,
+      });
+
+      const result = await service.takeOrder(driver, { id: 7 });
+
+      expect(pubSub.publish).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Order has already been taken.',
+      });
+    });
+
+    it('should fail if the order is not cooked', async () => {
+      const query = mockQueryBuilder();
+      ordersRepository.createQueryBuilder.mockReturnValue(query);
+      query.execute.mockResolvedValue({ affected: 0 });
+      ordersRepository.findOne.mockResolvedValue({
+        id: 7,
+        status: OrderStatus.Cooking,
+      });
+
+      const result = await service.takeOrder(driver, { id: 7 });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Order is not ready for pickup.',
+      });
+    });
+
+    it('should fail if the order does not exist', async () => {
+      const query = mockQueryBuilder();
+      ordersRepository.createQueryBuilder.mockReturnValue(query);
+      query.execute.mockResolvedValue({ affected: 0 });
+      ordersRepository.findOne.mockResolvedValue(undefined);
+
+      const result = await service.takeOrder(driver, { id: 7 });
+
+      expect(result).toEqual({ ok: false, error: 'Order not found.' });
+    });
+  });
+
+  describe('cancelStalePendingOrders', () => {
+    it('should cancel orders that are still pending', async () => {
+      const stale = { id: 7, status: OrderStatus.Pending };
+      const changed = { id: 8, status: OrderStatus.Pending };
+      ordersRepository.find.mockResolvedValue([stale, changed]);
+      ordersRepository.update
+        .mockResolvedValueOnce({ affected: 1 })
+        .mockResolvedValueOnce({ affected: 0 });
+
+      const result = await service.cancelStalePendingOrders(
+        new Date('2021-09-01'),
+      );
+
+      expect(ordersRepository.update).toHaveBeenCalledWith(
+        { id: 7, status: OrderStatus.Pending },
+        { status: OrderStatus.Cancelled },
+      );
+      expect(statusChangesRepository.save).toHaveBeenCalledTimes(1);
+      expect(statusChangesRepository.save).toHaveBeenCalledWith({
+        order: stale,
+        from: OrderStatus.Pending,
+        to: OrderStatus.Cancelled,
+      });
+      expect(pubSub.publish).toHaveBeenCalledTimes(1);
+      expect(pubSub.publish).toHaveBeenCalledWith(NEW_ORDER_UPDATE, {
+        orderUpdates: { id: 7, status: OrderStatus.Cancelled },
+      });
+      expect(result).toEqual(1);
+    });
+  });
+});
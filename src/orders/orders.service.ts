@@ -0,0 +1,616 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Connection,
+  EntityManager,
+  LessThan,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { PubSub } from 'graphql-subscriptions';
+
+import {
+  Order,
+  OrderItem,
+  OrderItemOption,
+  OrderStatus,
+  OrderStatusChange,
+} from './entities';
+import {
+  CreateOrderInput,
+  CreateOrderItemInput,
+  CreateOrderOutput,
+  EditOrderErrorCode,
+  EditOrderInput,
+  EditOrderOutput,
+  GetOrderInput,
+  GetOrderOutput,
+  GetOrdersInput,
+  GetOrdersOutput,
+  OrderItemOptionInput,
+  ReorderInput,
+  ReorderIssue,
+  ReorderIssueReason,
+  ReorderOutput,
+  TakeOrderInput,
+  TakeOrderOutput,
+} from './dtos';
+import { User, UserRole } from '../users/entities';
+import { Dish, Restaurant } from '../restaurants/entities';
+import {
+  NEW_COOKED_ORDER,
+  NEW_ORDER_UPDATE,
+  NEW_PENDING_ORDER,
+  ORDER_STATUS_TRANSITIONS,
+} from './orders.constants';
+import { GEOCODER, PUB_SUB } from '../common/common.constants';
+import { Coordinates, distanceKm, Geocoder, locate } from '../geo';
+import { paginate } from '../common/common.pagination';
+import { CouponsService } from '../coupons/coupons.service';
+import { CouponDiscount } from '../coupons/coupons.interfaces';
+
+interface PricedOrderItems {
+  items?: OrderItem[];
+  total?: number;
+  error?: string;
+}
+
+interface RebuiltOrderItems {
+  items: CreateOrderItemInput[];
+  issues: ReorderIssue[];
+}
+
+@Injectable()
+export class OrdersService {
+  constructor(
+    @InjectRepository(Order) private readonly orders: Repository<Order>,
+    @InjectRepository(OrderItem)
+    private readonly orderItems: Repository<OrderItem>,
+    @InjectRepository(OrderStatusChange)
+    private readonly statusChanges: Repository<OrderStatusChange>,
+    @InjectRepository(Restaurant)
+    private readonly restaurants: Repository<Restaurant>,
+    @InjectRepository(Dish) private readonly dishes: Repository<Dish>,
+    @Inject(PUB_SUB) private readonly pubSub: PubSub,
+    @Inject(GEOCODER) private readonly geocoder: Geocoder,
+    private readonly connection: Connection,
+    private readonly couponsService: CouponsService,
+  ) {}
+
+  /**
+   * Checks every item against the restaurant's current menu and prices it
+   * from the menu, ignoring anything the client may think things cost.
+   */
+  async priceOrderItems(
+    restaurant: Restaurant,
+    itemInputs: CreateOrderItemInput[],
+  ): Promise<PricedOrderItems> {
+    if (!itemInputs.length) {
+      return { error: 'Order has no items.' };
+    }
+
+    const dishes = await this.dishes.findByIds(
+      itemInputs.map(({ dishId }) => dishId),
+    );
+
+    const items: OrderItem[] = [];
+    let total = 0;
+
+    for (const { dishId, quantity = 1, options = [] } of itemInputs) {
+      const dish = dishes.find(({ id }) => id === dishId);
+      if (!dish || dish.restaurantId !== restaurant.id) {
+        return { error: 'Dish not found.' };
+      }
+
+      const itemOptions: OrderItemOption[] = [];
+      for (const { name, choice } of options) {
+        const dishOption = dish.options?.find((option) => option.name === name);
+        if (!dishOption) {
+          return { error: `Option "${name}" not found for ${dish.name}.` };
+        }
+
+        const dishChoice = dishOption.choices.find(
+          (option) => option.name === choice,
+        );
+        if (!dishChoice) {
+          return { error: `Choice "${choice}" not found for ${name}.` };
+        }
+
+        itemOptions.push({ name, choice, extra: dishChoice.extra ?? 0 });
+      }
+
+      const price =
+        dish.price + itemOptions.reduce((sum, { extra }) => sum + extra, 0);
+      total += price * quantity;
+
+      items.push(
+        this.orderItems.create({
+          dish,
+          name: dish.name,
+          price,
+          quantity,
+          options: itemOptions,
+        }),
+      );
+    }
+
+    return { items, total };
+  }
+
+  /** Restaurants whose location is still unknown deliver everywhere. */
+  deliversTo(restaurant: Restaurant, destination: Coordinates): boolean {
+    if (restaurant.lat == null || restaurant.lng == null) {
+      return true;
+    }
+
+    const { lat, lng, deliveryRadiusKm } = restaurant;
+    return distanceKm({ lat, lng }, destination) <= deliveryRadiusKm;
+  }
+
+  // Restaurants created before delivery areas have no coordinates; they are
+  // geocoded from their address the first time someone orders from them.
+  private async backfillLocation(restaurant: Restaurant): Promise<void> {
+    if (restaurant.lat != null && restaurant.lng != null) {
+      return;
+    }
+
+    const coordinates = await this.geocoder.geocode(restaurant.address);
+    if (coordinates) {
+      await this.restaurants.update(restaurant.id, coordinates);
+      Object.assign(restaurant, coordinates);
+    }
+  }
+
+  /**
+   * Places an order. A coupon is redeemed in the same transaction that
+   * saves the order, so it is only used up by orders that are placed.
+   * `onPlaced` also runs in that transaction, e.g. to empty the cart the
+   * order came from.
+   */
+  async createOrder(
+    customer: User,
+    {
+      restaurantId,
+      items: itemInputs,
+      couponCode,
+      ...destination
+    }: CreateOrderInput,
+    onPlaced?: (manager: EntityManager) => Promise<void>,
+  ): Promise<CreateOrderOutput> {
+    try {
+      if (!customer.verified) {
+        return {
+          ok: false,
+          error: 'Verify your email before placing an order.',
+        };
+      }
+
+      const restaurant = await this.restaurants.findOne(restaurantId);
+      if (!restaurant) {
+        return { ok: false, error: 'Restaurant not found.' };
+      }
+
+      const coordinates = await locate(this.geocoder, destination);
+      if (!coordinates) {
+        return { ok: false, error: 'Could not locate this address.' };
+      }
+
+      await this.backfillLocation(restaurant);
+      if (!this.deliversTo(restaurant, coordinates)) {
+        return { ok: false, error: 'Address is outside the delivery area.' };
+      }
+
+      const {
+        items,
+        total: subtotal,
+        error,
+      } = await this.priceOrderItems(restaurant, itemInputs);
+      if (error) {
+        return { ok: false, error };
+      }
+
+      const placed = await this.connection.transaction(async (manager) => {
+        const {
+          coupon,
+          discount = 0,
+          error: couponError,
+        }: CouponDiscount = couponCode
+          ? await this.couponsService.redeemCoupon(
+              manager,
+              customer,
+              couponCode,
+              restaurant.id,
+              subtotal,
+            )
+          : {};
+        if (couponError) {
+          return { error: couponError };
+        }
+
+        const order = await manager.getRepository(Order).save(
+          this.orders.create({
+            customer,
+            restaurant,
+            items,
+            subtotal,
+            discount,
+            total: subtotal - discount,
+            coupon,
+            address: destination.address,
+            ...coordinates,
+            statusChanges: [
+              this.statusChanges.create({
+                to: OrderStatus.Pending,
+                changedBy: customer,
+              }),
+            ],
+          }),
+        );
+        await onPlaced?.(manager);
+
+        return { order };
+      });
+      if (placed.error) {
+        return { ok: false, error: placed.error };
+      }
+
+      const { order } = placed;
+      await this.pubSub.publish(NEW_PENDING_ORDER, {
+        pendingOrders: { order, ownerId: restaurant.ownerId },
+      });
+
+      return {
+        ok: true,
+        orderId: order.id,
+        subtotal,
+        discount: order.discount,
+        total: order.total,
+      };
+    } catch (error) {
+      return { ok: false, error: 'Could not create order.' };
+    }
+  }
+
+  /**
+   * Places a past order again, priced from the current menu. Dishes and
+   * choices that are gone are left out and reported together with price
+   * changes, instead of failing the whole order.
+   */
+  async reorder(customer: User, { id }: ReorderInput): Promise<ReorderOutput> {
+    try {
+      const previous = await this.orders.findOne(id, { relations: ['items'] });
+      if (!previous || previous.customerId !== customer.id) {
+        return { ok: false, error: 'Order not found.' };
+      }
+
+      const { items, issues } = await this.rebuildOrderItems(previous);
+      if (!items.length) {
+        return {
+          ok: false,
+          error: 'None of the items in this order are available anymore.',
+          issues,
+        };
+      }
+
+      const { restaurantId, address, lat, lng } = previous;
+      const result = await this.createOrder(customer, {
+        restaurantId,
+        address,
+        lat,
+        lng,
+        items,
+      });
+
+      return { ...result, issues };
+    } catch (error) {
+      return { ok: false, error: 'Could not reorder.' };
+    }
+  }
+
+  async getOrders(
+    user: User,
+    { status, ...connectionArgs }: GetOrdersInput,
+  ): Promise<GetOrdersOutput> {
+    try {
+      const query = this.orders
+        .createQueryBuilder('order')
+        .leftJoinAndSelect('order.items', 'items');
+
+      const isScoped = await this.scopeOrders(user, query);
+      if (!isScoped) {
+        return {
+          ok: true,
+          edges: [],
+          totalCount: 0,
+          pageInfo: { hasNextPage: false },
+        };
+      }
+
+      if (status) {
+        query.andWhere('order.status = :status', { status });
+      }
+
+      const connection = await paginate(query, connectionArgs);
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load orders.' };
+    }
+  }
+
+  async getOrder(user: User, { id }: GetOrderInput): Promise<GetOrderOutput> {
+    try {
+      const order = await this.orders.findOne(id, {
+        relations: ['restaurant', 'items'],
+      });
+      if (!order) {
+        return { ok: false, error: 'Order not found.' };
+      }
+
+      if (!this.canSeeOrder(user, order)) {
+        return { ok: false, error: "You can't see this order." };
+      }
+
+      return { ok: true, order };
+    } catch (error) {
+      return { ok: false, error: 'Could not load order.' };
+    }
+  }
+
+  async editOrder(
+    user: User,
+    { id, status }: EditOrderInput,
+  ): Promise<EditOrderOutput> {
+    try {
+      const order = await this.orders.findOne(id, {
+        relations: ['restaurant', 'items'],
+      });
+      if (!order) {
+        return {
+          ok: false,
+          code: EditOrderErrorCode.OrderNotFound,
+          error: 'Order not found.',
+        };
+      }
+
+      const transition = ORDER_STATUS_TRANSITIONS[status];
+      if (
+        !this.canSeeOrder(user, order) ||
+        !transition ||
+        transition.role !== user.role
+      ) {
+        return {
+          ok: false,
+          code: EditOrderErrorCode.NotAllowed,
+          error: `You can't move this order to ${status}.`,
+        };
+      }
+
+      if (!transition.from.includes(order.status)) {
+        return {
+          ok: false,
+          code: EditOrderErrorCode.InvalidTransition,
+          error: `Order can't go from ${order.status} to ${status}.`,
+        };
+      }
+
+      // Only moves the order if nobody changed its status since it was read.
+      const { affected } = await this.orders.update(
+        { id, status: order.status },
+        { status },
+      );
+      if (!affected) {
+        return {
+          ok: false,
+          code: EditOrderErrorCode.InvalidTransition,
+          error: `Order is no longer ${order.status}.`,
+        };
+      }
+
+      await this.statusChanges.save(
+        this.statusChanges.create({
+          order,
+          from: order.status,
+          to: status,
+          changedBy: user,
+        }),
+      );
+
+      const updatedOrder = { ...order, status };
+      if (status === OrderStatus.Cooked) {
+        await this.pubSub.publish(NEW_COOKED_ORDER, {
+          cookedOrders: updatedOrder,
+        });
+      }
+      await this.pubSub.publish(NEW_ORDER_UPDATE, {
+        orderUpdates: updatedOrder,
+      });
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not edit order.' };
+    }
+  }
+
+  /**
+   * Assigns a Cooked order to `driver`. The conditional update makes sure
+   * only one of several drivers racing for the same order gets it.
+   */
+  async takeOrder(
+    driver: User,
+    { id }: TakeOrderInput,
+  ): Promise<TakeOrderOutput> {
+    try {
+      const { affected } = await this.orders
+        .createQueryBuilder()
+        .update(Order)
+        .set({ driver })
+        .where('id = :id', { id })
+        .andWhere('status = :status', { status: OrderStatus.Cooked })
+        .andWhere('"driverId" IS NULL')
+        .execute();
+
+      const order = await this.orders.findOne(id, {
+        relations: ['restaurant', 'items'],
+      });
+      if (!order) {
+        return { ok: false, error: 'Order not found.' };
+      }
+
+      if (!affected) {
+        return order.status === OrderStatus.Cooked
+          ? { ok: false, error: 'Order has already been taken.' }
+          : { ok: false, error: 'Order is not ready for pickup.' };
+      }
+
+      await this.pubSub.publish(NEW_ORDER_UPDATE, { orderUpdates: order });
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not take order.' };
+    }
+  }
+
+  /**
+   * Cancels orders still Pending that were placed before `createdBefore`.
+   * Orders that moved on in the meantime are left alone.
+   */
+  async cancelStalePendingOrders(createdBefore: Date): Promise<number> {
+    const orders = await this.orders.find({
+      where: {
+        status: OrderStatus.Pending,
+        createdAt: LessThan(createdBefore),
+      },
+      relations: ['restaurant', 'items'],
+    });
+
+    let cancelled = 0;
+    for (const order of orders) {
+      const { affected } = await this.orders.update(
+        { id: order.id, status: OrderStatus.Pending },
+        { status: OrderStatus.Cancelled },
+      );
+      if (!affected) {
+        continue;
+      }
+
+      await this.statusChanges.save(
+        this.statusChanges.create({
+          order,
+          from: OrderStatus.Pending,
+          to: OrderStatus.Cancelled,
+        }),
+      );
+      await this.pubSub.publish(NEW_ORDER_UPDATE, {
+        orderUpdates: { ...order, status: OrderStatus.Cancelled },
+      });
+      cancelled++;
+    }
+
+    return cancelled;
+  }
+
+  /** Matches the items of a past order against the current menu. */
+  private async rebuildOrderItems({
+    restaurantId,
+    items,
+  }: Order): Promise<RebuiltOrderItems> {
+    const dishIds = items
+      .map(({ dishId }) => dishId)
+      .filter((dishId) => dishId != null);
+    const dishes = dishIds.length ? await this.dishes.findByIds(dishIds) : [];
+
+    const rebuilt: RebuiltOrderItems = { items: [], issues: [] };
+    for (const item of items) {
+      const { name, quantity } = item;
+      const dish = dishes.find(({ id }) => id === item.dishId);
+      if (!dish || dish.restaurantId !== restaurantId) {
+        rebuilt.issues.push({
+          name,
+          reason: ReorderIssueReason.DishUnavailable,
+        });
+        continue;
+      }
+
+      // Compare like with like: the old price without the dropped choices.
+      let oldPrice = item.price;
+      let newPrice = dish.price;
+      const options: OrderItemOptionInput[] = [];
+      for (const { name: option, choice, extra } of item.options ?? []) {
+        const dishChoice = dish.options
+          ?.find(({ name }) => name === option)
+          ?.choices.find(({ name }) => name === choice);
+        if (!dishChoice) {
+          rebuilt.issues.push({
+            name,
+            reason: ReorderIssueReason.ChoiceUnavailable,
+            option,
+            choice,
+          });
+          oldPrice -= extra;
+          continue;
+        }
+
+        options.push({ name: option, choice });
+        newPrice += dishChoice.extra ?? 0;
+      }
+
+      if (newPrice !== oldPrice) {
+        rebuilt.issues.push({
+          name,
+          reason: ReorderIssueReason.PriceChanged,
+          oldPrice,
+          newPrice,
+        });
+      }
+
+      rebuilt.items.push({ dishId: dish.id, quantity, options });
+    }
+
+    return rebuilt;
+  }
+
+  canSeeOrder(user: User, order: Order): boolean {
+    switch (user.role) {
+      case UserRole.Client:
+        return order.customerId === user.id;
+      case UserRole.Delivery:
+        return order.driverId === user.id;
+      case UserRole.Owner:
+        return order.restaurant?.ownerId === user.id;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Limits `query` to the orders `user` may see. Returns false when the user
+   * can't see any orders at all.
+   */
+  private async scopeOrders(
+    user: User,
+    query: SelectQueryBuilder<Order>,
+  ): Promise<boolean> {
+    switch (user.role) {
+      case UserRole.Client:
+        query.where('order.customer = :userId', { userId: user.id });
+        return true;
+      case UserRole.Delivery:
+        query.where('order.driver = :userId', { userId: user.id });
+        return true;
+      case UserRole.Owner: {
+        const restaurants = await this.restaurants.find({ owner: user });
+        if (!restaurants.length) {
+          return false;
+        }
+
+        query.where('order.restaurant IN (:...restaurantIds)', {
+          restaurantIds: restaurants.map(({ id }) => id),
+        });
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { ArgsType, ObjectType } from '@nestjs/graphql';
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { Payment } from '../entities';
+
+@ArgsType()
+export class GetPaymentsInput extends ConnectionArgs {}
+
+@ObjectType()
+export class GetPaymentsOutput extends Paginated(Payment) {}
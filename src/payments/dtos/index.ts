@@ -0,0 +1,2 @@
+export * from './get-payments.dto';
+export * from './payment-webhook.dto';
@@ -0,0 +1,16 @@
+import { IsInt, IsString } from 'class-validator';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+/** Body of the payment provider's callback for a paid promotion. */
+export class PaymentWebhookInput {
+  @IsString()
+  transactionId: string;
+
+  @IsInt()
+  userId: number;
+
+  @IsInt()
+  restaurantId: number;
+}
+
+export class PaymentWebhookOutput extends CoreOutput {}
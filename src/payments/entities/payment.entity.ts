@@ -0,0 +1,33 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { Column, Entity, ManyToOne, RelationId } from 'typeorm';
+import { IsString } from 'class-validator';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Restaurant } from '../../restaurants/entities';
+
+@InputType('PaymentInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+export class Payment extends CoreEntity {
+  // The payment provider's id, so a repeated webhook isn't counted twice.
+  @Field(() => String)
+  @Column({ unique: true })
+  @IsString()
+  transactionId: string;
+
+  @Field(() => User)
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @RelationId((payment: Payment) => payment.user)
+  userId: number;
+
+  @Field(() => Restaurant)
+  @ManyToOne(() => Restaurant, { onDelete: 'CASCADE' })
+  restaurant: Restaurant;
+
+  @Field(() => Number)
+  @RelationId((payment: Payment) => payment.restaurant)
+  restaurantId: number;
+}
@@ -0,0 +1,2 @@
+export const PROMOTION_DAYS = 7;
+export const SIGNATURE_HEADER = 'x-signature';
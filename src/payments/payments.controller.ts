@@ -0,0 +1,45 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  Post,
+  Req,
+  UnauthorizedException,
+} from '@nestjs/common';
+
+import { PaymentsService } from './payments.service';
+import { PaymentWebhookInput, PaymentWebhookOutput } from './dtos';
+import { RawBodyRequest } from './payments.interfaces';
+import { SIGNATURE_HEADER } from './payments.constants';
+
+@Controller('payments')
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Post('webhook')
+  @HttpCode(200)
+  async webhook(
+    @Req() req: RawBodyRequest,
+    @Headers(SIGNATURE_HEADER) signature: string,
+    @Body() paymentWebhookInput: PaymentWebhookInput,
+  ): Promise<PaymentWebhookOutput> {
+    if (
+      !req.rawBody ||
+      !signature ||
+      !this.paymentsService.verifySignature(req.rawBody, signature)
+    ) {
+      throw new UnauthorizedException('Invalid signature.');
+    }
+
+    const result = await this.paymentsService.promoteRestaurant(
+      paymentWebhookInput,
+    );
+    if (!result.ok) {
+      throw new BadRequestException(result.error);
+    }
+
+    return result;
+  }
+}
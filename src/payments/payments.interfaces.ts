@@ -0,0 +1,9 @@
+import { Request } from 'express';
+
+export interface PaymentsModuleOptions {
+  webhookSecret: string;
+}
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
@@ -0,0 +1,29 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { CONFIG_OPTIONS } from '../common/common.constants';
+import { PaymentsModuleOptions } from './payments.interfaces';
+import { PaymentsController } from './payments.controller';
+import { PaymentsResolver } from './payments.resolver';
+import { PaymentsService } from './payments.service';
+import { Payment } from './entities';
+import { Restaurant } from '../restaurants/entities';
+
+@Module({})
+export class PaymentsModule {
+  static forRoot(options: PaymentsModuleOptions): DynamicModule {
+    return {
+      module: PaymentsModule,
+      imports: [TypeOrmModule.forFeature([Payment, Restaurant])],
+      controllers: [PaymentsController],
+      providers: [
+        {
+          provide: CONFIG_OPTIONS,
+          useValue: options,
+        },
+        PaymentsResolver,
+        PaymentsService,
+      ],
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Args, Query, Resolver } from '@nestjs/graphql';
+
+import { Payment } from './entities';
+import { PaymentsService } from './payments.service';
+import { GetPaymentsInput, GetPaymentsOutput } from './dtos';
+import { User } from '../users/entities';
+import { AuthUser } from '../auth/auth-user.decorator';
+import { Role } from '../auth/role.decorator';
+
+@Resolver(() => Payment)
+export class PaymentsResolver {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Query(() => GetPaymentsOutput)
+  @Role('Owner')
+  getPayments(
+    @AuthUser() owner: User,
+    @Args() getPaymentsInput: GetPaymentsInput,
+  ): Promise<GetPaymentsOutput> {
+    return this.paymentsService.getPayments(owner, getPaymentsInput);
+  }
+}
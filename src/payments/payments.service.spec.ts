@@ -0,0 +1,212 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Connection, Repository } from 'typeorm';
+import { createHmac } from 'crypto';
+
+import { Payment } from './entities';
+import { PaymentsService } from './payments.service';
+import { User } from '../users/entities';
+import { Restaurant } from '../restaurants/entities';
+import { CONFIG_OPTIONS } from '../common/common.constants';
+import { paginate } from '../common/common.pagination';
+
+jest.mock('../common/common.pagination', () => ({
+  paginate: jest.fn(),
+}));
+
+const WEBHOOK_SECRET = 'secret';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const mockRepository = () => ({
+  findOne: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn((entity) => entity),
+  createQueryBuilder: jest.fn(),
+});
+
+const mockQueryBuilder = () => ({
+  leftJoinAndSelect: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+describe('PaymentsService', () => {
+  let paymentsRepository: MockRepository<Payment>;
+  let restaurantsRepository: MockRepository<Restaurant>;
+  let connection: { transaction: jest.Mock };
+  let service: PaymentsService;
+
+  const webhookInput = { transactionId: 'tx', userId: 1, restaurantId: 2 };
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        {
+          provide: CONFIG_OPTIONS,
+          useValue: { webhookSecret: WEBHOOK_SECRET },
+        },
+        {
+          provide: getRepositoryToken(Payment),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Restaurant),
+          useValue: mockRepository(),
+        },
+        {
+          provide: Connection,
+          useFactory: (
+            payments: MockRepository<Payment>,
+            restaurants: MockRepository<Restaurant>,
+          ) => ({
+            transaction: jest.fn((work) =>
+              work({
+                getRepository: (entity) =>
+                  entity === Payment ? payments : restaurants,
+              }),
+            ),
+          }),
+          inject: [getRepositoryToken(Payment), getRepositoryToken(Restaurant)],
+        },
+      ],
+    }).compile();
+
+    paymentsRepository = module.get(getRepositoryToken(Payment));
+    restaurantsRepository = module.get(getRepositoryToken(Restaurant));
+    connection = module.get(Connection);
+    service = module.get<PaymentsService>(PaymentsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  describe('verifySignature', () => {
+    const body = Buffer.from('{"transactionId":"tx"}');
+
+    it('should accept a valid signature', () => {
+      const signature = createHmac('sha256', WEBHOOK_SECRET)
+        .update(body)
+        .digest('hex');
+
+      expect(service.verifySignature(body, signature)).toBe(true);
+    });
+
+    it('should reject a signature made with another secret', () => {
+      const signature = createHmac('sha256', 'other')
+        .update(body)
+        .digest('hex');
+
+      expect(service.verifySignature(body, signature)).toBe(false);
+    });
+
+    it('should reject a malformed signature', () => {
+      expect(service.verifySignature(body, 'xyz')).toBe(false);
+    });
+  });
+
+  describe('promoteRestaurant', () => {
+    it('should ignore a transaction it has already seen', async () => {
+      paymentsRepository.findOne.mockResolvedValue({ id: 1 });
+
+      const result = await service.promoteRestaurant(webhookInput);
+
+      expect(paymentsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail if restaurant does not exist', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(undefined);
+
+      const result = await service.promoteRestaurant(webhookInput);
+
+      expect(result).toEqual({ ok: false, error: 'Restaurant not found.' });
+    });
+
+    it('should fail if the user does not own the restaurant', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({ id: 2, ownerId: 42 });
+
+      const result = await service.promoteRestaurant(webhookInput);
+
+      expect(paymentsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: "User doesn't own this restaurant.",
+      });
+    });
+
+    it('should record the payment and promote the restaurant', async () => {
+      jest.useFakeTimers('modern').setSystemTime(new Date('2021-09-01'));
+      const restaurant = { id: 2, ownerId: 1 };
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+
+      const result = await service.promoteRestaurant(webhookInput);
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(paymentsRepository.save).toHaveBeenCalledWith({
+        transactionId: 'tx',
+        restaurant,
+        user: { id: 1 },
+      });
+      expect(restaurantsRepository.save).toHaveBeenCalledWith({
+        id: 2,
+        isPromoted: true,
+        promotedUntil: new Date('2021-09-08'),
+      });
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should extend a running promotion', async () => {
+      jest.useFakeTimers('modern').setSystemTime(new Date('2021-09-01'));
+      const promotedUntil = new Date('2021-09-03');
+      restaurantsRepository.findOne.mockResolvedValue({
+        id: 2,
+        ownerId: 1,
+        promotedUntil,
+      });
+
+      await service.promoteRestaurant(webhookInput);
+
+      expect(restaurantsRepository.save).toHaveBeenCalledWith({
+        id: 2,
+        isPromoted: true,
+        promotedUntil: new Date(promotedUntil.getTime() + 7 * DAY_MS),
+      });
+    });
+
+    it('should fail on exception', async () => {
+      paymentsRepository.findOne.mockRejectedValue(new Error());
+
+      const result = await service.promoteRestaurant(webhookInput);
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not process payment.',
+      });
+    });
+  });
+
+  describe('getPayments', () => {
+    it("should return the user's payments", async () => {
+      const query = mockQueryBuilder();
+      const connection = { edges: [], pageInfo: {}, totalCount: 0 };
+      paymentsRepository.createQueryBuilder.mockReturnValue(query);
+      (paginate as jest.Mock).mockResolvedValue(connection);
+
+      const result = await service.getPayments({ id: 1 } as User, {
+        first: 10,
+      });
+
+      expect(query.where).toHaveBeenCalledWith('payment.user = :userId', {
+        userId: 1,
+      });
+      expect(paginate).toHaveBeenCalledWith(query, { first: 10 });
+      expect(result).toEqual({ ok: true, ...connection });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Connection, Repository } from 'typeorm';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { Payment } from './entities';
+import {
+  GetPaymentsInput,
+  GetPaymentsOutput,
+  PaymentWebhookInput,
+  PaymentWebhookOutput,
+} from './dtos';
+import { PaymentsModuleOptions } from './payments.interfaces';
+import { PROMOTION_DAYS } from './payments.constants';
+import { User } from '../users/entities';
+import { Restaurant } from '../restaurants/entities';
+import { CONFIG_OPTIONS } from '../common/common.constants';
+import { paginate } from '../common/common.pagination';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class PaymentsService {
+  constructor(
+    @Inject(CONFIG_OPTIONS) private readonly options: PaymentsModuleOptions,
+    @InjectRepository(Payment)
+    private readonly payments: Repository<Payment>,
+    @InjectRepository(Restaurant)
+    private readonly restaurants: Repository<Restaurant>,
+    private readonly connection: Connection,
+  ) {}
+
+  /** Checks the hex HMAC-SHA256 of the raw request body. */
+  verifySignature(rawBody: Buffer, signature: string): boolean {
+    const expected = createHmac('sha256', this.options.webhookSecret)
+      .update(rawBody)
+      .digest();
+    const received = Buffer.from(signature, 'hex');
+
+    return (
+      received.length === expected.length && timingSafeEqual(received, expected)
+    );
+  }
+
+  /**
+   * Records a verified payment and promotes the restaurant for another
+   * PROMOTION_DAYS. Repeated callbacks for the same transaction are ignored.
+   */
+  async promoteRestaurant({
+    transactionId,
+    userId,
+    restaurantId,
+  }: PaymentWebhookInput): Promise<PaymentWebhookOutput> {
+    try {
+      const payment = await this.payments.findOne({ transactionId });
+      if (payment) {
+        return { ok: true };
+      }
+
+      const restaurant = await this.restaurants.findOne(restaurantId);
+      if (!restaurant) {
+        return { ok: false, error: 'Restaurant not found.' };
+      }
+
+      if (restaurant.ownerId !== userId) {
+        return { ok: false, error: "User doesn't own this restaurant." };
+      }
+
+      // Together, so a payment is never recorded without its promotion and
+      // a failed promotion is applied when the provider retries.
+      await this.connection.transaction(async (manager) => {
+        await manager.getRepository(Payment).save(
+          this.payments.create({
+            transactionId,
+            restaurant,
+            user: { id: userId },
+          }),
+        );
+
+        const now = Date.now();
+        const from = Math.max(now, restaurant.promotedUntil?.getTime() ?? now);
+        await manager.getRepository(Restaurant).save({
+          id: restaurantId,
+          isPromoted: true,
+          promotedUntil: new Date(from + PROMOTION_DAYS * DAY_MS),
+        });
+      });
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not process payment.' };
+    }
+  }
+
+  async getPayments(
+    user: User,
+    getPaymentsInput: GetPaymentsInput,
+  ): Promise<GetPaymentsOutput> {
+    try {
+      const connection = await paginate(
+        this.payments
+          .createQueryBuilder('payment')
+          .leftJoinAndSelect('payment.restaurant', 'restaurant')
+          .where('payment.user = :userId', { userId: user.id }),
+        getPaymentsInput,
+      );
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load payments.' };
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  Args,
+  Int,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from '@nestjs/graphql';
+
+import { Category } from './entities';
+import { RestaurantService } from './restaurants.service';
+import {
+  AllCategoriesInput,
+  AllCategoriesOutput,
+  CategoryInput,
+  CategoryOutput,
+} from './dtos';
+
+@Resolver(() => Category)
+export class CategoriesResolver {
+  constructor(private readonly restaurantService: RestaurantService) {}
+
+  @ResolveField(() => Int)
+  restaurantCount(@Parent() category: Category): Promise<number> {
+    return this.restaurantService.countRestaurants(category);
+  }
+
+  @Query(() => AllCategoriesOutput)
+  allCategories(
+    @Args() allCategoriesInput: AllCategoriesInput,
+  ): Promise<AllCategoriesOutput> {
+    return this.restaurantService.allCategories(allCategoriesInput);
+  }
+
+  @Query(() => CategoryOutput)
+  category(@Args() categoryInput: CategoryInput): Promise<CategoryOutput> {
+    return this.restaurantService.findCategoryBySlug(categoryInput);
+  }
+}
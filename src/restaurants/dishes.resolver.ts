@@ -0,0 +1,54 @@
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+
+import { Dish } from './entities';
+import { RestaurantService } from './restaurants.service';
+import {
+  CreateDishInput,
+  CreateDishOutput,
+  DeleteDishInput,
+  DeleteDishOutput,
+  DishesInput,
+  DishesOutput,
+  EditDishInput,
+  EditDishOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { AuthUser } from '../auth/auth-user.decorator';
+import { Role } from '../auth/role.decorator';
+
+@Resolver(() => Dish)
+export class DishesResolver {
+  constructor(private readonly restaurantService: RestaurantService) {}
+
+  @Query(() => DishesOutput)
+  dishes(@Args() dishesInput: DishesInput): Promise<DishesOutput> {
+    return this.restaurantService.findDishes(dishesInput);
+  }
+
+  @Mutation(() => CreateDishOutput)
+  @Role('Owner')
+  createDish(
+    @AuthUser() owner: User,
+    @Args('input') createDishInput: CreateDishInput,
+  ): Promise<CreateDishOutput> {
+    return this.restaurantService.createDish(owner, createDishInput);
+  }
+
+  @Mutation(() => EditDishOutput)
+  @Role('Owner')
+  editDish(
+    @AuthUser() owner: User,
+    @Args('input') editDishInput: EditDishInput,
+  ): Promise<EditDishOutput> {
+    return this.restaurantService.editDish(owner, editDishInput);
+  }
+
+  @Mutation(() => DeleteDishOutput)
+  @Role('Owner')
+  deleteDish(
+    @AuthUser() owner: User,
+    @Args('input') deleteDishInput: DeleteDishInput,
+  ): Promise<DeleteDishOutput> {
+    return this.restaurantService.deleteDish(owner, deleteDishInput);
+  }
+}
@@ -0,0 +1,9 @@
+import { ArgsType, ObjectType } from '@nestjs/graphql';
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { Category } from '../entities';
+
+@ArgsType()
+export class AllCategoriesInput extends ConnectionArgs {}
+
+@ObjectType()
+export class AllCategoriesOutput extends Paginated(Category) {}
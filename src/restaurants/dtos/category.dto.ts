@@ -0,0 +1,15 @@
+import { ArgsType, Field, ObjectType } from '@nestjs/graphql';
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { Category, Restaurant } from '../entities';
+
+@ArgsType()
+export class CategoryInput extends ConnectionArgs {
+  @Field(() => String)
+  slug: string;
+}
+
+@ObjectType()
+export class CategoryOutput extends Paginated(Restaurant) {
+  @Field(() => Category, { nullable: true })
+  category?: Category;
+}
@@ -0,0 +1,21 @@
+import { Field, InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Dish } from '../entities';
+
+@InputType()
+export class CreateDishInput extends PickType(Dish, [
+  'name',
+  'price',
+  'description',
+  'photo',
+  'options',
+]) {
+  @Field(() => Number)
+  restaurantId: number;
+}
+
+@ObjectType()
+export class CreateDishOutput extends CoreOutput {
+  @Field(() => Number, { nullable: true })
+  dishId?: number;
+}
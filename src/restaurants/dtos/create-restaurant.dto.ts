@@ -1,5 +1,26 @@
-import { InputType, OmitType } from '@nestjs/graphql';
-import { Restaurant } from '../entities/restaurant.entity';
+import { Field, InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { IsString } from 'class-validator';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Restaurant } from '../entities';
 
 @InputType()
-export class CreateRestaurantDto extends OmitType(Restaurant, ['id'], InputType) {}
+export class CreateRestaurantInput extends PickType(Restaurant, [
+  'name',
+  'address',
+  'isVegan',
+  'opensAt',
+  'closesAt',
+  'lat',
+  'lng',
+  'deliveryRadiusKm',
+]) {
+  @Field(() => String)
+  @IsString()
+  categoryName: string;
+}
+
+@ObjectType()
+export class CreateRestaurantOutput extends CoreOutput {
+  @Field(() => Number, { nullable: true })
+  restaurantId?: number;
+}
@@ -0,0 +1,11 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+@InputType()
+export class DeleteDishInput {
+  @Field(() => Number)
+  dishId: number;
+}
+
+@ObjectType()
+export class DeleteDishOutput extends CoreOutput {}
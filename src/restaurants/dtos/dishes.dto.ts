@@ -0,0 +1,12 @@
+import { ArgsType, Field, ObjectType } from '@nestjs/graphql';
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { Dish } from '../entities';
+
+@ArgsType()
+export class DishesInput extends ConnectionArgs {
+  @Field(() => Number)
+  restaurantId: number;
+}
+
+@ObjectType()
+export class DishesOutput extends Paginated(Dish) {}
@@ -0,0 +1,20 @@
+import {
+  Field,
+  InputType,
+  ObjectType,
+  PartialType,
+  PickType,
+} from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Dish } from '../entities';
+
+@InputType()
+export class EditDishInput extends PartialType(
+  PickType(Dish, ['name', 'price', 'description', 'photo', 'options']),
+) {
+  @Field(() => Number)
+  dishId: number;
+}
+
+@ObjectType()
+export class EditDishOutput extends CoreOutput {}
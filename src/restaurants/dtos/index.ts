@@ -0,0 +1,14 @@
+export * from './all-categories.dto';
+export * from './category.dto';
+export * from './create-dish.dto';
+export * from './create-restaurant.dto';
+export * from './delete-dish.dto';
+export * from './delete-restaurant.dto';
+export * from './dishes.dto';
+export * from './edit-dish.dto';
+export * from './edit-restaurant.dto';
+export * from './my-restaurants.dto';
+export * from './nearby-restaurants.dto';
+export * from './restaurant.dto';
+export * from './restaurants.dto';
+export * from './search-restaurants.dto';
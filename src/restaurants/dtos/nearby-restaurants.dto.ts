@@ -0,0 +1,54 @@
+import { ArgsType, Field, Float, Int, ObjectType } from '@nestjs/graphql';
+import {
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNumber,
+  Max,
+  Min,
+} from 'class-validator';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Restaurant } from '../entities';
+
+@ArgsType()
+export class NearbyRestaurantsInput {
+  @Field(() => Float)
+  @IsLatitude()
+  lat: number;
+
+  @Field(() => Float)
+  @IsLongitude()
+  lng: number;
+
+  @Field(() => Float, { defaultValue: 5 })
+  @IsNumber()
+  @Min(0)
+  @Max(50)
+  radiusKm: number;
+
+  @Field(() => Int, { defaultValue: 1 })
+  @IsInt()
+  @Min(1)
+  page: number;
+}
+
+@ObjectType()
+export class NearbyRestaurant {
+  @Field(() => Restaurant)
+  restaurant: Restaurant;
+
+  @Field(() => Float)
+  distanceKm: number;
+}
+
+@ObjectType()
+export class NearbyRestaurantsOutput extends CoreOutput {
+  @Field(() => [NearbyRestaurant], { nullable: true })
+  results?: NearbyRestaurant[];
+
+  @Field(() => Int, { nullable: true })
+  totalCount?: number;
+
+  @Field(() => Int, { nullable: true })
+  totalPages?: number;
+}
@@ -0,0 +1,15 @@
+import { ArgsType, Field, ObjectType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Restaurant } from '../entities';
+
+@ArgsType()
+export class RestaurantInput {
+  @Field(() => Number)
+  restaurantId: number;
+}
+
+@ObjectType()
+export class RestaurantOutput extends CoreOutput {
+  @Field(() => Restaurant, { nullable: true })
+  restaurant?: Restaurant;
+}
@@ -0,0 +1,9 @@
+import { ArgsType, ObjectType } from '@nestjs/graphql';
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { Restaurant } from '../entities';
+
+@ArgsType()
+export class RestaurantsInput extends ConnectionArgs {}
+
+@ObjectType()
+export class RestaurantsOutput extends Paginated(Restaurant) {}
@@ -0,0 +1,84 @@
+import {
+  ArgsType,
+  Field,
+  Float,
+  InputType,
+  Int,
+  ObjectType,
+} from '@nestjs/graphql';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Min,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Restaurant } from '../entities';
+
+@InputType()
+export class SearchRestaurantsFilters {
+  @Field(() => Boolean, { nullable: true })
+  @IsBoolean()
+  @IsOptional()
+  isVegan?: boolean;
+
+  @Field(() => String, { nullable: true })
+  @IsString()
+  @IsOptional()
+  categorySlug?: string;
+
+  @Field(() => Boolean, { nullable: true })
+  @IsBoolean()
+  @IsOptional()
+  openNow?: boolean;
+}
+
+@ArgsType()
+export class SearchRestaurantsInput {
+  @Field(() => String)
+  @IsString()
+  @MinLength(1)
+  query: string;
+
+  @Field(() => SearchRestaurantsFilters, { nullable: true })
+  @ValidateNested()
+  @Type(() => SearchRestaurantsFilters)
+  @IsOptional()
+  filters?: SearchRestaurantsFilters;
+
+  @Field(() => Int, { defaultValue: 1 })
+  @IsInt()
+  @Min(1)
+  page: number;
+}
+
+@ObjectType()
+export class RestaurantSearchResult {
+  @Field(() => Restaurant)
+  restaurant: Restaurant;
+
+  @Field(() => Float)
+  rank: number;
+
+  @Field(() => String, {
+    description:
+      'Escaped HTML of the matched text with the matches wrapped in <b></b>.',
+  })
+  highlight: string;
+}
+
+@ObjectType()
+export class SearchRestaurantsOutput extends CoreOutput {
+  @Field(() => [RestaurantSearchResult], { nullable: true })
+  results?: RestaurantSearchResult[];
+
+  @Field(() => Int, { nullable: true })
+  totalCount?: number;
+
+  @Field(() => Int, { nullable: true })
+  totalPages?: number;
+}
@@ -0,0 +1,31 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { Column, Entity, OneToMany } from 'typeorm';
+import { IsOptional, IsString } from 'class-validator';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { Restaurant } from './restaurant.entity';
+
+@InputType('CategoryInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+export class Category extends CoreEntity {
+  @Field(() => String)
+  @Column({ unique: true })
+  @IsString()
+  name: string;
+
+  @Field(() => String)
+  @Column({ unique: true })
+  @IsString()
+  slug: string;
+
+  @Field(() => String, { nullable: true })
+  @Column({ nullable: true })
+  @IsString()
+  @IsOptional()
+  coverImg?: string;
+
+  @Field(() => [Restaurant], { nullable: true })
+  @OneToMany(() => Restaurant, (restaurant) => restaurant.category)
+  restaurants: Restaurant[];
+}
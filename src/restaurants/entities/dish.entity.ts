@@ -0,0 +1,93 @@
+import { Field, Float, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { Column, Entity, ManyToOne, RelationId } from 'typeorm';
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { Restaurant } from './restaurant.entity';
+
+@InputType('DishChoiceInputType', { isAbstract: true })
+@ObjectType()
+export class DishChoice {
+  @Field(() => String)
+  @IsString()
+  name: string;
+
+  @Field(() => Number, { defaultValue: 0 })
+  @IsNumber()
+  @Min(0)
+  extra: number;
+}
+
+@InputType('DishOptionInputType', { isAbstract: true })
+@ObjectType()
+export class DishOption {
+  @Field(() => String)
+  @IsString()
+  name: string;
+
+  @Field(() => [DishChoice])
+  @ValidateNested({ each: true })
+  @Type(() => DishChoice)
+  choices: DishChoice[];
+}
+
+@InputType('DishInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+export class Dish extends CoreEntity {
+  @Field(() => String)
+  @Column()
+  @IsString()
+  name: string;
+
+  @Field(() => Number)
+  @Column({ type: 'double precision' })
+  @IsNumber()
+  @Min(0)
+  price: number;
+
+  @Field(() => String)
+  @Column()
+  @IsString()
+  description: string;
+
+  @Field(() => String, { nullable: true })
+  @Column({ nullable: true })
+  @IsString()
+  @IsOptional()
+  photo?: string;
+
+  // Options are kept as JSON on the dish; orders copy the chosen values
+  // so that later menu edits don't rewrite past orders.
+  @Field(() => [DishOption], { nullable: true })
+  @Column({ type: 'json', nullable: true })
+  @ValidateNested({ each: true })
+  @Type(() => DishOption)
+  @IsOptional()
+  options?: DishOption[];
+
+  // From the per-dish ratings of reviews, like `Restaurant.averageRating`.
+  @Field(() => Float)
+  @Column({ type: 'double precision', default: 0 })
+  averageRating: number;
+
+  @Field(() => Int)
+  @Column({ default: 0 })
+  reviewCount: number;
+
+  @Field(() => Restaurant)
+  @ManyToOne(() => Restaurant, (restaurant) => restaurant.menu, {
+    onDelete: 'CASCADE',
+  })
+  restaurant: Restaurant;
+
+  @RelationId((dish: Dish) => dish.restaurant)
+  restaurantId: number;
+}
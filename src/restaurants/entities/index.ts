@@ -0,0 +1,3 @@
+export * from './category.entity';
+export * from './dish.entity';
+export * from './restaurant.entity';
@@ -1,16 +1,28 @@
-import { Field, ObjectType } from '@nestjs/graphql';
-import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
-import { IsBoolean, IsOptional } from 'class-validator';
+import { Field, Float, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { Column, Entity, ManyToOne, OneToMany, RelationId } from 'typeorm';
+import {
+  IsBoolean,
+  IsLatitude,
+  IsLongitude,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
 
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Category } from './category.entity';
+import { Dish } from './dish.entity';
+
+@InputType('RestaurantInputType', { isAbstract: true })
 @ObjectType()
 @Entity()
-export class Restaurant {
-  @Field(() => Number)
-  @PrimaryGeneratedColumn()
-  id: number;
-
+export class Restaurant extends CoreEntity {
   @Field(() => String)
   @Column()
+  @IsString()
   name: string;
 
   @Field(() => Boolean, { nullable: true })
@@ -21,5 +33,76 @@ export class Restaurant {
 
   @Field(() => String)
   @Column()
+  @IsString()
   address: string;
+
+  // Filled in from the address by the geocoder unless given explicitly.
+  @Field(() => Float, { nullable: true })
+  @Column({ type: 'double precision', nullable: true })
+  @IsLatitude()
+  @IsOptional()
+  lat?: number;
+
+  @Field(() => Float, { nullable: true })
+  @Column({ type: 'double precision', nullable: true })
+  @IsLongitude()
+  @IsOptional()
+  lng?: number;
+
+  @Field(() => Float, { nullable: true })
+  @Column({ type: 'double precision', default: 5 })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  deliveryRadiusKm?: number;
+
+  // Opening hours in the server's local time. `closesAt` may be earlier
+  // than `opensAt` for restaurants that are open past midnight.
+  @Field(() => String, { nullable: true })
+  @Column({ type: 'time', nullable: true })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/)
+  @IsOptional()
+  opensAt?: string;
+
+  @Field(() => String, { nullable: true })
+  @Column({ type: 'time', nullable: true })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/)
+  @IsOptional()
+  closesAt?: string;
+
+  @Field(() => Boolean)
+  @Column({ default: false })
+  isPromoted: boolean;
+
+  @Field(() => Date, { nullable: true })
+  @Column({ nullable: true })
+  promotedUntil?: Date;
+
+  // Kept up to date as reviews come in; see `ReviewsService.createReview`.
+  @Field(() => Float)
+  @Column({ type: 'double precision', default: 0 })
+  averageRating: number;
+
+  @Field(() => Int)
+  @Column({ default: 0 })
+  reviewCount: number;
+
+  @Field(() => Category, { nullable: true })
+  @ManyToOne(() => Category, (category) => category.restaurants, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  category?: Category;
+
+  // Not a field: restaurants are public and the owner's account is not.
+  @ManyToOne(() => User, (user) => user.restaurants, { onDelete: 'CASCADE' })
+  owner: User;
+
+  @Field(() => Number)
+  @RelationId((restaurant: Restaurant) => restaurant.owner)
+  ownerId: number;
+
+  @Field(() => [Dish], { nullable: true })
+  @OneToMany(() => Dish, (dish) => dish.restaurant)
+  menu: Dish[];
 }
@@ -0,0 +1,2 @@
+export const SEARCH_RESULTS_PER_PAGE = 20;
+export const NEARBY_RESULTS_PER_PAGE = 20;
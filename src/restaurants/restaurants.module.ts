@@ -1,11 +1,20 @@
 import { Module } from '@nestjs/common';
-import { RestaurantsResolver } from './restaurants.resolver';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { Restaurant } from './entities/restaurant.entity';
+
+import { RestaurantsResolver } from './restaurants.resolver';
+import { CategoriesResolver } from './categories.resolver';
+import { DishesResolver } from './dishes.resolver';
 import { RestaurantService } from './restaurants.service';
+import { Category, Dish, Restaurant } from './entities';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Restaurant])],
-  providers: [RestaurantsResolver, RestaurantService],
+  imports: [TypeOrmModule.forFeature([Restaurant, Category, Dish])],
+  providers: [
+    RestaurantsResolver,
+    CategoriesResolver,
+    DishesResolver,
+    RestaurantService,
+  ],
+  exports: [RestaurantService],
 })
 export class RestaurantsModule {}
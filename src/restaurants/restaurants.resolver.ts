@@ -1,37 +1,100 @@
 import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
-import { Restaurant } from './entities/restaurant.entity';
-import { CreateRestaurantDto } from './dtos/create-restaurant.dto';
+
+import { Restaurant } from './entities';
 import { RestaurantService } from './restaurants.service';
-import { UpdateRestaurantDto } from './dtos/update-restaurant.dto';
+import {
+  CreateRestaurantInput,
+  CreateRestaurantOutput,
+  DeleteRestaurantInput,
+  DeleteRestaurantOutput,
+  EditRestaurantInput,
+  EditRestaurantOutput,
+  MyRestaurantsInput,
+  MyRestaurantsOutput,
+  NearbyRestaurantsInput,
+  NearbyRestaurantsOutput,
+  RestaurantInput,
+  RestaurantOutput,
+  RestaurantsInput,
+  RestaurantsOutput,
+  SearchRestaurantsInput,
+  SearchRestaurantsOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { AuthUser } from '../auth/auth-user.decorator';
+import { Role } from '../auth/role.decorator';
 
 @Resolver(() => Restaurant)
 export class RestaurantsResolver {
   constructor(private readonly restaurantService: RestaurantService) {}
 
-  @Query(() => [Restaurant])
-  restaurants(): Promise<Restaurant[]> {
-    return this.restaurantService.getAll();
-  }
-
-  @Mutation(() => Boolean)
-  async createRestaurant(@Args('input') createRestaurantDto: CreateRestaurantDto): Promise<boolean> {
-    try {
-      await this.restaurantService.createRestaurant(createRestaurantDto);
-      return true;
-    } catch (error) {
-      console.log(error);
-      return false;
-    }
-  }
-
-  @Mutation(() => Boolean)
-  async updateRestaurant(@Args('input') updateRestaurantDto: UpdateRestaurantDto): Promise<boolean> {
-    try {
-      await this.restaurantService.updateRestaurant(updateRestaurantDto);
-      return true;
-    } catch (error) {
-      console.log(error);
-      return false;
-    }
+  @Query(() => RestaurantsOutput)
+  restaurants(
+    @Args() restaurantsInput: RestaurantsInput,
+  ): Promise<RestaurantsOutput> {
+    return this.restaurantService.getAll(restaurantsInput);
+  }
+
+  @Query(() => SearchRestaurantsOutput)
+  searchRestaurants(
+    @Args() searchRestaurantsInput: SearchRestaurantsInput,
+  ): Promise<SearchRestaurantsOutput> {
+    return this.restaurantService.searchRestaurants(searchRestaurantsInput);
+  }
+
+  @Query(() => NearbyRestaurantsOutput)
+  nearbyRestaurants(
+    @Args() nearbyRestaurantsInput: NearbyRestaurantsInput,
+  ): Promise<NearbyRestaurantsOutput> {
+    return this.restaurantService.nearbyRestaurants(nearbyRestaurantsInput);
+  }
+
+  @Query(() => RestaurantOutput)
+  restaurant(
+    @Args() restaurantInput: RestaurantInput,
+  ): Promise<RestaurantOutput> {
+    return this.restaurantService.findById(restaurantInput);
+  }
+
+  @Query(() => MyRestaurantsOutput)
+  @Role('Owner')
+  myRestaurants(
+    @AuthUser() owner: User,
+    @Args() myRestaurantsInput: MyRestaurantsInput,
+  ): Promise<MyRestaurantsOutput> {
+    return this.restaurantService.myRestaurants(owner, myRestaurantsInput);
+  }
+
+  @Mutation(() => CreateRestaurantOutput)
+  @Role('Owner')
+  createRestaurant(
+    @AuthUser() owner: User,
+    @Args('input') createRestaurantInput: CreateRestaurantInput,
+  ): Promise<CreateRestaurantOutput> {
+    return this.restaurantService.createRestaurant(
+      owner,
+      createRestaurantInput,
+    );
+  }
+
+  @Mutation(() => EditRestaurantOutput)
+  @Role('Owner')
+  editRestaurant(
+    @AuthUser() owner: User,
+    @Args('input') editRestaurantInput: EditRestaurantInput,
+  ): Promise<EditRestaurantOutput> {
+    return this.restaurantService.editRestaurant(owner, editRestaurantInput);
+  }
+
+  @Mutation(() => DeleteRestaurantOutput)
+  @Role('Owner')
+  deleteRestaurant(
+    @AuthUser() owner: User,
+    @Args('input') deleteRestaurantInput: DeleteRestaurantInput,
+  ): Promise<DeleteRestaurantOutput> {
+    return this.restaurantService.deleteRestaurant(
+      owner,
+      deleteRestaurantInput,
+    );
   }
 }
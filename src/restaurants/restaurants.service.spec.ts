@@ -0,0 +1,615 @@
+import { Logger } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator, Repository } from 'typeorm';
+
+import { Category, Dish, Restaurant } from './entities';
+import { RestaurantService, toPrefixTsQuery } from './restaurants.service';
+import { User } from '../users/entities';
+import { paginate } from '../common/common.pagination';
+import { GEOCODER } from '../common/common.constants';
+
+jest.mock('../common/common.pagination', () => ({
+  paginate: jest.fn(),
+}));
+
+const mockRepository = () => ({
+  find: jest.fn(),
+  findOne: jest.fn(),
+  count: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn(),
+  delete: jest.fn(),
+  update: jest.fn(),
+  query: jest.fn(),
+  createQueryBuilder: jest.fn(),
+});
+
+const mockQueryBuilder = () => ({
+  leftJoinAndSelect: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  addSelect: jest.fn().mockReturnThis(),
+  orderBy: jest.fn().mockReturnThis(),
+  addOrderBy: jest.fn().mockReturnThis(),
+  offset: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  getCount: jest.fn(),
+  getRawAndEntities: jest.fn(),
+});
+
+const mockGeocoder = () => ({
+  geocode: jest.fn(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+describe('RestaurantService', () => {
+  let restaurantsRepository: MockRepository<Restaurant>;
+  let categoriesRepository: MockRepository<Category>;
+  let dishesRepository: MockRepository<Dish>;
+  let geocoder: ReturnType<typeof mockGeocoder>;
+  let service: RestaurantService;
+
+  const owner = { id: 1 } as User;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        RestaurantService,
+        {
+          provide: getRepositoryToken(Restaurant),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Category),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Dish),
+          useValue: mockRepository(),
+        },
+        {
+          provide: GEOCODER,
+          useValue: mockGeocoder(),
+        },
+      ],
+    }).compile();
+
+    restaurantsRepository = module.get(getRepositoryToken(Restaurant));
+    categoriesRepository = module.get(getRepositoryToken(Category));
+    dishesRepository = module.get(getRepositoryToken(Dish));
+    geocoder = module.get(GEOCODER);
+    service = module.get<RestaurantService>(RestaurantService);
+  });
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  describe('onModuleInit', () => {
+    it('should install the unaccent extension', async () => {
+      await service.onModuleInit();
+
+      expect(restaurantsRepository.query).toHaveBeenCalledWith(
+        'CREATE EXTENSION IF NOT EXISTS unaccent',
+      );
+    });
+
+    it('should fail startup without the extension', async () => {
+      const error = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+      restaurantsRepository.query.mockRejectedValue(new Error('denied'));
+
+      await expect(service.onModuleInit()).rejects.toThrow('denied');
+      expect(error).toHaveBeenCalledWith(
+        'Could not install the unaccent extension search needs.',
+        expect.any(String),
+      );
+      error.mockRestore();
+    });
+  });
+
+  describe('createRestaurant', () => {
+    const createRestaurantArgs = {
+      name: 'name',
+      address: 'address',
+      isVegan: false,
+      categoryName: 'Korean BBQ',
+    };
+    const category = { id: 3, slug: 'korean-bbq' };
+    const coordinates = { lat: 50.45, lng: 30.52 };
+
+    it('should fail if the address cannot be located', async () => {
+      geocoder.geocode.mockResolvedValue(undefined);
+      const result = await service.createRestaurant(
+        owner,
+        createRestaurantArgs,
+      );
+
+      expect(geocoder.geocode).toHaveBeenCalledWith('address');
+      expect(restaurantsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not locate this address.',
+      });
+    });
+
+    it('should create a restaurant owned by the user', async () => {
+      geocoder.geocode.mockResolvedValue(coordinates);
+      restaurantsRepository.create.mockReturnValue({ ...createRestaurantArgs });
+      restaurantsRepository.save.mockResolvedValue({ id: 2 });
+      categoriesRepository.findOne.mockResolvedValue(category);
+
+      const result = await service.createRestaurant(
+        owner,
+        createRestaurantArgs,
+      );
+
+      expect(restaurantsRepository.create).toHaveBeenCalledWith({
+        ...createRestaurantArgs,
+        ...coordinates,
+      });
+      expect(categoriesRepository.findOne).toHaveBeenCalledWith({
+        slug: 'korean-bbq',
+      });
+      expect(restaurantsRepository.save).toHaveBeenCalledWith({
+        ...createRestaurantArgs,
+        owner,
+        category,
+      });
+      expect(result).toEqual({ ok: true, restaurantId: 2 });
+    });
+
+    it('should fail on exception', async () => {
+      geocoder.geocode.mockResolvedValue(coordinates);
+      restaurantsRepository.create.mockImplementation(() => {
+        throw new Error();
+      });
+      const result = await service.createRestaurant(
+        owner,
+        createRestaurantArgs,
+      );
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not create restaurant.',
+      });
+    });
+  });
+
+  describe('editRestaurant', () => {
+    it('should fail if restaurant does not exist', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.editRestaurant(owner, {
+        restaurantId: 2,
+        name: 'new',
+      });
+
+      expect(result).toEqual({ ok: false, error: 'Restaurant not found.' });
+    });
+
+    it('should fail if user is not the owner', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({ id: 2, ownerId: 42 });
+      const result = await service.editRestaurant(owner, {
+        restaurantId: 2,
+        name: 'new',
+      });
+
+      expect(restaurantsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: "You don't own this restaurant.",
+      });
+    });
+
+    it('should edit the restaurant', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({
+        id: 2,
+        ownerId: owner.id,
+      });
+      const result = await service.editRestaurant(owner, {
+        restaurantId: 2,
+        name: 'new',
+      });
+
+      expect(geocoder.geocode).not.toHaveBeenCalled();
+      expect(restaurantsRepository.save).toHaveBeenCalledWith({
+        id: 2,
+        name: 'new',
+      });
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should relocate the restaurant when the address changes', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({
+        id: 2,
+        ownerId: owner.id,
+      });
+      geocoder.geocode.mockResolvedValue({ lat: 1, lng: 2 });
+      const result = await service.editRestaurant(owner, {
+        restaurantId: 2,
+        address: 'new',
+      });
+
+      expect(restaurantsRepository.save).toHaveBeenCalledWith({
+        id: 2,
+        address: 'new',
+        lat: 1,
+        lng: 2,
+      });
+      expect(result).toEqual({ ok: true });
+    });
+  });
+
+  describe('deleteRestaurant', () => {
+    it('should fail if user is not the owner', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({ id: 2, ownerId: 42 });
+      const result = await service.deleteRestaurant(owner, { restaurantId: 2 });
+
+      expect(restaurantsRepository.delete).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: "You don't own this restaurant.",
+      });
+    });
+
+    it('should delete the restaurant', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({
+        id: 2,
+        ownerId: owner.id,
+      });
+      const result = await service.deleteRestaurant(owner, { restaurantId: 2 });
+
+      expect(restaurantsRepository.delete).toHaveBeenCalledWith(2);
+      expect(result).toEqual({ ok: true });
+    });
+  });
+
+  describe('expirePromotions', () => {
+    it('should unset promotions that ran out', async () => {
+      restaurantsRepository.update.mockResolvedValue({ affected: 3 });
+      const result = await service.expirePromotions(new Date('2021-09-01'));
+
+      expect(restaurantsRepository.update).toHaveBeenCalledWith(
+        { isPromoted: true, promotedUntil: expect.any(FindOperator) },
+        { isPromoted: false },
+      );
+      expect(result).toEqual(3);
+    });
+  });
+
+  describe('findById', () => {
+    it('should fail if restaurant does not exist', async () => {
+      restaurantsRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.findById({ restaurantId: 2 });
+
+      expect(result).toEqual({ ok: false, error: 'Restaurant not found.' });
+    });
+
+    it('should return the restaurant', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({ id: 2 });
+      const result = await service.findById({ restaurantId: 2 });
+
+      expect(result).toEqual({ ok: true, restaurant: { id: 2 } });
+    });
+  });
+
+  describe('getOrCreateCategory', () => {
+    it('should return an existing category', async () => {
+      categoriesRepository.findOne.mockResolvedValue({ id: 3 });
+      const result = await service.getOrCreateCategory(' Fast Food ');
+
+      expect(categoriesRepository.findOne).toHaveBeenCalledWith({
+        slug: 'fast-food',
+      });
+      expect(categoriesRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({ id: 3 });
+    });
+
+    it('should create a missing category', async () => {
+      const newCategory = { slug: 'fast-food', name: 'fast food' };
+      categoriesRepository.findOne.mockResolvedValue(undefined);
+      categoriesRepository.create.mockReturnValue(newCategory);
+      categoriesRepository.save.mockResolvedValue({ id: 3, ...newCategory });
+
+      const result = await service.getOrCreateCategory('Fast Food');
+
+      expect(categoriesRepository.create).toHaveBeenCalledWith(newCategory);
+      expect(result).toEqual({ id: 3, ...newCategory });
+    });
+  });
+
+  describe('getAll', () => {
+    it('should return a page of restaurants, promoted first', async () => {
+      const query = mockQueryBuilder();
+      const connection = { edges: [], pageInfo: {}, totalCount: 0 };
+      restaurantsRepository.createQueryBuilder.mockReturnValue(query);
+      (paginate as jest.Mock).mockResolvedValue(connection);
+
+      const result = await service.getAll({ first: 10 });
+
+      expect(paginate).toHaveBeenCalledWith(
+        query,
+        { first: 10 },
+        { pinnedBy: 'isPromoted' },
+      );
+      expect(result).toEqual({ ok: true, ...connection });
+    });
+
+    it('should fail on exception', async () => {
+      restaurantsRepository.createQueryBuilder.mockReturnValue(
+        mockQueryBuilder(),
+      );
+      (paginate as jest.Mock).mockRejectedValue(new Error());
+
+      const result = await service.getAll({ first: 10, after: 'bad' });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not load restaurants.',
+      });
+    });
+  });
+
+  describe('toPrefixTsQuery', () => {
+    it('should build a prefix query from free text', () => {
+      expect(toPrefixTsQuery(' Café  pizz! ')).toEqual('Café:* & pizz:*');
+    });
+
+    it('should drop tsquery operators', () => {
+      expect(toPrefixTsQuery("a & b | !c ('d'):*")).toEqual(
+        'a:* & b:* & c:* & d:*',
+      );
+    });
+  });
+
+  describe('searchRestaurants', () => {
+    it('should return nothing for a query without words', async () => {
+      const result = await service.searchRestaurants({ query: '&&', page: 1 });
+
+      expect(restaurantsRepository.createQueryBuilder).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: true,
+        results: [],
+        totalCount: 0,
+        totalPages: 0,
+      });
+    });
+
+    it('should return ranked and highlighted results', async () => {
+      const query = mockQueryBuilder();
+      restaurantsRepository.createQueryBuilder.mockReturnValue(query);
+      query.getCount.mockResolvedValue(21);
+      query.getRawAndEntities.mockResolvedValue({
+        entities: [{ id: 2 }, { id: 1 }],
+        raw: [
+          { restaurant_id: 1, rank: 0.1, highlight: 'b' },
+          { restaurant_id: 2, rank: 0.5, highlight: 'a' },
+        ],
+      });
+
+      const result = await service.searchRestaurants({
+        query: 'pizz',
+        filters: { isVegan: false, categorySlug: 'pizza', openNow: true },
+        page: 2,
+      });
+
+      expect(query.where).toHaveBeenCalledWith(expect.any(String), {
+        tsQuery: 'pizz:*',
+      });
+      expect(query.andWhere).toHaveBeenCalledWith(
+        'restaurant.isVegan = :isVegan',
+        { isVegan: false },
+      );
+      expect(query.andWhere).toHaveBeenCalledWith(
+        'category.slug = :categorySlug',
+        { categorySlug: 'pizza' },
+      );
+      expect(query.andWhere).toHaveBeenCalledTimes(3);
+      expect(query.addSelect).toHaveBeenCalledWith(
+        expect.stringContaining("'<', '&lt;'"),
+        'highlight',
+      );
+      expect(query.offset).toHaveBeenCalledWith(20);
+      expect(query.limit).toHaveBeenCalledWith(20);
+      expect(result).toEqual({
+        ok: true,
+        results: [
+          { restaurant: { id: 2 }, rank: 0.5, highlight: 'a' },
+          { restaurant: { id: 1 }, rank: 0.1, highlight: 'b' },
+        ],
+        totalCount: 21,
+        totalPages: 2,
+      });
+    });
+
+    it('should fail on exception', async () => {
+      const query = mockQueryBuilder();
+      restaurantsRepository.createQueryBuilder.mockReturnValue(query);
+      query.getCount.mockRejectedValue(new Error());
+
+      const result = await service.searchRestaurants({ query: 'x', page: 1 });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not search restaurants.',
+      });
+    });
+  });
+
+  describe('nearbyRestaurants', () => {
+    it('should return restaurants sorted by distance', async () => {
+      const query = mockQueryBuilder();
+      restaurantsRepository.createQueryBuilder.mockReturnValue(query);
+      query.getCount.mockResolvedValue(2);
+      query.getRawAndEntities.mockResolvedValue({
+        entities: [{ id: 2 }, { id: 1 }],
+        raw: [
+          { restaurant_id: 1, distance: 3.5 },
+          { restaurant_id: 2, distance: 0.5 },
+        ],
+      });
+
+      const result = await service.nearbyRestaurants({
+        lat: 50.45,
+        lng: 30.52,
+        radiusKm: 5,
+        page: 1,
+      });
+
+      expect(query.andWhere).toHaveBeenCalledWith(expect.any(String), {
+        lat: 50.45,
+        lng: 30.52,
+        radiusKm: 5,
+      });
+      expect(query.orderBy).toHaveBeenCalledWith('distance', 'ASC');
+      expect(result).toEqual({
+        ok: true,
+        results: [
+          { restaurant: { id: 2 }, distanceKm: 0.5 },
+          { restaurant: { id: 1 }, distanceKm: 3.5 },
+        ],
+        totalCount: 2,
+        totalPages: 1,
+      });
+    });
+
+    it('should fail on exception', async () => {
+      const query = mockQueryBuilder();
+      restaurantsRepository.createQueryBuilder.mockReturnValue(query);
+      query.getCount.mockRejectedValue(new Error());
+
+      const result = await service.nearbyRestaurants({
+        lat: 0,
+        lng: 0,
+        radiusKm: 5,
+        page: 1,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not load nearby restaurants.',
+      });
+    });
+  });
+
+  describe('findCategoryBySlug', () => {
+    it('should fail if category does not exist', async () => {
+      categoriesRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.findCategoryBySlug({ slug: 'x', first: 10 });
+
+      expect(result).toEqual({ ok: false, error: 'Category not found.' });
+    });
+
+    it('should return a page of restaurants, promoted first', async () => {
+      const category = { id: 3 };
+      const query = mockQueryBuilder();
+      const connection = { edges: [], pageInfo: {}, totalCount: 0 };
+      categoriesRepository.findOne.mockResolvedValue(category);
+      restaurantsRepository.createQueryBuilder.mockReturnValue(query);
+      (paginate as jest.Mock).mockResolvedValue(connection);
+
+      const result = await service.findCategoryBySlug({
+        slug: 'x',
+        first: 10,
+        after: 'cursor',
+      });
+
+      expect(query.where).toHaveBeenCalledWith(
+        'restaurant.category = :categoryId',
+        { categoryId: 3 },
+      );
+      expect(paginate).toHaveBeenCalledWith(
+        query,
+        { first: 10, after: 'cursor' },
+        { pinnedBy: 'isPromoted' },
+      );
+      expect(result).toEqual({ ok: true, category, ...connection });
+    });
+  });
+
+  describe('createDish', () => {
+    const createDishArgs = {
+      restaurantId: 2,
+      name: 'name',
+      price: 10,
+      description: 'description',
+      options: [{ name: 'Size', choices: [{ name: 'L', extra: 2 }] }],
+    };
+
+    it('should fail if user is not the owner', async () => {
+      restaurantsRepository.findOne.mockResolvedValue({ id: 2, ownerId: 42 });
+      const result = await service.createDish(owner, createDishArgs);
+
+      expect(dishesRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: "You don't own this restaurant.",
+      });
+    });
+
+    it('should create a dish', async () => {
+      const restaurant = { id: 2, ownerId: owner.id };
+      const { restaurantId, ...data } = createDishArgs;
+      restaurantsRepository.findOne.mockResolvedValue(restaurant);
+      dishesRepository.create.mockReturnValue({ ...data, restaurant });
+      dishesRepository.save.mockResolvedValue({ id: 5 });
+
+      const result = await service.createDish(owner, createDishArgs);
+
+      expect(restaurantsRepository.findOne).toHaveBeenCalledWith(restaurantId);
+      expect(dishesRepository.create).toHaveBeenCalledWith({
+        ...data,
+        restaurant,
+      });
+      expect(result).toEqual({ ok: true, dishId: 5 });
+    });
+  });
+
+  describe('editDish', () => {
+    it('should fail if dish does not exist', async () => {
+      dishesRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.editDish(owner, { dishId: 5, price: 1 });
+
+      expect(result).toEqual({ ok: false, error: 'Dish not found.' });
+    });
+
+    it('should fail if user does not own the restaurant', async () => {
+      dishesRepository.findOne.mockResolvedValue({ id: 5, restaurantId: 2 });
+      restaurantsRepository.findOne.mockResolvedValue({ id: 2, ownerId: 42 });
+      const result = await service.editDish(owner, { dishId: 5, price: 1 });
+
+      expect(dishesRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: "You don't own this restaurant.",
+      });
+    });
+
+    it('should edit the dish', async () => {
+      dishesRepository.findOne.mockResolvedValue({ id: 5, restaurantId: 2 });
+      restaurantsRepository.findOne.mockResolvedValue({
+        id: 2,
+        ownerId: owner.id,
+      });
+      const result = await service.editDish(owner, { dishId: 5, price: 1 });
+
+      expect(dishesRepository.save).toHaveBeenCalledWith({ id: 5, price: 1 });
+      expect(result).toEqual({ ok: true });
+    });
+  });
+
+  describe('deleteDish', () => {
+    it('should delete the dish', async () => {
+      dishesRepository.findOne.mockResolvedValue({ id: 5, restaurantId: 2 });
+      restaurantsRepository.findOne.mockResolvedValue({
+        id: 2,
+        ownerId: owner.id,
+      });
+      const result = await service.deleteDish(owner, { dishId: 5 });
+
+      expect(dishesRepository.delete).toHaveBeenCalledWith(5);
+      expect(result).toEqual({ ok: true });
+    });
+  });
+});
@@ -1,27 +1,525 @@
-import { Injectable } from '@nestjs/common';
-import { Restaurant } from './entities/restaurant.entity';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { CreateRestaurantDto } from './dtos/create-restaurant.dto';
-import { UpdateRestaurantDto } from './dtos/update-restaurant.dto';
+import { LessThan, Repository } from 'typeorm';
+
+import { Category, Dish, Restaurant } from './entities';
+import { User } from '../users/entities';
+import {
+  AllCategoriesInput,
+  AllCategoriesOutput,
+  CategoryInput,
+  CategoryOutput,
+  CreateDishInput,
+  CreateDishOutput,
+  CreateRestaurantInput,
+  CreateRestaurantOutput,
+  DeleteDishInput,
+  DeleteDishOutput,
+  DeleteRestaurantInput,
+  DeleteRestaurantOutput,
+  DishesInput,
+  DishesOutput,
+  EditDishInput,
+  EditDishOutput,
+  EditRestaurantInput,
+  EditRestaurantOutput,
+  MyRestaurantsInput,
+  MyRestaurantsOutput,
+  NearbyRestaurantsInput,
+  NearbyRestaurantsOutput,
+  RestaurantInput,
+  RestaurantOutput,
+  RestaurantsInput,
+  RestaurantsOutput,
+  SearchRestaurantsInput,
+  SearchRestaurantsOutput,
+} from './dtos';
+import { paginate } from '../common/common.pagination';
+import {
+  NEARBY_RESULTS_PER_PAGE,
+  SEARCH_RESULTS_PER_PAGE,
+} from './restaurants.constants';
+import { GEOCODER } from '../common/common.constants';
+import { Coordinates, EARTH_RADIUS_KM, Geocoder, locate } from '../geo';
+
+const MENU_TEXT = `(SELECT string_agg(dish.name, ' ') FROM dish WHERE dish."restaurantId" = restaurant.id)`;
+
+const SEARCH_DOCUMENT = `(
+  setweight(to_tsvector('simple', unaccent(restaurant.name)), 'A') ||
+  setweight(to_tsvector('simple', unaccent(coalesce(category.name, ''))), 'B') ||
+  setweight(to_tsvector('simple', unaccent(coalesce(${MENU_TEXT}, ''))), 'B') ||
+  setweight(to_tsvector('simple', unaccent(restaurant.address)), 'C')
+)`;
+
+const SEARCH_TEXT = `unaccent(concat_ws(' · ', restaurant.name, category.name, ${MENU_TEXT}, restaurant.address))`;
+
+// Owners write this text, so escape it before ts_headline adds its own <b>
+// tags. The parser keeps entities as single tokens, so they're never split.
+const HIGHLIGHT_TEXT = `replace(replace(replace(${SEARCH_TEXT}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+
+const SEARCH_QUERY = `to_tsquery('simple', unaccent(:tsQuery))`;
+
+const OPEN_NOW = `(
+  restaurant.opensAt <= restaurant.closesAt AND
+  LOCALTIME >= restaurant.opensAt AND LOCALTIME < restaurant.closesAt
+) OR (
+  restaurant.opensAt > restaurant.closesAt AND
+  (LOCALTIME >= restaurant.opensAt OR LOCALTIME < restaurant.closesAt)
+)`;
+
+// Haversine distance from (:lat, :lng), kept in step with distanceKm().
+const DISTANCE_KM = `(
+  2 * ${EARTH_RADIUS_KM} * asin(least(1, sqrt(
+    sin(radians(restaurant.lat - :lat) / 2) ^ 2 +
+    cos(radians(:lat)) * cos(radians(restaurant.lat)) *
+    sin(radians(restaurant.lng - :lng) / 2) ^ 2
+  )))
+)`;
+
+/**
+ * Turns free text into a prefix-matching tsquery, so "pizz nap" finds
+ * "Pizzeria Napoli". Anything that isn't a letter or digit is dropped.
+ */
+export const toPrefixTsQuery = (query: string): string =>
+  query
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((term) => `${term}:*`)
+    .join(' & ');
+
+interface OwnedRestaurantResult {
+  restaurant?: Restaurant;
+  error?: string;
+}
 
 @Injectable()
-export class RestaurantService {
+export class RestaurantService implements OnModuleInit {
+  private readonly logger = new Logger(RestaurantService.name);
+
   constructor(
     @InjectRepository(Restaurant)
     private readonly restaurants: Repository<Restaurant>,
+    @InjectRepository(Category)
+    private readonly categories: Repository<Category>,
+    @InjectRepository(Dish)
+    private readonly dishes: Repository<Dish>,
+    @Inject(GEOCODER) private readonly geocoder: Geocoder,
   ) {}
 
-  getAll(): Promise<Restaurant[]> {
-    return this.restaurants.find();
+  async onModuleInit(): Promise<void> {
+    // Search relies on unaccent(), which synchronize doesn't install, and
+    // fails on every query without it, so don't start without it either.
+    try {
+      await this.restaurants.query('CREATE EXTENSION IF NOT EXISTS unaccent');
+    } catch (error) {
+      this.logger.error(
+        'Could not install the unaccent extension search needs.',
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  async getAll(restaurantsInput: RestaurantsInput): Promise<RestaurantsOutput> {
+    try {
+      const connection = await paginate(
+        this.restaurants.createQueryBuilder('restaurant'),
+        restaurantsInput,
+        { pinnedBy: 'isPromoted' },
+      );
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load restaurants.' };
+    }
+  }
+
+  async findOwnedRestaurant(
+    owner: User,
+    restaurantId: number,
+  ): Promise<OwnedRestaurantResult> {
+    const restaurant = await this.restaurants.findOne(restaurantId);
+    if (!restaurant) {
+      return { error: 'Restaurant not found.' };
+    }
+
+    if (restaurant.ownerId !== owner.id) {
+      return { error: "You don't own this restaurant." };
+    }
+
+    return { restaurant };
+  }
+
+  async getOrCreateCategory(name: string): Promise<Category> {
+    const categoryName = name.trim().toLowerCase();
+    const slug = categoryName.replace(/\s+/g, '-');
+
+    const category = await this.categories.findOne({ slug });
+    if (category) {
+      return category;
+    }
+
+    return this.categories.save(
+      this.categories.create({ slug, name: categoryName }),
+    );
+  }
+
+  async createRestaurant(
+    owner: User,
+    createRestaurantInput: CreateRestaurantInput,
+  ): Promise<CreateRestaurantOutput> {
+    try {
+      const coordinates = await locate(this.geocoder, createRestaurantInput);
+      if (!coordinates) {
+        return { ok: false, error: 'Could not locate this address.' };
+      }
+
+      const restaurant = this.restaurants.create({
+        ...createRestaurantInput,
+        ...coordinates,
+      });
+      restaurant.owner = owner;
+      restaurant.category = await this.getOrCreateCategory(
+        createRestaurantInput.categoryName,
+      );
+      const { id } = await this.restaurants.save(restaurant);
+
+      return { ok: true, restaurantId: id };
+    } catch (error) {
+      return { ok: false, error: 'Could not create restaurant.' };
+    }
+  }
+
+  async editRestaurant(
+    owner: User,
+    { restaurantId, categoryName, ...data }: EditRestaurantInput,
+  ): Promise<EditRestaurantOutput> {
+    try {
+      const { error } = await this.findOwnedRestaurant(owner, restaurantId);
+      if (error) {
+        return { ok: false, error };
+      }
+
+      let coordinates: Coordinates | undefined;
+      if (data.address || data.lat !== undefined || data.lng !== undefined) {
+        coordinates = await locate(this.geocoder, data);
+        if (!coordinates) {
+          return { ok: false, error: 'Could not locate this address.' };
+        }
+      }
+
+      const category = categoryName
+        ? await this.getOrCreateCategory(categoryName)
+        : undefined;
+
+      await this.restaurants.save({
+        id: restaurantId,
+        ...data,
+        ...coordinates,
+        ...(category && { category }),
+      });
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not edit restaurant.' };
+    }
+  }
+
+  async deleteRestaurant(
+    owner: User,
+    { restaurantId }: DeleteRestaurantInput,
+  ): Promise<DeleteRestaurantOutput> {
+    try {
+      const { error } = await this.findOwnedRestaurant(owner, restaurantId);
+      if (error) {
+        return { ok: false, error };
+      }
+
+      await this.restaurants.delete(restaurantId);
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not delete restaurant.' };
+    }
+  }
+
+  /** Ends promotions that ran out before `now`. */
+  async expirePromotions(now: Date): Promise<number> {
+    const { affected } = await this.restaurants.update(
+      { isPromoted: true, promotedUntil: LessThan(now) },
+      { isPromoted: false },
+    );
+
+    return affected ?? 0;
   }
 
-  createRestaurant(createRestaurantDto: CreateRestaurantDto): Promise<Restaurant> {
-    const newRestaurant = this.restaurants.create(createRestaurantDto);
-    return this.restaurants.save(newRestaurant);
+  async myRestaurants(
+    owner: User,
+    myRestaurantsInput: MyRestaurantsInput,
+  ): Promise<MyRestaurantsOutput> {
+    try {
+      const connection = await paginate(
+        this.restaurants
+          .createQueryBuilder('restaurant')
+          .where('restaurant.owner = :ownerId', { ownerId: owner.id }),
+        myRestaurantsInput,
+      );
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load restaurants.' };
+    }
+  }
+
+  async findById({ restaurantId }: RestaurantInput): Promise<RestaurantOutput> {
+    try {
+      const restaurant = await this.restaurants.findOne(restaurantId, {
+        relations: ['menu'],
+      });
+      if (!restaurant) {
+        return { ok: false, error: 'Restaurant not found.' };
+      }
+
+      return { ok: true, restaurant };
+    } catch (error) {
+      return { ok: false, error: 'Could not load restaurant.' };
+    }
+  }
+
+  async allCategories(
+    allCategoriesInput: AllCategoriesInput,
+  ): Promise<AllCategoriesOutput> {
+    try {
+      const connection = await paginate(
+        this.categories.createQueryBuilder('category'),
+        allCategoriesInput,
+      );
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load categories.' };
+    }
+  }
+
+  countRestaurants(category: Category): Promise<number> {
+    return this.restaurants.count({ category });
+  }
+
+  async findCategoryBySlug({
+    slug,
+    ...connectionArgs
+  }: CategoryInput): Promise<CategoryOutput> {
+    try {
+      const category = await this.categories.findOne({ slug });
+      if (!category) {
+        return { ok: false, error: 'Category not found.' };
+      }
+
+      const connection = await paginate(
+        this.restaurants
+          .createQueryBuilder('restaurant')
+          .where('restaurant.category = :categoryId', {
+            categoryId: category.id,
+          }),
+        connectionArgs,
+        { pinnedBy: 'isPromoted' },
+      );
+
+      return { ok: true, category, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load category.' };
+    }
+  }
+
+  async searchRestaurants({
+    query,
+    filters = {},
+    page,
+  }: SearchRestaurantsInput): Promise<SearchRestaurantsOutput> {
+    try {
+      const tsQuery = toPrefixTsQuery(query);
+      if (!tsQuery) {
+        return { ok: true, results: [], totalCount: 0, totalPages: 0 };
+      }
+
+      const search = this.restaurants
+        .createQueryBuilder('restaurant')
+        .leftJoinAndSelect('restaurant.category', 'category')
+        .where(`${SEARCH_DOCUMENT} @@ ${SEARCH_QUERY}`, { tsQuery });
+
+      if (typeof filters.isVegan === 'boolean') {
+        search.andWhere('restaurant.isVegan = :isVegan', {
+          isVegan: filters.isVegan,
+        });
+      }
+      if (filters.categorySlug) {
+        search.andWhere('category.slug = :categorySlug', {
+          categorySlug: filters.categorySlug,
+        });
+      }
+      if (filters.openNow) {
+        search.andWhere(`(${OPEN_NOW})`);
+      }
+
+      const totalCount = await search.getCount();
+      const { entities, raw } = await search
+        .addSelect(`ts_rank(${SEARCH_DOCUMENT}, ${SEARCH_QUERY})`, 'rank')
+        .addSelect(
+          `ts_headline('simple', ${HIGHLIGHT_TEXT}, ${SEARCH_QUERY}, 'StartSel=<b>, StopSel=</b>')`,
+          'highlight',
+        )
+        .orderBy('rank', 'DESC')
+        .addOrderBy('restaurant.id', 'DESC')
+        .offset((page - 1) * SEARCH_RESULTS_PER_PAGE)
+        .limit(SEARCH_RESULTS_PER_PAGE)
+        .getRawAndEntities();
+
+      const results = entities.map((restaurant) => {
+        const { rank, highlight } = raw.find(
+          (row) => row.restaurant_id === restaurant.id,
+        );
+        return { restaurant, rank, highlight };
+      });
+
+      return {
+        ok: true,
+        results,
+        totalCount,
+        totalPages: Math.ceil(totalCount / SEARCH_RESULTS_PER_PAGE),
+      };
+    } catch (error) {
+      return { ok: false, error: 'Could not search restaurants.' };
+    }
   }
 
-  updateRestaurant({ id, data }: UpdateRestaurantDto) {
-    return this.restaurants.update(id, { ...data });
+  async nearbyRestaurants({
+    lat,
+    lng,
+    radiusKm,
+    page,
+  }: NearbyRestaurantsInput): Promise<NearbyRestaurantsOutput> {
+    try {
+      const nearby = this.restaurants
+        .createQueryBuilder('restaurant')
+        .where('restaurant.lat IS NOT NULL AND restaurant.lng IS NOT NULL')
+        .andWhere(`${DISTANCE_KM} <= :radiusKm`, { lat, lng, radiusKm });
+
+      const totalCount = await nearby.getCount();
+      const { entities, raw } = await nearby
+        .addSelect(DISTANCE_KM, 'distance')
+        .orderBy('distance', 'ASC')
+        .addOrderBy('restaurant.id', 'DESC')
+        .offset((page - 1) * NEARBY_RESULTS_PER_PAGE)
+        .limit(NEARBY_RESULTS_PER_PAGE)
+        .getRawAndEntities();
+
+      const results = entities.map((restaurant) => ({
+        restaurant,
+        distanceKm: raw.find((row) => row.restaurant_id === restaurant.id)
+          .distance,
+      }));
+
+      return {
+        ok: true,
+        results,
+        totalCount,
+        totalPages: Math.ceil(totalCount / NEARBY_RESULTS_PER_PAGE),
+      };
+    } catch (error) {
+      return { ok: false, error: 'Could not load nearby restaurants.' };
+    }
+  }
+
+  async findDishes({
+    restaurantId,
+    ...connectionArgs
+  }: DishesInput): Promise<DishesOutput> {
+    try {
+      const connection = await paginate(
+        this.dishes
+          .createQueryBuilder('dish')
+          .where('dish.restaurant = :restaurantId', { restaurantId }),
+        connectionArgs,
+      );
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load dishes.' };
+    }
+  }
+
+  async createDish(
+    owner: User,
+    { restaurantId, ...data }: CreateDishInput,
+  ): Promise<CreateDishOutput> {
+    try {
+      const { restaurant, error } = await this.findOwnedRestaurant(
+        owner,
+        restaurantId,
+      );
+      if (error) {
+        return { ok: false, error };
+      }
+
+      const { id } = await this.dishes.save(
+        this.dishes.create({ ...data, restaurant }),
+      );
+
+      return { ok: true, dishId: id };
+    } catch (error) {
+      return { ok: false, error: 'Could not create dish.' };
+    }
+  }
+
+  async editDish(
+    owner: User,
+    { dishId, ...data }: EditDishInput,
+  ): Promise<EditDishOutput> {
+    try {
+      const dish = await this.dishes.findOne(dishId);
+      if (!dish) {
+        return { ok: false, error: 'Dish not found.' };
+      }
+
+      const { error } = await this.findOwnedRestaurant(
+        owner,
+        dish.restaurantId,
+      );
+      if (error) {
+        return { ok: false, error };
+      }
+
+      await this.dishes.save({ id: dishId, ...data });
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not edit dish.' };
+    }
+  }
+
+  async deleteDish(
+    owner: User,
+    { dishId }: DeleteDishInput,
+  ): Promise<DeleteDishOutput> {
+    try {
+      const dish = await this.dishes.findOne(dishId);
+      if (!dish) {
+        return { ok: false, error: 'Dish not found.' };
+      }
+
+      const { error } = await this.findOwnedRestaurant(
+        owner,
+        dish.restaurantId,
+      );
+      if (error) {
+        return { ok: false, error };
+      }
+
+      await this.dishes.delete(dishId);
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not delete dish.' };
+    }
   }
 }
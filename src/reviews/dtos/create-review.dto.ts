@@ -0,0 +1,19 @@
+import { Field, InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { Review } from '../entities';
+
+@InputType()
+export class CreateReviewInput extends PickType(Review, [
+  'rating',
+  'dishRatings',
+  'comment',
+]) {
+  @Field(() => Number)
+  orderId: number;
+}
+
+@ObjectType()
+export class CreateReviewOutput extends CoreOutput {
+  @Field(() => Number, { nullable: true })
+  reviewId?: number;
+}
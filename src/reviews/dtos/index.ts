@@ -0,0 +1,5 @@
+export * from './create-review.dto';
+export * from './reply-to-review.dto';
+export * from './report-review.dto';
+export * from './review-reports.dto';
+export * from './reviews.dto';
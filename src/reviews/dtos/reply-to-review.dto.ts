@@ -0,0 +1,17 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { IsString, MaxLength } from 'class-validator';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+@InputType()
+export class ReplyToReviewInput {
+  @Field(() => Number)
+  reviewId: number;
+
+  @Field(() => String)
+  @IsString()
+  @MaxLength(2000)
+  reply: string;
+}
+
+@ObjectType()
+export class ReplyToReviewOutput extends CoreOutput {}
@@ -0,0 +1,12 @@
+import { Field, InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { ReviewReport } from '../entities';
+
+@InputType()
+export class ReportReviewInput extends PickType(ReviewReport, ['reason']) {
+  @Field(() => Number)
+  reviewId: number;
+}
+
+@ObjectType()
+export class ReportReviewOutput extends CoreOutput {}
@@ -0,0 +1,9 @@
+import { ArgsType, ObjectType } from '@nestjs/graphql';
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { ReviewReport } from '../entities';
+
+@ArgsType()
+export class ReviewReportsInput extends ConnectionArgs {}
+
+@ObjectType()
+export class ReviewReportsOutput extends Paginated(ReviewReport) {}
@@ -0,0 +1,12 @@
+import { ArgsType, Field, ObjectType } from '@nestjs/graphql';
+import { ConnectionArgs, Paginated } from '../../common/dtos/pagination.dto';
+import { Review } from '../entities';
+
+@ArgsType()
+export class ReviewsInput extends ConnectionArgs {
+  @Field(() => Number)
+  restaurantId: number;
+}
+
+@ObjectType()
+export class ReviewsOutput extends Paginated(Review) {}
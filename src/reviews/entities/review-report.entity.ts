@@ -0,0 +1,34 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { Column, Entity, ManyToOne, RelationId, Unique } from 'typeorm';
+import { IsString, MaxLength } from 'class-validator';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Review } from './review.entity';
+
+@InputType('ReviewReportInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+@Unique(['review', 'reporter'])
+export class ReviewReport extends CoreEntity {
+  @Field(() => Review)
+  @ManyToOne(() => Review, { onDelete: 'CASCADE' })
+  review: Review;
+
+  @Field(() => Number)
+  @RelationId((report: ReviewReport) => report.review)
+  reviewId: number;
+
+  @Field(() => User)
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  reporter: User;
+
+  @RelationId((report: ReviewReport) => report.reporter)
+  reporterId: number;
+
+  @Field(() => String)
+  @Column()
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
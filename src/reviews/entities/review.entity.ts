@@ -0,0 +1,102 @@
+import { Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToOne,
+  RelationId,
+} from 'typeorm';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from '../../users/entities';
+import { Order } from '../../orders/entities';
+import { Restaurant } from '../../restaurants/entities';
+
+@InputType('DishRatingInputType', { isAbstract: true })
+@ObjectType()
+export class DishRating {
+  @Field(() => Number)
+  dishId: number;
+
+  @Field(() => Int)
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+}
+
+@InputType('ReviewInputType', { isAbstract: true })
+@ObjectType()
+@Entity()
+export class Review extends CoreEntity {
+  // The join column is unique, so an order can only be reviewed once. Not a
+  // field: the order would expose the author and their address.
+  @OneToOne(() => Order, { onDelete: 'CASCADE' })
+  @JoinColumn()
+  order: Order;
+
+  @Field(() => Number)
+  @RelationId((review: Review) => review.order)
+  orderId: number;
+
+  // Reviews are public, so the author isn't exposed as a field.
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  customer: User;
+
+  @RelationId((review: Review) => review.customer)
+  customerId: number;
+
+  @Field(() => Restaurant)
+  @ManyToOne(() => Restaurant, { onDelete: 'CASCADE' })
+  restaurant: Restaurant;
+
+  @Field(() => Number)
+  @RelationId((review: Review) => review.restaurant)
+  restaurantId: number;
+
+  @Field(() => Int)
+  @Column()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @Field(() => [DishRating], { nullable: true })
+  @Column({ type: 'json', nullable: true })
+  @ValidateNested({ each: true })
+  @Type(() => DishRating)
+  @IsOptional()
+  dishRatings?: DishRating[];
+
+  @Field(() => String, { nullable: true })
+  @Column({ nullable: true })
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  comment?: string;
+
+  // The owner's public answer; there is at most one per review.
+  @Field(() => String, { nullable: true })
+  @Column({ nullable: true })
+  @IsString()
+  @MaxLength(2000)
+  reply?: string;
+
+  @Field(() => Date, { nullable: true })
+  @Column({ nullable: true })
+  repliedAt?: Date;
+
+  @Column({ default: 0 })
+  reportCount: number;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { ReviewsResolver } from './reviews.resolver';
+import { ReviewsService } from './reviews.service';
+import { Review, ReviewReport } from './entities';
+import { Order } from '../orders/entities';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Review, ReviewReport, Order])],
+  providers: [ReviewsResolver, ReviewsService],
+})
+export class ReviewsModule {}
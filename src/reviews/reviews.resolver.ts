@@ -0,0 +1,64 @@
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+
+import { Review } from './entities';
+import { ReviewsService } from './reviews.service';
+import {
+  CreateReviewInput,
+  CreateReviewOutput,
+  ReplyToReviewInput,
+  ReplyToReviewOutput,
+  ReportReviewInput,
+  ReportReviewOutput,
+  ReviewReportsInput,
+  ReviewReportsOutput,
+  ReviewsInput,
+  ReviewsOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { AuthUser } from '../auth/auth-user.decorator';
+import { Role } from '../auth/role.decorator';
+
+@Resolver(() => Review)
+export class ReviewsResolver {
+  constructor(private readonly reviewsService: ReviewsService) {}
+
+  @Mutation(() => CreateReviewOutput)
+  @Role('Client')
+  createReview(
+    @AuthUser() customer: User,
+    @Args('input') createReviewInput: CreateReviewInput,
+  ): Promise<CreateReviewOutput> {
+    return this.reviewsService.createReview(customer, createReviewInput);
+  }
+
+  @Query(() => ReviewsOutput)
+  reviews(@Args() reviewsInput: ReviewsInput): Promise<ReviewsOutput> {
+    return this.reviewsService.getReviews(reviewsInput);
+  }
+
+  @Mutation(() => ReplyToReviewOutput)
+  @Role('Owner')
+  replyToReview(
+    @AuthUser() owner: User,
+    @Args('input') replyToReviewInput: ReplyToReviewInput,
+  ): Promise<ReplyToReviewOutput> {
+    return this.reviewsService.replyToReview(owner, replyToReviewInput);
+  }
+
+  @Mutation(() => ReportReviewOutput)
+  @Role('Any')
+  reportReview(
+    @AuthUser() reporter: User,
+    @Args('input') reportReviewInput: ReportReviewInput,
+  ): Promise<ReportReviewOutput> {
+    return this.reviewsService.reportReview(reporter, reportReviewInput);
+  }
+
+  @Query(() => ReviewReportsOutput)
+  @Role('Admin')
+  reviewReports(
+    @Args() reviewReportsInput: ReviewReportsInput,
+  ): Promise<ReviewReportsOutput> {
+    return this.reviewsService.getReviewReports(reviewReportsInput);
+  }
+}
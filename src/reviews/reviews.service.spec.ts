@@ -0,0 +1,409 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Connection, IsNull, Repository } from 'typeorm';
+
+import { Review, ReviewReport } from './entities';
+import { ReviewsService } from './reviews.service';
+import { User } from '../users/entities';
+import { Order, OrderStatus } from '../orders/entities';
+import { Dish, Restaurant } from '../restaurants/entities';
+import { paginate } from '../common/common.pagination';
+
+jest.mock('../common/common.pagination', () => ({
+  paginate: jest.fn(),
+}));
+
+const mockRepository = () => ({
+  findOne: jest.fn(),
+  save: jest.fn(),
+  create: jest.fn((entity) => entity),
+  update: jest.fn(),
+  increment: jest.fn(),
+  createQueryBuilder: jest.fn(),
+});
+
+const mockQueryBuilder = () => ({
+  update: jest.fn().mockReturnThis(),
+  set: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  setParameter: jest.fn().mockReturnThis(),
+  leftJoinAndSelect: jest.fn().mockReturnThis(),
+  execute: jest.fn(),
+});
+
+type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
+
+describe('ReviewsService', () => {
+  let reviewsRepository: MockRepository<Review>;
+  let reportsRepository: MockRepository<ReviewReport>;
+  let ordersRepository: MockRepository<Order>;
+  let restaurantRatings: ReturnType<typeof mockQueryBuilder>;
+  let dishRatings: ReturnType<typeof mockQueryBuilder>;
+  let service: ReviewsService;
+
+  const customer = { id: 1 } as User;
+  const owner = { id: 2 } as User;
+  const order = {
+    id: 7,
+    customerId: 1,
+    restaurantId: 3,
+    status: OrderStatus.Delivered,
+    items: [{ dishId: 10 }, { dishId: 11 }],
+  };
+  const reviewInput = {
+    orderId: 7,
+    rating: 4,
+    dishRatings: [{ dishId: 10, rating: 5 }],
+    comment: 'Tasty',
+  };
+
+  beforeEach(async () => {
+    restaurantRatings = mockQueryBuilder();
+    dishRatings = mockQueryBuilder();
+    const transactionRepositories = new Map<unknown, unknown>([
+      [Restaurant, { createQueryBuilder: () => restaurantRatings }],
+      [Dish, { createQueryBuilder: () => dishRatings }],
+    ]);
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ReviewsService,
+        {
+          provide: getRepositoryToken(Review),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(ReviewReport),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Order),
+          useValue: mockRepository(),
+        },
+        {
+          provide: Connection,
+          useFactory: (reviews) => ({
+            transaction: jest.fn((work) =>
+              work({
+                getRepository: (entity) =>
+                  entity === Review
+                    ? reviews
+                    : transactionRepositories.get(entity),
+              }),
+            ),
+          }),
+          inject: [getRepositoryToken(Review)],
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReviewsService>(ReviewsService);
+    reviewsRepository = module.get(getRepositoryToken(Review));
+    reportsRepository = module.get(getRepositoryToken(ReviewReport));
+    ordersRepository = module.get(getRepositoryToken(Order));
+  });
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  describe('createReview', () => {
+    it('should save the review and update the ratings', async () => {
+      ordersRepository.findOne.mockResolvedValue(order);
+      reviewsRepository.findOne.mockResolvedValue(undefined);
+      reviewsRepository.save.mockResolvedValue({ id: 20 });
+
+      const result = await service.createReview(customer, reviewInput);
+
+      expect(reviewsRepository.save).toHaveBeenCalledWith({
+        order,
+        customer,
+        restaurant: { id: 3 },
+        rating: 4,
+        dishRatings: [{ dishId: 10, rating: 5 }],
+        comment: 'Tasty',
+      });
+      expect(restaurantRatings.where).toHaveBeenCalledWith('id = :id', {
+        id: 3,
+      });
+      expect(restaurantRatings.setParameter).toHaveBeenCalledWith('rating', 4);
+      expect(dishRatings.where).toHaveBeenCalledWith('id = :id', { id: 10 });
+      expect(dishRatings.setParameter).toHaveBeenCalledWith('rating', 5);
+      expect(result).toEqual({ ok: true, reviewId: 20 });
+    });
+
+    it('should update the average without reading it first', async () => {
+      ordersRepository.findOne.mockResolvedValue(order);
+      reviewsRepository.save.mockResolvedValue({ id: 20 });
+
+      await service.createReview(customer, reviewInput);
+      const [[update]] = restaurantRatings.set.mock.calls;
+
+      expect(update.averageRating()).toEqual(
+        '("averageRating" * "reviewCount" + :rating) / ("reviewCount" + 1)',
+      );
+      expect(update.reviewCount()).toEqual('"reviewCount" + 1');
+    });
+
+    it('should fail if the order does not exist', async () => {
+      ordersRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.createReview(customer, reviewInput);
+
+      expect(result).toEqual({ ok: false, error: 'Order not found.' });
+    });
+
+    it("should fail if the order isn't the customer's", async () => {
+      ordersRepository.findOne.mockResolvedValue({ ...order, customerId: 9 });
+      const result = await service.createReview(customer, reviewInput);
+
+      expect(result).toEqual({
+        ok: false,
+        error: "You can't review this order.",
+      });
+    });
+
+    it("should fail if the order wasn't delivered", async () => {
+      ordersRepository.findOne.mockResolvedValue({
+        ...order,
+        status: OrderStatus.PickedUp,
+      });
+      const result = await service.createReview(customer, reviewInput);
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Only delivered orders can be reviewed.',
+      });
+    });
+
+    it('should fail if the order was already reviewed', async () => {
+      ordersRepository.findOne.mockResolvedValue(order);
+      reviewsRepository.findOne.mockResolvedValue({ id: 20 });
+      const result = await service.createReview(customer, reviewInput);
+
+      expect(reviewsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'This order has already been reviewed.',
+      });
+    });
+
+    it('should fail on dishes that were not ordered', async () => {
+      ordersRepository.findOne.mockResolvedValue(order);
+      const result = await service.createReview(customer, {
+        ...reviewInput,
+        dishRatings: [{ dishId: 12, rating: 5 }],
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Dish was not part of this order.',
+      });
+    });
+
+    it('should fail on dishes rated twice', async () => {
+      ordersRepository.findOne.mockResolvedValue(order);
+      const result = await service.createReview(customer, {
+        ...reviewInput,
+        dishRatings: [
+          { dishId: 10, rating: 5 },
+          { dishId: 10, rating: 1 },
+        ],
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Each dish can only be rated once.',
+      });
+    });
+
+    it('should fail on exception', async () => {
+      ordersRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.createReview(customer, reviewInput);
+
+      expect(result).toEqual({ ok: false, error: 'Could not create review.' });
+    });
+  });
+
+  describe('getReviews', () => {
+    it("should paginate the restaurant's reviews", async () => {
+      const query = mockQueryBuilder();
+      const connection = {
+        edges: [],
+        totalCount: 0,
+        pageInfo: { hasNextPage: false },
+      };
+      reviewsRepository.createQueryBuilder.mockReturnValue(query);
+      (paginate as jest.Mock).mockResolvedValue(connection);
+
+      const result = await service.getReviews({ restaurantId: 3, first: 20 });
+
+      expect(query.leftJoinAndSelect).toHaveBeenCalledWith(
+        'review.restaurant',
+        'restaurant',
+      );
+      expect(query.where).toHaveBeenCalledWith(
+        'review.restaurant = :restaurantId',
+        { restaurantId: 3 },
+      );
+      expect(paginate).toHaveBeenCalledWith(query, { first: 20 });
+      expect(result).toEqual({ ok: true, ...connection });
+    });
+
+    it('should fail on exception', async () => {
+      reviewsRepository.createQueryBuilder.mockImplementation(() => {
+        throw new Error();
+      });
+      const result = await service.getReviews({ restaurantId: 3, first: 20 });
+
+      expect(result).toEqual({ ok: false, error: 'Could not load reviews.' });
+    });
+  });
+
+  describe('replyToReview', () => {
+    const replyInput = { reviewId: 20, reply: 'Thanks!' };
+
+    it('should save the reply once', async () => {
+      reviewsRepository.findOne.mockResolvedValue({
+        id: 20,
+        restaurant: { ownerId: 2 },
+      });
+      reviewsRepository.update.mockResolvedValue({ affected: 1 });
+
+      const result = await service.replyToReview(owner, replyInput);
+
+      expect(reviewsRepository.update).toHaveBeenCalledWith(
+        { id: 20, reply: IsNull() },
+        { reply: 'Thanks!', repliedAt: expect.any(Date) },
+      );
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail if the review does not exist', async () => {
+      reviewsRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.replyToReview(owner, replyInput);
+
+      expect(result).toEqual({ ok: false, error: 'Review not found.' });
+    });
+
+    it("should fail if the owner doesn't own the restaurant", async () => {
+      reviewsRepository.findOne.mockResolvedValue({
+        id: 20,
+        restaurant: { ownerId: 9 },
+      });
+      const result = await service.replyToReview(owner, replyInput);
+
+      expect(reviewsRepository.update).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: "You can't reply to this review.",
+      });
+    });
+
+    it('should fail if there already is a reply', async () => {
+      reviewsRepository.findOne.mockResolvedValue({
+        id: 20,
+        restaurant: { ownerId: 2 },
+      });
+      reviewsRepository.update.mockResolvedValue({ affected: 0 });
+
+      const result = await service.replyToReview(owner, replyInput);
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'This review already has a reply.',
+      });
+    });
+
+    it('should fail on exception', async () => {
+      reviewsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.replyToReview(owner, replyInput);
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not reply to review.',
+      });
+    });
+  });
+
+  describe('reportReview', () => {
+    const reportInput = { reviewId: 20, reason: 'Spam' };
+    const review = { id: 20 };
+
+    it('should save the report and count it', async () => {
+      reviewsRepository.findOne.mockResolvedValue(review);
+      reportsRepository.findOne.mockResolvedValue(undefined);
+
+      const result = await service.reportReview(customer, reportInput);
+
+      expect(reportsRepository.save).toHaveBeenCalledWith({
+        review,
+        reporter: customer,
+        reason: 'Spam',
+      });
+      expect(reviewsRepository.increment).toHaveBeenCalledWith(
+        { id: 20 },
+        'reportCount',
+        1,
+      );
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail if the review does not exist', async () => {
+      reviewsRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.reportReview(customer, reportInput);
+
+      expect(result).toEqual({ ok: false, error: 'Review not found.' });
+    });
+
+    it('should only count one report per user', async () => {
+      reviewsRepository.findOne.mockResolvedValue(review);
+      reportsRepository.findOne.mockResolvedValue({ id: 1 });
+
+      const result = await service.reportReview(customer, reportInput);
+
+      expect(reportsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'You already reported this review.',
+      });
+    });
+
+    it('should fail on exception', async () => {
+      reviewsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.reportReview(customer, reportInput);
+
+      expect(result).toEqual({ ok: false, error: 'Could not report review.' });
+    });
+  });
+
+  describe('getReviewReports', () => {
+    it('should paginate the reports', async () => {
+      const query = mockQueryBuilder();
+      const connection = {
+        edges: [],
+        totalCount: 0,
+        pageInfo: { hasNextPage: false },
+      };
+      reportsRepository.createQueryBuilder.mockReturnValue(query);
+      (paginate as jest.Mock).mockResolvedValue(connection);
+
+      const result = await service.getReviewReports({ first: 20 });
+
+      expect(query.leftJoinAndSelect).toHaveBeenCalledWith(
+        'review.restaurant',
+        'restaurant',
+      );
+      expect(paginate).toHaveBeenCalledWith(query, { first: 20 });
+      expect(result).toEqual({ ok: true, ...connection });
+    });
+
+    it('should fail on exception', async () => {
+      reportsRepository.createQueryBuilder.mockImplementation(() => {
+        throw new Error();
+      });
+      const result = await service.getReviewReports({ first: 20 });
+
+      expect(result).toEqual({ ok: false, error: 'Could not load reports.' });
+    });
+  });
+});
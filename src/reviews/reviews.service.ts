@@ -0,0 +1,234 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Connection, EntityManager, IsNull, Repository } from 'typeorm';
+
+import { DishRating, Review, ReviewReport } from './entities';
+import {
+  CreateReviewInput,
+  CreateReviewOutput,
+  ReplyToReviewInput,
+  ReplyToReviewOutput,
+  ReportReviewInput,
+  ReportReviewOutput,
+  ReviewReportsInput,
+  ReviewReportsOutput,
+  ReviewsInput,
+  ReviewsOutput,
+} from './dtos';
+import { User } from '../users/entities';
+import { Order, OrderStatus } from '../orders/entities';
+import { Dish, Restaurant } from '../restaurants/entities';
+import { paginate } from '../common/common.pagination';
+
+@Injectable()
+export class ReviewsService {
+  constructor(
+    @InjectRepository(Review) private readonly reviews: Repository<Review>,
+    @InjectRepository(ReviewReport)
+    private readonly reports: Repository<ReviewReport>,
+    @InjectRepository(Order) private readonly orders: Repository<Order>,
+    private readonly connection: Connection,
+  ) {}
+
+  /**
+   * Reviews a Delivered order. The restaurant's and dishes' ratings are
+   * updated in the same transaction, so they always match the reviews.
+   */
+  async createReview(
+    customer: User,
+    { orderId, rating, dishRatings = [], comment }: CreateReviewInput,
+  ): Promise<CreateReviewOutput> {
+    try {
+      const order = await this.orders.findOne(orderId, {
+        relations: ['items'],
+      });
+      if (!order) {
+        return { ok: false, error: 'Order not found.' };
+      }
+
+      if (order.customerId !== customer.id) {
+        return { ok: false, error: "You can't review this order." };
+      }
+
+      if (order.status !== OrderStatus.Delivered) {
+        return { ok: false, error: 'Only delivered orders can be reviewed.' };
+      }
+
+      const existing = await this.reviews.findOne({ order: { id: orderId } });
+      if (existing) {
+        return { ok: false, error: 'This order has already been reviewed.' };
+      }
+
+      const error = this.checkDishRatings(order, dishRatings);
+      if (error) {
+        return { ok: false, error };
+      }
+
+      const review = await this.connection.transaction(async (manager) => {
+        const reviews = manager.getRepository(Review);
+        const review = await reviews.save(
+          reviews.create({
+            order,
+            customer,
+            restaurant: { id: order.restaurantId },
+            rating,
+            dishRatings,
+            comment,
+          }),
+        );
+
+        await this.addRating(manager, Restaurant, order.restaurantId, rating);
+        for (const { dishId, rating } of dishRatings) {
+          await this.addRating(manager, Dish, dishId, rating);
+        }
+
+        return review;
+      });
+
+      return { ok: true, reviewId: review.id };
+    } catch (error) {
+      return { ok: false, error: 'Could not create review.' };
+    }
+  }
+
+  async getReviews({
+    restaurantId,
+    ...connectionArgs
+  }: ReviewsInput): Promise<ReviewsOutput> {
+    try {
+      const connection = await paginate(
+        this.reviews
+          .createQueryBuilder('review')
+          .leftJoinAndSelect('review.restaurant', 'restaurant')
+          .where('review.restaurant = :restaurantId', { restaurantId }),
+        connectionArgs,
+      );
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load reviews.' };
+    }
+  }
+
+  async replyToReview(
+    owner: User,
+    { reviewId, reply }: ReplyToReviewInput,
+  ): Promise<ReplyToReviewOutput> {
+    try {
+      const review = await this.reviews.findOne(reviewId, {
+        relations: ['restaurant'],
+      });
+      if (!review) {
+        return { ok: false, error: 'Review not found.' };
+      }
+
+      if (review.restaurant.ownerId !== owner.id) {
+        return { ok: false, error: "You can't reply to this review." };
+      }
+
+      // Conditional, so two replies sent at once can't both be saved.
+      const { affected } = await this.reviews.update(
+        { id: reviewId, reply: IsNull() },
+        { reply, repliedAt: new Date() },
+      );
+      if (!affected) {
+        return { ok: false, error: 'This review already has a reply.' };
+      }
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not reply to review.' };
+    }
+  }
+
+  async reportReview(
+    reporter: User,
+    { reviewId, reason }: ReportReviewInput,
+  ): Promise<ReportReviewOutput> {
+    try {
+      const review = await this.reviews.findOne(reviewId);
+      if (!review) {
+        return { ok: false, error: 'Review not found.' };
+      }
+
+      const existing = await this.reports.findOne({
+        review: { id: reviewId },
+        reporter: { id: reporter.id },
+      });
+      if (existing) {
+        return { ok: false, error: 'You already reported this review.' };
+      }
+
+      await this.reports.save(
+        this.reports.create({ review, reporter, reason }),
+      );
+      await this.reviews.increment({ id: reviewId }, 'reportCount', 1);
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not report review.' };
+    }
+  }
+
+  async getReviewReports(
+    reviewReportsInput: ReviewReportsInput,
+  ): Promise<ReviewReportsOutput> {
+    try {
+      const connection = await paginate(
+        this.reports
+          .createQueryBuilder('report')
+          .leftJoinAndSelect('report.review', 'review')
+          .leftJoinAndSelect('review.restaurant', 'restaurant')
+          .leftJoinAndSelect('report.reporter', 'reporter'),
+        reviewReportsInput,
+      );
+
+      return { ok: true, ...connection };
+    } catch (error) {
+      return { ok: false, error: 'Could not load reports.' };
+    }
+  }
+
+  private checkDishRatings(
+    order: Order,
+    dishRatings: DishRating[],
+  ): string | undefined {
+    const rated = new Set<number>();
+    for (const { dishId } of dishRatings) {
+      if (!order.items.some((item) => item.dishId === dishId)) {
+        return 'Dish was not part of this order.';
+      }
+
+      if (rated.has(dishId)) {
+        return 'Each dish can only be rated once.';
+      }
+      rated.add(dishId);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Folds one more rating into the running average in a single UPDATE, so
+   * concurrent reviews don't overwrite each other's counts.
+   */
+  private async addRating(
+    manager: EntityManager,
+    target: typeof Restaurant | typeof Dish,
+    id: number,
+    rating: number,
+  ): Promise<void> {
+    await manager
+      .getRepository<Restaurant | Dish>(target)
+      .createQueryBuilder()
+      .update()
+      .set({
+        averageRating: () =>
+          '("averageRating" * "reviewCount" + :rating) / ("reviewCount" + 1)',
+        reviewCount: () => '"reviewCount" + 1',
+      })
+      .where('id = :id', { id })
+      .setParameter('rating', rating)
+      .execute();
+  }
+}
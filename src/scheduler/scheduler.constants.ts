@@ -0,0 +1,7 @@
+export const EXPIRE_PROMOTIONS = 'expirePromotions';
+export const PURGE_VERIFICATIONS = 'purgeVerifications';
+export const CANCEL_STALE_ORDERS = 'cancelStaleOrders';
+export const DELIVER_EMAILS = 'deliverEmails';
+
+export const VERIFICATION_MAX_AGE_DAYS = 7;
+export const PENDING_ORDER_MAX_AGE_MINUTES = 60;
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+
+import { SchedulerService } from './scheduler.service';
+import { RestaurantsModule } from '../restaurants/restaurants.module';
+import { UsersModule } from '../users/users.module';
+import { OrdersModule } from '../orders/orders.module';
+
+@Module({
+  imports: [
+    ScheduleModule.forRoot(),
+    RestaurantsModule,
+    UsersModule,
+    OrdersModule,
+  ],
+  providers: [SchedulerService],
+  exports: [SchedulerService],
+})
+export class SchedulerModule {}
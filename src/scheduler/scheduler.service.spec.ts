@@ -0,0 +1,131 @@
+import { Test } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+
+import { SchedulerService } from './scheduler.service';
+import { RestaurantService } from '../restaurants/restaurants.service';
+import { UsersService } from '../users/users.service';
+import { OrdersService } from '../orders/orders.service';
+import { OutboxService } from '../mail/outbox.service';
+
+const mockRestaurantService = () => ({
+  expirePromotions: jest.fn(),
+});
+
+const mockUsersService = () => ({
+  purgeVerifications: jest.fn(),
+});
+
+const mockOrdersService = () => ({
+  cancelStalePendingOrders: jest.fn(),
+});
+
+const mockOutboxService = () => ({
+  deliverDue: jest.fn(),
+});
+
+describe('SchedulerService', () => {
+  let service: SchedulerService;
+  let restaurantService: ReturnType<typeof mockRestaurantService>;
+  let usersService: ReturnType<typeof mockUsersService>;
+  let ordersService: ReturnType<typeof mockOrdersService>;
+  let outboxService: ReturnType<typeof mockOutboxService>;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        SchedulerService,
+        {
+          provide: RestaurantService,
+          useValue: mockRestaurantService(),
+        },
+        {
+          provide: UsersService,
+          useValue: mockUsersService(),
+        },
+        {
+          provide: OrdersService,
+          useValue: mockOrdersService(),
+        },
+        {
+          provide: OutboxService,
+          useValue: mockOutboxService(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<SchedulerService>(SchedulerService);
+    restaurantService = module.get(RestaurantService);
+    usersService = module.get(UsersService);
+    ordersService = module.get(OrdersService);
+    outboxService = module.get(OutboxService);
+
+    jest.useFakeTimers('modern').setSystemTime(new Date('2021-09-10'));
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => expect(service).toBeDefined());
+
+  it('should expire promotions as of now', async () => {
+    restaurantService.expirePromotions.mockResolvedValue(2);
+
+    await expect(service.expirePromotions()).resolves.toEqual(2);
+    expect(restaurantService.expirePromotions).toHaveBeenCalledWith(
+      new Date('2021-09-10'),
+    );
+    expect(Logger.prototype.log).toHaveBeenCalledWith(
+      'Finished expirePromotions: 2 changed.',
+    );
+  });
+
+  it('should purge verifications older than a week', async () => {
+    usersService.purgeVerifications.mockResolvedValue(1);
+
+    await expect(service.purgeVerifications()).resolves.toEqual(1);
+    expect(usersService.purgeVerifications).toHaveBeenCalledWith(
+      new Date('2021-09-03'),
+    );
+  });
+
+  it('should cancel orders pending for over an hour', async () => {
+    ordersService.cancelStalePendingOrders.mockResolvedValue(0);
+
+    await expect(service.cancelStaleOrders()).resolves.toEqual(0);
+    expect(ordersService.cancelStalePendingOrders).toHaveBeenCalledWith(
+      new Date('2021-09-09T23:00:00.000Z'),
+    );
+  });
+
+  it('should deliver queued emails', async () => {
+    outboxService.deliverDue.mockResolvedValue(3);
+
+    await expect(service.deliverEmails()).resolves.toEqual(3);
+    expect(outboxService.deliverDue).toHaveBeenCalled();
+    expect(Logger.prototype.log).toHaveBeenCalledTimes(1);
+    expect(Logger.prototype.log).toHaveBeenCalledWith(
+      'Finished deliverEmails: 3 changed.',
+    );
+  });
+
+  it('should not log email runs that sent nothing', async () => {
+    outboxService.deliverDue.mockResolvedValue(0);
+
+    await expect(service.deliverEmails()).resolves.toEqual(0);
+    expect(Logger.prototype.log).not.toHaveBeenCalled();
+  });
+
+  it('should log a failed run', async () => {
+    ordersService.cancelStalePendingOrders.mockRejectedValue(new Error());
+
+    await expect(service.cancelStaleOrders()).resolves.toEqual(0);
+    expect(Logger.prototype.error).toHaveBeenCalledWith(
+      'Failed cancelStaleOrders.',
+      expect.any(String),
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+import { RestaurantService } from '../restaurants/restaurants.service';
+import { UsersService } from '../users/users.service';
+import { OrdersService } from '../orders/orders.service';
+import { OutboxService } from '../mail/outbox.service';
+import {
+  CANCEL_STALE_ORDERS,
+  DELIVER_EMAILS,
+  EXPIRE_PROMOTIONS,
+  PENDING_ORDER_MAX_AGE_MINUTES,
+  PURGE_VERIFICATIONS,
+  VERIFICATION_MAX_AGE_DAYS,
+} from './scheduler.constants';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Periodic background jobs. Every job only touches rows that still need it,
+ * so running one again, or by hand, is harmless. Each returns how many rows
+ * it changed.
+ */
+@Injectable()
+export class SchedulerService {
+  private readonly logger = new Logger(SchedulerService.name);
+
+  constructor(
+    private readonly restaurantService: RestaurantService,
+    private readonly usersService: UsersService,
+    private readonly ordersService: OrdersService,
+    private readonly outboxService: OutboxService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: EXPIRE_PROMOTIONS })
+  expirePromotions(): Promise<number> {
+    return this.run(EXPIRE_PROMOTIONS, () =>
+      this.restaurantService.expirePromotions(new Date()),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: PURGE_VERIFICATIONS })
+  purgeVerifications(): Promise<number> {
+    return this.run(PURGE_VERIFICATIONS, () =>
+      this.usersService.purgeVerifications(
+        new Date(Date.now() - VERIFICATION_MAX_AGE_DAYS * DAY_MS),
+      ),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_5_MINUTES, { name: CANCEL_STALE_ORDERS })
+  cancelStaleOrders(): Promise<number> {
+    return this.run(CANCEL_STALE_ORDERS, () =>
+      this.ordersService.cancelStalePendingOrders(
+        new Date(Date.now() - PENDING_ORDER_MAX_AGE_MINUTES * MINUTE_MS),
+      ),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS, { name: DELIVER_EMAILS })
+  deliverEmails(): Promise<number> {
+    return this.run(DELIVER_EMAILS, () => this.outboxService.deliverDue(), {
+      quiet: true,
+    });
+  }
+
+  /** `quiet` jobs run too often to log every run, so they only log changes. */
+  private async run(
+    name: string,
+    job: () => Promise<number>,
+    { quiet = false } = {},
+  ): Promise<number> {
+    if (!quiet) {
+      this.logger.log(`Running ${name}.`);
+    }
+    try {
+      const count = await job();
+      if (!quiet || count) {
+        this.logger.log(`Finished ${name}: ${count} changed.`);
+      }
+      return count;
+    } catch (error) {
+      this.logger.error(`Failed ${name}.`, error.stack);
+      return 0;
+    }
+  }
+}
@@ -1,9 +1,20 @@
-import { InputType, ObjectType, PickType } from "@nestjs/graphql";
+import { Field, InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { IsEnum, IsOptional } from 'class-validator';
 import { User } from '../entities';
 import { CoreOutput } from "../../common/dtos/output.dto";
+import { Locale } from '../../common/common.locale';
 
 @InputType()
-export class CreateAccountInput extends PickType(User, ['email', 'password', 'role']) {}
+export class CreateAccountInput extends PickType(User, [
+  'email',
+  'password',
+  'role',
+]) {
+  @Field(() => Locale, { nullable: true })
+  @IsOptional()
+  @IsEnum(Locale)
+  locale?: Locale;
+}
 
 @ObjectType()
 export class CreateAccountOutput extends CoreOutput {}
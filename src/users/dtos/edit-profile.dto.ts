@@ -6,4 +6,13 @@ import { User } from "../entities";
 export class EditProfileOutput extends CoreOutput {}
 
 @InputType()
-export class EditProfileInput extends PartialType(PickType(User, ['email', 'password'])) {}
\ No newline at end of file
+export class EditProfileInput extends PartialType(
+  PickType(User, [
+    'email',
+    'password',
+    'locale',
+    'orderReceiptEmails',
+    'orderStatusEmails',
+    'newOrderEmails',
+  ]),
+) {}
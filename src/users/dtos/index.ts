@@ -1,5 +1,10 @@
 export * from './create-account.dto';
 export * from './edit-profile.dto';
 export * from './login.dto';
+export * from './logout.dto';
+export * from './refresh-token.dto';
+export * from './request-password-reset.dto';
+export * from './resend-verification-email.dto';
+export * from './reset-password.dto';
 export * from './user-profile.dto';
 export * from './verify-email.dto';
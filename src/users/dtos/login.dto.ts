@@ -1,12 +1,21 @@
 import { Field, InputType, ObjectType, PickType } from "@nestjs/graphql";
+import { IsOptional, IsString } from 'class-validator';
 import { CoreOutput } from "../../common/dtos/output.dto";
 import { User } from "../entities";
 
 @InputType()
-export class LoginInput extends PickType(User, ["email", "password"]) {}
+export class LoginInput extends PickType(User, ['email', 'password']) {
+  @Field(() => String, { nullable: true })
+  @IsString()
+  @IsOptional()
+  deviceName?: string;
+}
 
 @ObjectType()
 export class LoginOutput extends CoreOutput {
   @Field(() => String, { nullable: true })
   token?: string;
+
+  @Field(() => String, { nullable: true })
+  refreshToken?: string;
 }
\ No newline at end of file
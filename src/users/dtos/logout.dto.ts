@@ -0,0 +1,8 @@
+import { ObjectType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+@ObjectType()
+export class LogoutOutput extends CoreOutput {}
+
+@ObjectType()
+export class LogoutAllDevicesOutput extends CoreOutput {}
@@ -0,0 +1,19 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { IsString } from 'class-validator';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+@InputType()
+export class RefreshTokenInput {
+  @Field(() => String)
+  @IsString()
+  refreshToken: string;
+}
+
+@ObjectType()
+export class RefreshTokenOutput extends CoreOutput {
+  @Field(() => String, { nullable: true })
+  token?: string;
+
+  @Field(() => String, { nullable: true })
+  refreshToken?: string;
+}
@@ -0,0 +1,9 @@
+import { InputType, ObjectType, PickType } from '@nestjs/graphql';
+import { CoreOutput } from '../../common/dtos/output.dto';
+import { User } from '../entities';
+
+@InputType()
+export class RequestPasswordResetInput extends PickType(User, ['email']) {}
+
+@ObjectType()
+export class RequestPasswordResetOutput extends CoreOutput {}
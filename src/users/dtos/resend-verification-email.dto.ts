@@ -0,0 +1,6 @@
+import { ObjectType } from '@nestjs/graphql';
+
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+@ObjectType()
+export class ResendVerificationEmailOutput extends CoreOutput {}
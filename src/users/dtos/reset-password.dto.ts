@@ -0,0 +1,18 @@
+import { Field, InputType, ObjectType } from '@nestjs/graphql';
+import { IsString, MinLength } from 'class-validator';
+import { CoreOutput } from '../../common/dtos/output.dto';
+
+@InputType()
+export class ResetPasswordInput {
+  @Field(() => String)
+  @IsString()
+  token: string;
+
+  @Field(() => String)
+  @IsString()
+  @MinLength(1)
+  newPassword: string;
+}
+
+@ObjectType()
+export class ResetPasswordOutput extends CoreOutput {}
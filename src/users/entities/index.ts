@@ -1,2 +1,5 @@
 export * from './user.entity';
 export * from './verification.entity';
+export * from './password-reset.entity';
+export * from './session.entity';
+export * from './login-attempt.entity';
@@ -0,0 +1,24 @@
+import { Column, Entity, Index, ManyToOne } from 'typeorm';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from './user.entity';
+
+/** Audit record of a single login attempt, also used to throttle by IP. */
+@Entity()
+@Index(['ip', 'attemptedAt'])
+export class LoginAttempt extends CoreEntity {
+  @Column()
+  email: string;
+
+  @Column({ nullable: true })
+  ip?: string;
+
+  @Column()
+  succeeded: boolean;
+
+  @Column()
+  attemptedAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  user?: User;
+}
@@ -0,0 +1,20 @@
+import { Column, Entity, ManyToOne } from 'typeorm';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from './user.entity';
+
+@Entity()
+export class PasswordReset extends CoreEntity {
+  // Only a SHA-256 hash is kept, so a leaked table can't be used to log in.
+  @Column({ unique: true })
+  tokenHash: string;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ nullable: true })
+  usedAt?: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+}
@@ -0,0 +1,29 @@
+import { Column, Entity, ManyToOne, RelationId } from 'typeorm';
+
+import { CoreEntity } from '../../common/entities/core.entity';
+import { User } from './user.entity';
+
+/**
+ * One logged-in device. Every refresh bumps `generation`, so a refresh
+ * token from an earlier generation means the token was stolen and replayed.
+ */
+@Entity()
+export class Session extends CoreEntity {
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @RelationId((session: Session) => session.user)
+  userId: number;
+
+  @Column({ nullable: true })
+  deviceName?: string;
+
+  @Column({ default: 0 })
+  generation: number;
+
+  @Column()
+  lastUsedAt: Date;
+
+  @Column({ nullable: true })
+  revokedAt?: Date;
+}
@@ -1,4 +1,4 @@
-import { BeforeInsert, BeforeUpdate, Column, Entity } from "typeorm";
+import { BeforeInsert, BeforeUpdate, Column, Entity, OneToMany } from 'typeorm';
 import {
   Field,
   InputType,
@@ -7,14 +7,17 @@ import {
 } from '@nestjs/graphql';
 import * as bcrypt from 'bcrypt';
 import { InternalServerErrorException } from '@nestjs/common';
-import { IsEmail, IsEnum } from 'class-validator';
+import { IsBoolean, IsEmail, IsEnum } from 'class-validator';
 
 import { CoreEntity } from '../../common/entities/core.entity';
+import { Locale } from '../../common/common.locale';
+import { Restaurant } from '../../restaurants/entities';
 
-enum UserRole {
+export enum UserRole {
   Client,
   Owner,
   Delivery,
+  Admin,
 }
 
 registerEnumType(UserRole, { name: 'UserRole' });
@@ -41,6 +44,51 @@ export class User extends CoreEntity {
   @Column({ default: false })
   verified: boolean;
 
+  // Language of the emails sent to the user.
+  @Field(() => Locale)
+  @Column({ type: 'enum', enum: Locale, default: Locale.En })
+  @IsEnum(Locale)
+  locale: Locale;
+
+  // Order emails the user can opt out of; see `OrderNotificationsService`.
+  @Field(() => Boolean)
+  @Column({ default: true })
+  @IsBoolean()
+  orderReceiptEmails: boolean;
+
+  @Field(() => Boolean)
+  @Column({ default: true })
+  @IsBoolean()
+  orderStatusEmails: boolean;
+
+  // Owners only: an email for every new order at their restaurants.
+  @Field(() => Boolean)
+  @Column({ default: true })
+  @IsBoolean()
+  newOrderEmails: boolean;
+
+  // Failed logins since the last success or lockout; see `UsersService.login`.
+  @Column({ default: 0 })
+  failedLoginAttempts: number;
+
+  @Column({ nullable: true })
+  lockedUntil?: Date;
+
+  // Drivers only: whether they take new orders, and where they last were.
+  // Not fields: other users must not see a driver's whereabouts.
+  @Column({ default: false })
+  isAvailable: boolean;
+
+  @Column({ type: 'double precision', nullable: true })
+  lat?: number;
+
+  @Column({ type: 'double precision', nullable: true })
+  lng?: number;
+
+  @Field(() => [Restaurant], { nullable: true })
+  @OneToMany(() => Restaurant, (restaurant) => restaurant.owner)
+  restaurants: Restaurant[];
+
   @BeforeInsert()
   @BeforeUpdate()
   async hashPassword(): Promise<void> {
@@ -4,6 +4,9 @@ import { v4 as uuidv4 } from 'uuid';
 
 import { CoreEntity } from '../../common/entities/core.entity';
 import { User } from "./user.entity";
+import { VERIFICATION_TTL_HOURS } from '../users.constants';
+
+const VERIFICATION_TTL_MS = VERIFICATION_TTL_HOURS * 60 * 60 * 1000;
 
 @InputType({ isAbstract: true })
 @ObjectType()
@@ -13,6 +16,9 @@ export class Verification extends CoreEntity {
   @Field(() => String)
   code: string;
 
+  @Column()
+  expiresAt: Date;
+
   @OneToOne(() => User, { onDelete: "CASCADE"})
   @JoinColumn()
   user: User;
@@ -20,5 +26,6 @@ export class Verification extends CoreEntity {
   @BeforeInsert()
   createCode(): void {
     this.code = uuidv4();
+    this.expiresAt = new Date(Date.now() + VERIFICATION_TTL_MS);
   }
 }
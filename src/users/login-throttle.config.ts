@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+/** Limits for failed logins, read from the env validated in `AppModule`. */
+export const loginThrottleConfig = registerAs('loginThrottle', () => ({
+  maxAccountFailures: +(process.env.LOGIN_MAX_ACCOUNT_FAILURES ?? 5),
+  accountLockoutMinutes: +(process.env.LOGIN_ACCOUNT_LOCKOUT_MINUTES ?? 15),
+  maxIpFailures: +(process.env.LOGIN_MAX_IP_FAILURES ?? 20),
+  ipWindowMinutes: +(process.env.LOGIN_IP_WINDOW_MINUTES ?? 15),
+}));
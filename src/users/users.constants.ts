@@ -0,0 +1,3 @@
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+export const VERIFICATION_TTL_HOURS = 24;
+export const VERIFICATION_RESEND_INTERVAL_SECONDS = 60;
@@ -1,12 +1,29 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
 
 import { UsersService } from './users.service';
 import { UsersResolver } from './users.resolver';
-import { User, Verification } from "./entities";
+import {
+  LoginAttempt,
+  PasswordReset,
+  Session,
+  User,
+  Verification,
+} from './entities';
+import { loginThrottleConfig } from './login-throttle.config';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User, Verification])],
+  imports: [
+    TypeOrmModule.forFeature([
+      User,
+      Verification,
+      PasswordReset,
+      Session,
+      LoginAttempt,
+    ]),
+    ConfigModule.forFeature(loginThrottleConfig),
+  ],
   providers: [UsersResolver, UsersService],
   exports: [UsersService],
 })
@@ -1,30 +1,40 @@
 import { Args, Mutation, Query, Resolver } from "@nestjs/graphql";
-import { UseGuards } from "@nestjs/common";
 
-import { User } from './entities';
+import { Session, User } from './entities';
 import { UsersService } from './users.service';
 import {
   CreateAccountInput, CreateAccountOutput,
   EditProfileInput, EditProfileOutput,
   LoginInput, LoginOutput,
+  LogoutAllDevicesOutput,
+  LogoutOutput,
+  RefreshTokenInput,
+  RefreshTokenOutput,
+  RequestPasswordResetInput,
+  RequestPasswordResetOutput,
+  ResendVerificationEmailOutput,
+  ResetPasswordInput,
+  ResetPasswordOutput,
   UserProfileInput, UserProfileOutput,
   VerifyEmailInput, VerifyEmailOutput
 } from "./dtos";
-import { AuthGuard } from "../auth/auth.guard";
 import { AuthUser } from "../auth/auth-user.decorator";
+import { AuthSession } from '../auth/auth-session.decorator';
+import { ClientIp } from '../auth/client-ip.decorator';
+import { Role } from '../auth/role.decorator';
 
 @Resolver(() => User)
 export class UsersResolver {
   constructor(private readonly usersService: UsersService) {}
 
   @Query(() => User)
-  @UseGuards(AuthGuard)
+  @Role('Any')
   me(@AuthUser() authUser: User) {
     return authUser;
   }
 
   @Query(() => UserProfileOutput)
-  @UseGuards(AuthGuard)
+  @Role('Any')
   userProfile(@Args() { userId }: UserProfileInput): Promise<UserProfileOutput> {
     return this.usersService.findById(userId);
   }
@@ -35,12 +45,34 @@ export class UsersResolver {
   }
 
   @Mutation(() => LoginOutput)
-  login(@Args('input') loginInput: LoginInput): Promise<LoginOutput> {
-    return this.usersService.login(loginInput);
+  login(
+    @Args('input') loginInput: LoginInput,
+    @ClientIp() ip: string,
+  ): Promise<LoginOutput> {
+    return this.usersService.login(loginInput, ip);
+  }
+
+  @Mutation(() => RefreshTokenOutput)
+  refreshToken(
+    @Args('input') refreshTokenInput: RefreshTokenInput,
+  ): Promise<RefreshTokenOutput> {
+    return this.usersService.refreshToken(refreshTokenInput);
+  }
+
+  @Mutation(() => LogoutOutput)
+  @Role('Any')
+  logout(@AuthSession() session: Session): Promise<LogoutOutput> {
+    return this.usersService.logout(session);
+  }
+
+  @Mutation(() => LogoutAllDevicesOutput)
+  @Role('Any')
+  logoutAllDevices(@AuthUser() { id }: User): Promise<LogoutAllDevicesOutput> {
+    return this.usersService.logoutAllDevices(id);
   }
 
   @Mutation(() => EditProfileOutput)
-  @UseGuards(AuthGuard)
+  @Role('Any')
   editProfile(@AuthUser() { id }: User, @Args('input') editProfileInput: EditProfileInput): Promise<EditProfileOutput> {
     return this.usersService.editProfile(id, editProfileInput);
   }
@@ -49,4 +81,26 @@ export class UsersResolver {
   verifyEmail(@Args('input') { code }: VerifyEmailInput): Promise<VerifyEmailOutput> {
     return this.usersService.verifyEmail(code);
   }
+
+  @Mutation(() => ResendVerificationEmailOutput)
+  @Role('Any')
+  resendVerificationEmail(
+    @AuthUser() { id }: User,
+  ): Promise<ResendVerificationEmailOutput> {
+    return this.usersService.resendVerificationEmail(id);
+  }
+
+  @Mutation(() => RequestPasswordResetOutput)
+  requestPasswordReset(
+    @Args('input') requestPasswordResetInput: RequestPasswordResetInput,
+  ): Promise<RequestPasswordResetOutput> {
+    return this.usersService.requestPasswordReset(requestPasswordResetInput);
+  }
+
+  @Mutation(() => ResetPasswordOutput)
+  resetPassword(
+    @Args('input') resetPasswordInput: ResetPasswordInput,
+  ): Promise<ResetPasswordOutput> {
+    return this.usersService.resetPassword(resetPasswordInput);
+  }
 }
@@ -1,9 +1,19 @@
 import { Test } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-
-import { User, Verification } from './entities';
+import { Connection, FindOperator, Repository } from 'typeorm';
+
+import {
+  LoginAttempt,
+  PasswordReset,
+  Session,
+  User,
+  UserRole,
+  Verification,
+} from './entities';
 import { UsersService } from './users.service';
+import { loginThrottleConfig } from './login-throttle.config';
+import { CLOCK } from '../common/common.constants';
+import { Locale } from '../common/common.locale';
 import { JwtService } from '../jwt/jwt.service';
 import { MailService } from '../mail';
 
@@ -12,23 +22,58 @@ const mockRepository = () => ({
   findOneOrFail: jest.fn(),
   save: jest.fn(),
   create: jest.fn(),
+  update: jest.fn(),
   delete: jest.fn(),
+  count: jest.fn(),
+  createQueryBuilder: jest.fn(),
+});
+
+const mockQueryBuilder = () => ({
+  update: jest.fn().mockReturnThis(),
+  set: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  returning: jest.fn().mockReturnThis(),
+  execute: jest.fn(),
 });
 
 const mockJwtService = () => ({
   sign: jest.fn(() => 'signed-token'),
+  signRefreshToken: jest.fn(() => 'signed-refresh-token'),
   verify: jest.fn(),
 });
 
 const mockMailService = () => ({
   sendVerificationEmail: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendAccountLockedEmail: jest.fn(),
 });
 
+const throttle = {
+  maxAccountFailures: 3,
+  accountLockoutMinutes: 15,
+  maxIpFailures: 10,
+  ipWindowMinutes: 15,
+};
+
+const now = new Date('2021-09-01T12:00:00Z');
+
 type MockRepository<T> = Partial<Record<keyof Repository<T>, jest.Mock>>;
 
+// Transactions run straight away on the same mocked repositories.
+const mockConnection = (
+  repositories: Map<unknown, MockRepository<unknown>>,
+) => ({
+  transaction: jest.fn((work) =>
+    work({ getRepository: (entity) => repositories.get(entity) }),
+  ),
+});
+
 describe('UserService', () => {
   let usersRepository: MockRepository<User>;
   let verificationsRepository: MockRepository<Verification>;
+  let passwordResetsRepository: MockRepository<PasswordReset>;
+  let sessionsRepository: MockRepository<Session>;
+  let loginAttemptsRepository: MockRepository<LoginAttempt>;
   let service: UsersService;
   let mailService: MailService;
   let jwtService: JwtService;
@@ -45,6 +90,42 @@ describe('UserService', () => {
           provide: getRepositoryToken(Verification),
           useValue: mockRepository(),
         },
+        {
+          provide: getRepositoryToken(PasswordReset),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(Session),
+          useValue: mockRepository(),
+        },
+        {
+          provide: getRepositoryToken(LoginAttempt),
+          useValue: mockRepository(),
+        },
+        {
+          provide: loginThrottleConfig.KEY,
+          useValue: throttle,
+        },
+        {
+          provide: CLOCK,
+          useValue: { now: () => now },
+        },
+        {
+          provide: Connection,
+          useFactory: (users, verifications, passwordResets) =>
+            mockConnection(
+              new Map<unknown, MockRepository<unknown>>([
+                [User, users],
+                [Verification, verifications],
+                [PasswordReset, passwordResets],
+              ]),
+            ),
+          inject: [
+            getRepositoryToken(User),
+            getRepositoryToken(Verification),
+            getRepositoryToken(PasswordReset),
+          ],
+        },
         {
           provide: JwtService,
           useValue: mockJwtService(),
@@ -58,6 +139,9 @@ describe('UserService', () => {
 
     usersRepository = module.get(getRepositoryToken(User));
     verificationsRepository = module.get(getRepositoryToken(Verification));
+    passwordResetsRepository = module.get(getRepositoryToken(PasswordReset));
+    sessionsRepository = module.get(getRepositoryToken(Session));
+    loginAttemptsRepository = module.get(getRepositoryToken(LoginAttempt));
     service = module.get<UsersService>(UsersService);
     mailService = module.get<MailService>(MailService);
     jwtService = module.get<JwtService>(JwtService);
@@ -83,6 +167,64 @@ describe('UserService', () => {
     });
   })
 
+  describe('findByToken', () => {
+    const accessToken = { id: 1, sid: 2, typ: 'access' };
+
+    it('should find the user of a token', async () => {
+      jwtService.verify = jest.fn(() => accessToken);
+      sessionsRepository.findOne.mockResolvedValue({
+        id: 2,
+        userId: 1,
+        user: { id: 1 },
+      });
+      const result = await service.findByToken('token');
+
+      expect(jwtService.verify).toHaveBeenCalledWith('token');
+      expect(sessionsRepository.findOne).toHaveBeenCalledWith(2, {
+        relations: ['user'],
+      });
+      expect(result).toEqual({ id: 1 });
+    });
+
+    it('should reject a token of a revoked session', async () => {
+      jwtService.verify = jest.fn(() => accessToken);
+      sessionsRepository.findOne.mockResolvedValue({
+        id: 2,
+        userId: 1,
+        user: { id: 1 },
+        revokedAt: new Date(),
+      });
+      const result = await service.findByToken('token');
+
+      expect(result).toBeUndefined();
+    });
+
+    it('should reject a refresh token', async () => {
+      jwtService.verify = jest.fn(() => ({ sid: 2, gen: 0, typ: 'refresh' }));
+      const result = await service.findByToken('token');
+
+      expect(sessionsRepository.findOne).not.toHaveBeenCalled();
+      expect(result).toBeUndefined();
+    });
+
+    it('should reject an expired token', async () => {
+      jwtService.verify = jest.fn(() => {
+        throw new Error('jwt expired');
+      });
+      const result = await service.findByToken('token');
+
+      expect(result).toBeUndefined();
+    });
+
+    it('should return nothing if session is not found', async () => {
+      jwtService.verify = jest.fn(() => accessToken);
+      sessionsRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.findByToken('token');
+
+      expect(result).toBeUndefined();
+    });
+  });
+
   describe('createAccount', () => {
     const createAccountArgs = {
       email: 'email',
@@ -100,11 +242,26 @@ describe('UserService', () => {
       });
     });
 
+    it('should not create admin accounts', async () => {
+      usersRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.createAccount({
+        ...createAccountArgs,
+        role: UserRole.Admin,
+      });
+
+      expect(usersRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Can not create an admin account.',
+      });
+    });
+
     it('should create new user', async () => {
       usersRepository.findOne.mockResolvedValue(undefined);
       usersRepository.create.mockReturnValue(createAccountArgs);
-      usersRepository.save.mockResolvedValue(createAccountArgs);
-      verificationsRepository.create.mockReturnValue({ user: createAccountArgs });
+      const savedUser = { ...createAccountArgs, locale: Locale.En };
+      usersRepository.save.mockResolvedValue(savedUser);
+      verificationsRepository.create.mockReturnValue({ user: savedUser });
       verificationsRepository.save.mockResolvedValue({ code: 'code' });
 
       const result = await service.createAccount(createAccountArgs);
@@ -116,13 +273,22 @@ describe('UserService', () => {
       expect(usersRepository.save).toHaveBeenLastCalledWith(createAccountArgs);
 
       expect(verificationsRepository.create).toHaveBeenCalledTimes(1);
-      expect(verificationsRepository.create).toHaveBeenLastCalledWith({ user: createAccountArgs });
+      expect(verificationsRepository.create).toHaveBeenLastCalledWith({
+        user: savedUser,
+      });
 
       expect(verificationsRepository.save).toHaveBeenCalledTimes(1);
-      expect(verificationsRepository.save).toHaveBeenLastCalledWith({ user: createAccountArgs });
+      expect(verificationsRepository.save).toHaveBeenLastCalledWith({
+        user: savedUser,
+      });
 
       expect(mailService.sendVerificationEmail).toHaveBeenCalledTimes(1);
-      expect(mailService.sendVerificationEmail).toHaveBeenLastCalledWith(expect.any(String), expect.any(String));
+      expect(mailService.sendVerificationEmail).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.any(String),
+        Locale.En,
+        expect.anything(),
+      );
 
       expect(result).toEqual({ ok: true })
     });
@@ -141,33 +307,208 @@ describe('UserService', () => {
       password: 'password',
     };
 
+    let query: ReturnType<typeof mockQueryBuilder>;
+
+    beforeEach(() => {
+      loginAttemptsRepository.create.mockImplementation((attempt) => attempt);
+      loginAttemptsRepository.save.mockImplementation(async (attempt) => ({
+        id: 7,
+        ...attempt,
+      }));
+      query = mockQueryBuilder();
+      usersRepository.createQueryBuilder.mockReturnValue(query);
+    });
+
     it('should fail if user does not exist', async () => {
       usersRepository.findOne.mockResolvedValue(null);
       const result = await service.login(loginArgs);
 
       expect(usersRepository.findOne).toHaveBeenCalledTimes(1);
       expect(usersRepository.findOne).toHaveBeenLastCalledWith(expect.any(Object), expect.any(Object));
+      expect(loginAttemptsRepository.save).toHaveBeenCalledWith({
+        email: 'email',
+        ip: undefined,
+        attemptedAt: now,
+        succeeded: false,
+      });
 
       expect(result).toEqual({ ok: false, error: 'User does not exist.' })
     });
 
     it('should fail if password wrong', async () => {
-      const mockedUser = { checkPassword: jest.fn(() => Promise.resolve(false)) };
+      const mockedUser = {
+        id: 1,
+        failedLoginAttempts: 0,
+        checkPassword: jest.fn(() => Promise.resolve(false)),
+      };
       usersRepository.findOne.mockResolvedValue(mockedUser);
-      const result = await service.login(loginArgs);
+      query.execute.mockResolvedValue({ raw: [{ failedLoginAttempts: 1 }] });
+      const result = await service.login(loginArgs, '1.2.3.4');
+
+      expect(loginAttemptsRepository.save).toHaveBeenCalledWith({
+        email: 'email',
+        ip: '1.2.3.4',
+        attemptedAt: now,
+        succeeded: false,
+      });
+      expect(loginAttemptsRepository.update).toHaveBeenCalledWith(7, {
+        user: mockedUser,
+      });
+      expect(query.set.mock.calls[0][0].failedLoginAttempts()).toEqual(
+        '"failedLoginAttempts" + 1',
+      );
+      expect(query.where).toHaveBeenCalledWith('id = :id', { id: 1 });
+      expect(usersRepository.update).not.toHaveBeenCalled();
+      expect(mailService.sendAccountLockedEmail).not.toHaveBeenCalled();
 
       expect(result).toEqual({ ok: false, error: 'Wrong credentials.' });
     });
 
-    it('should return token if password correct', async () => {
-      const mockedUser = { id: 1, checkPassword: jest.fn(() => Promise.resolve(true)) };
+    it('should lock the account and email the user after too many failures', async () => {
+      const mockedUser = {
+        id: 1,
+        email: 'email',
+        locale: Locale.Uk,
+        failedLoginAttempts: 2,
+        checkPassword: jest.fn(() => Promise.resolve(false)),
+      };
       usersRepository.findOne.mockResolvedValue(mockedUser);
+      query.execute.mockResolvedValue({ raw: [{ failedLoginAttempts: 3 }] });
+      usersRepository.update.mockResolvedValue({ affected: 1 });
       const result = await service.login(loginArgs);
+      const lockedUntil = new Date('2021-09-01T12:15:00Z');
+
+      expect(usersRepository.update).toHaveBeenCalledWith(
+        { id: 1, failedLoginAttempts: expect.any(FindOperator) },
+        { failedLoginAttempts: 0, lockedUntil },
+      );
+      expect(
+        usersRepository.update.mock.calls[0][0].failedLoginAttempts.value,
+      ).toEqual(3);
+      expect(mailService.sendAccountLockedEmail).toHaveBeenCalledWith(
+        'email',
+        lockedUntil,
+        Locale.Uk,
+        expect.anything(),
+      );
+      expect(result).toEqual({ ok: false, error: 'Wrong credentials.' });
+    });
+
+    it('should email the user only once when parallel failures lock the account', async () => {
+      const mockedUser = {
+        id: 1,
+        email: 'email',
+        failedLoginAttempts: 2,
+        checkPassword: jest.fn(() => Promise.resolve(false)),
+      };
+      usersRepository.findOne.mockResolvedValue(mockedUser);
+      query.execute.mockResolvedValue({ raw: [{ failedLoginAttempts: 4 }] });
+      usersRepository.update.mockResolvedValue({ affected: 0 });
+      await service.login(loginArgs);
+
+      expect(mailService.sendAccountLockedEmail).not.toHaveBeenCalled();
+    });
+
+    it('should reject a locked account without checking the password', async () => {
+      const mockedUser = {
+        id: 1,
+        lockedUntil: new Date('2021-09-01T12:10:00Z'),
+        checkPassword: jest.fn(),
+      };
+      usersRepository.findOne.mockResolvedValue(mockedUser);
+      const result = await service.login(loginArgs);
+
+      expect(mockedUser.checkPassword).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Too many failed login attempts. Try again later.',
+      });
+    });
+
+    it('should reject an IP with too many recent failures', async () => {
+      // Ten earlier failures and this attempt.
+      loginAttemptsRepository.count.mockResolvedValue(11);
+      const result = await service.login(loginArgs, '1.2.3.4');
+
+      expect(loginAttemptsRepository.count).toHaveBeenCalledWith({
+        ip: '1.2.3.4',
+        succeeded: false,
+        attemptedAt: expect.any(FindOperator),
+      });
+      expect(
+        loginAttemptsRepository.count.mock.calls[0][0].attemptedAt.value,
+      ).toEqual(new Date('2021-09-01T11:45:00Z'));
+      expect(usersRepository.findOne).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Too many failed login attempts. Try again later.',
+      });
+    });
+
+    it('should count the attempt before checking the IP', async () => {
+      loginAttemptsRepository.count.mockResolvedValue(10);
+      usersRepository.findOne.mockResolvedValue(null);
+      await service.login(loginArgs, '1.2.3.4');
+
+      expect(
+        loginAttemptsRepository.save.mock.invocationCallOrder[0],
+      ).toBeLessThan(loginAttemptsRepository.count.mock.invocationCallOrder[0]);
+      expect(usersRepository.findOne).toHaveBeenCalled();
+    });
 
+    it('should start a session if password correct', async () => {
+      const mockedUser = {
+        id: 1,
+        failedLoginAttempts: 0,
+        checkPassword: jest.fn(() => Promise.resolve(true)),
+      };
+      usersRepository.findOne.mockResolvedValue(mockedUser);
+      loginAttemptsRepository.count.mockResolvedValue(0);
+      sessionsRepository.create.mockImplementation((session) => session);
+      sessionsRepository.save.mockResolvedValue({ id: 2, generation: 0 });
+      const result = await service.login(
+        { ...loginArgs, deviceName: 'phone' },
+        '1.2.3.4',
+      );
+
+      expect(usersRepository.update).not.toHaveBeenCalled();
+      expect(loginAttemptsRepository.update).toHaveBeenCalledWith(7, {
+        user: mockedUser,
+        succeeded: true,
+      });
+      expect(sessionsRepository.save).toHaveBeenCalledWith({
+        user: mockedUser,
+        deviceName: 'phone',
+        lastUsedAt: now,
+      });
       expect(jwtService.sign).toHaveBeenCalledTimes(1);
-      expect(jwtService.sign).toHaveBeenLastCalledWith(expect.any(Number));
+      expect(jwtService.sign).toHaveBeenLastCalledWith(1, 2);
+      expect(jwtService.signRefreshToken).toHaveBeenLastCalledWith(2, 0);
 
-      expect(result).toEqual({ ok: true, token: 'signed-token' });
+      expect(result).toEqual({
+        ok: true,
+        token: 'signed-token',
+        refreshToken: 'signed-refresh-token',
+      });
+    });
+
+    it('should reset the failure counter on success', async () => {
+      const mockedUser = {
+        id: 1,
+        failedLoginAttempts: 2,
+        lockedUntil: new Date('2021-09-01T11:00:00Z'),
+        checkPassword: jest.fn(() => Promise.resolve(true)),
+      };
+      usersRepository.findOne.mockResolvedValue(mockedUser);
+      sessionsRepository.create.mockImplementation((session) => session);
+      sessionsRepository.save.mockResolvedValue({ id: 2, generation: 0 });
+      const result = await service.login(loginArgs);
+
+      expect(usersRepository.update).toHaveBeenCalledWith(1, {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+      expect(result.ok).toBe(true);
     });
 
     it('should fail on exception', async () => {
@@ -180,13 +521,17 @@ describe('UserService', () => {
 
   describe('editProfile', () => {
     it('should change email', async () => {
-      const oldUser = { email: 'email', verified: true };
+      const oldUser = { email: 'email', verified: true, locale: Locale.En };
       const { input, userId } = {
         userId: 1,
         input: { email: 'newEmail' },
       };
       const newVerification = { code: 'code' };
-      const newUser = { verified: false, email: input.email };
+      const newUser = {
+        verified: false,
+        email: input.email,
+        locale: Locale.En,
+      };
 
       usersRepository.findOne.mockResolvedValue(oldUser);
       verificationsRepository.create.mockReturnValue(newVerification);
@@ -201,7 +546,12 @@ describe('UserService', () => {
       expect(verificationsRepository.save).toHaveBeenCalledWith(newVerification);
 
       expect(mailService.sendVerificationEmail).toHaveBeenCalledTimes(1);
-      expect(mailService.sendVerificationEmail).toHaveBeenCalledWith(newUser.email, newVerification.code);
+      expect(mailService.sendVerificationEmail).toHaveBeenCalledWith(
+        newUser.email,
+        newVerification.code,
+        Locale.En,
+        expect.anything(),
+      );
     });
 
     it('should change password', async () => {
@@ -221,6 +571,21 @@ describe('UserService', () => {
       expect(result).toEqual({ ok: true });
     })
 
+    it('should change notification preferences', async () => {
+      usersRepository.findOne.mockResolvedValue({
+        orderReceiptEmails: true,
+        orderStatusEmails: true,
+      });
+      const result = await service.editProfile(1, { orderStatusEmails: false });
+
+      expect(usersRepository.save).toHaveBeenCalledWith({
+        orderReceiptEmails: true,
+        orderStatusEmails: false,
+      });
+      expect(mailService.sendVerificationEmail).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: true });
+    });
+
     it('should fail on exception', async () => {
       const { input, userId } = {
         userId: 1,
@@ -237,6 +602,7 @@ describe('UserService', () => {
     it('should verify email', async () => {
       const mockedVerification = {
         id: 1,
+        expiresAt: new Date(Date.now() + 60 * 1000),
         user: { verified: false },
       }
       verificationsRepository.findOne.mockResolvedValue(mockedVerification);
@@ -261,6 +627,21 @@ describe('UserService', () => {
       expect(result).toEqual({ ok: false, error: 'Verification not found.'})
     });
 
+    it('should fail on expired verification', async () => {
+      verificationsRepository.findOne.mockResolvedValue({
+        id: 1,
+        expiresAt: new Date(Date.now() - 1000),
+        user: { verified: false },
+      });
+      const result = await service.verifyEmail('code');
+
+      expect(usersRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Verification code has expired.',
+      });
+    });
+
     it('should fail on exception', async () => {
       verificationsRepository.findOne.mockRejectedValue(new Error());
       const result = await service.verifyEmail('code');
@@ -268,4 +649,306 @@ describe('UserService', () => {
       expect(result).toEqual({ ok: false, error: 'Could not verify email.' });
     });
   });
+
+  describe('resendVerificationEmail', () => {
+    const user = { id: 1, email: 'email', verified: false, locale: Locale.En };
+
+    beforeEach(() => {
+      jest
+        .useFakeTimers('modern')
+        .setSystemTime(new Date('2021-09-01T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fail if the email is already verified', async () => {
+      usersRepository.findOne.mockResolvedValue({ ...user, verified: true });
+      const result = await service.resendVerificationEmail(1);
+
+      expect(mailService.sendVerificationEmail).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Email is already verified.',
+      });
+    });
+
+    it('should throttle repeated requests', async () => {
+      usersRepository.findOne.mockResolvedValue(user);
+      verificationsRepository.findOne.mockResolvedValue({
+        createdAt: new Date('2021-09-01T11:59:30Z'),
+      });
+      const result = await service.resendVerificationEmail(1);
+
+      expect(verificationsRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Please wait before requesting another verification email.',
+      });
+    });
+
+    it('should replace the code and send it again', async () => {
+      usersRepository.findOne.mockResolvedValue(user);
+      verificationsRepository.findOne.mockResolvedValue({
+        createdAt: new Date('2021-09-01T11:58:00Z'),
+      });
+      verificationsRepository.create.mockReturnValue({ user });
+      verificationsRepository.save.mockResolvedValue({ code: 'new-code' });
+      const result = await service.resendVerificationEmail(1);
+
+      expect(verificationsRepository.delete).toHaveBeenCalledWith({
+        user: { id: 1 },
+      });
+      expect(verificationsRepository.save).toHaveBeenCalledWith({ user });
+      expect(mailService.sendVerificationEmail).toHaveBeenCalledWith(
+        'email',
+        'new-code',
+        Locale.En,
+        expect.anything(),
+      );
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail on exception', async () => {
+      usersRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.resendVerificationEmail(1);
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not resend verification email.',
+      });
+    });
+  });
+
+  describe('purgeVerifications', () => {
+    it('should delete old verifications', async () => {
+      verificationsRepository.delete.mockResolvedValue({ affected: 2 });
+      const result = await service.purgeVerifications(new Date('2021-09-01'));
+
+      expect(verificationsRepository.delete).toHaveBeenCalledWith({
+        createdAt: expect.any(FindOperator),
+      });
+      expect(result).toEqual(2);
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a reset token and store only its hash', async () => {
+      const user = { id: 1, email: 'email' };
+      usersRepository.findOne.mockResolvedValue(user);
+      passwordResetsRepository.create.mockImplementation(
+        (passwordReset) => passwordReset,
+      );
+      const result = await service.requestPasswordReset({ email: 'email' });
+
+      expect(passwordResetsRepository.delete).toHaveBeenCalledWith({
+        user: { id: 1 },
+      });
+      const [email, token] = (mailService.sendPasswordResetEmail as jest.Mock)
+        .mock.calls[0];
+      expect(email).toEqual('email');
+      expect(passwordResetsRepository.save).toHaveBeenCalledWith({
+        user,
+        tokenHash: expect.any(String),
+        expiresAt: expect.any(Date),
+      });
+      expect(
+        passwordResetsRepository.save.mock.calls[0][0].tokenHash,
+      ).not.toEqual(token);
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should respond the same way for an unknown email', async () => {
+      usersRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.requestPasswordReset({ email: 'nobody' });
+
+      expect(passwordResetsRepository.save).not.toHaveBeenCalled();
+      expect(mailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail on exception', async () => {
+      usersRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.requestPasswordReset({ email: 'email' });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Could not request password reset.',
+      });
+    });
+  });
+
+  describe('resetPassword', () => {
+    const resetPasswordArgs = { token: 'token', newPassword: 'new' };
+    const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+    it('should fail on an unknown token', async () => {
+      passwordResetsRepository.findOne.mockResolvedValue(undefined);
+      const result = await service.resetPassword(resetPasswordArgs);
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'Reset token is invalid or has expired.',
+      });
+    });
+
+    it('should fail on an expired token', async () => {
+      passwordResetsRepository.findOne.mockResolvedValue({
+        id: 1,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      const result = await service.resetPassword(resetPasswordArgs);
+
+      expect(passwordResetsRepository.update).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Reset token is invalid or has expired.',
+      });
+    });
+
+    it('should fail if the token was claimed concurrently', async () => {
+      passwordResetsRepository.findOne.mockResolvedValue({
+        id: 1,
+        expiresAt: inAnHour(),
+        user: {},
+      });
+      passwordResetsRepository.update.mockResolvedValue({ affected: 0 });
+      const result = await service.resetPassword(resetPasswordArgs);
+
+      expect(usersRepository.save).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Reset token is invalid or has expired.',
+      });
+    });
+
+    it('should set the new password and revoke all sessions', async () => {
+      const user = { id: 2 };
+      passwordResetsRepository.findOne.mockResolvedValue({
+        id: 1,
+        expiresAt: inAnHour(),
+        user,
+      });
+      passwordResetsRepository.update.mockResolvedValue({ affected: 1 });
+      const result = await service.resetPassword(resetPasswordArgs);
+
+      expect(passwordResetsRepository.update).toHaveBeenCalledWith(
+        { id: 1, usedAt: expect.any(FindOperator) },
+        { usedAt: expect.any(Date) },
+      );
+      expect(usersRepository.save).toHaveBeenCalledWith({
+        id: 2,
+        password: 'new',
+      });
+      expect(sessionsRepository.update).toHaveBeenCalledWith(
+        { user: { id: 2 }, revokedAt: expect.any(FindOperator) },
+        { revokedAt: expect.any(Date) },
+      );
+      expect(result).toEqual({ ok: true });
+    });
+  });
+
+  describe('refreshToken', () => {
+    const refreshTokenArgs = { refreshToken: 'refresh-token' };
+
+    it('should fail on an access token', async () => {
+      jwtService.verify = jest.fn(() => ({ id: 1, sid: 2, typ: 'access' }));
+      const result = await service.refreshToken(refreshTokenArgs);
+
+      expect(result).toEqual({ ok: false, error: 'Invalid refresh token.' });
+    });
+
+    it('should fail if the session was revoked', async () => {
+      jwtService.verify = jest.fn(() => ({ sid: 2, gen: 0, typ: 'refresh' }));
+      sessionsRepository.findOne.mockResolvedValue({
+        id: 2,
+        revokedAt: new Date(),
+      });
+      const result = await service.refreshToken(refreshTokenArgs);
+
+      expect(result).toEqual({ ok: false, error: 'Session has been revoked.' });
+    });
+
+    it('should rotate the tokens', async () => {
+      jwtService.verify = jest.fn(() => ({ sid: 2, gen: 3, typ: 'refresh' }));
+      sessionsRepository.findOne.mockResolvedValue({
+        id: 2,
+        userId: 1,
+        generation: 3,
+      });
+      sessionsRepository.update.mockResolvedValue({ affected: 1 });
+      const result = await service.refreshToken(refreshTokenArgs);
+
+      expect(sessionsRepository.update).toHaveBeenCalledWith(
+        { id: 2, generation: 3, revokedAt: expect.any(FindOperator) },
+        { generation: 4, lastUsedAt: expect.any(Date) },
+      );
+      expect(jwtService.sign).toHaveBeenCalledWith(1, 2);
+      expect(jwtService.signRefreshToken).toHaveBeenCalledWith(2, 4);
+      expect(result).toEqual({
+        ok: true,
+        token: 'signed-token',
+        refreshToken: 'signed-refresh-token',
+      });
+    });
+
+    it('should revoke the session when an old token is reused', async () => {
+      jwtService.verify = jest.fn(() => ({ sid: 2, gen: 1, typ: 'refresh' }));
+      sessionsRepository.findOne.mockResolvedValue({
+        id: 2,
+        userId: 1,
+        generation: 3,
+      });
+      sessionsRepository.update.mockResolvedValueOnce({ affected: 0 });
+      const result = await service.refreshToken(refreshTokenArgs);
+
+      expect(sessionsRepository.update).toHaveBeenLastCalledWith(2, {
+        revokedAt: expect.any(Date),
+      });
+      expect(jwtService.sign).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        ok: false,
+        error: 'Refresh token was reused. Session has been revoked.',
+      });
+    });
+
+    it('should fail on exception', async () => {
+      jwtService.verify = jest.fn(() => ({ sid: 2, gen: 0, typ: 'refresh' }));
+      sessionsRepository.findOne.mockRejectedValue(new Error());
+      const result = await service.refreshToken(refreshTokenArgs);
+
+      expect(result).toEqual({ ok: false, error: 'Could not refresh token.' });
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the current session', async () => {
+      const result = await service.logout({ id: 2 } as Session);
+
+      expect(sessionsRepository.update).toHaveBeenCalledWith(2, {
+        revokedAt: expect.any(Date),
+      });
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('should fail on exception', async () => {
+      sessionsRepository.update.mockRejectedValue(new Error());
+      const result = await service.logout({ id: 2 } as Session);
+
+      expect(result).toEqual({ ok: false, error: 'Could not log out.' });
+    });
+  });
+
+  describe('logoutAllDevices', () => {
+    it('should revoke every session of the user', async () => {
+      const result = await service.logoutAllDevices(1);
+
+      expect(sessionsRepository.update).toHaveBeenCalledWith(
+        { user: { id: 1 }, revokedAt: expect.any(FindOperator) },
+        { revokedAt: expect.any(Date) },
+      );
+      expect(result).toEqual({ ok: true });
+    });
+  });
 });
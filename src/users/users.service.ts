@@ -1,24 +1,78 @@
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Injectable } from '@nestjs/common';
+import {
+  Connection,
+  IsNull,
+  LessThan,
+  MoreThan,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
 import { JwtService } from "../jwt/jwt.service";
 
-import { User, Verification } from "./entities";
+import {
+  LoginAttempt,
+  PasswordReset,
+  Session,
+  User,
+  UserRole,
+  Verification,
+} from './entities';
 import {
   VerifyEmailOutput, UserProfileOutput,
   EditProfileInput, EditProfileOutput,
   LoginInput, LoginOutput,
+  LogoutAllDevicesOutput,
+  LogoutOutput,
+  RefreshTokenInput,
+  RefreshTokenOutput,
   CreateAccountInput, CreateAccountOutput,
+  RequestPasswordResetInput,
+  RequestPasswordResetOutput,
+  ResendVerificationEmailOutput,
+  ResetPasswordInput,
+  ResetPasswordOutput,
 } from "./dtos";
 import { MailService } from "../mail";
+import {
+  PASSWORD_RESET_TTL_MINUTES,
+  VERIFICATION_RESEND_INTERVAL_SECONDS,
+} from './users.constants';
+import {
+  AccessTokenPayload,
+  RefreshTokenPayload,
+  TokenType,
+} from '../jwt/jwt.interfaces';
+import { loginThrottleConfig } from './login-throttle.config';
+import { CLOCK } from '../common/common.constants';
+import { Clock } from '../common/common.clock';
+
+interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User) private readonly users: Repository<User>,
     @InjectRepository(Verification) private readonly verifications: Repository<Verification>,
+    @InjectRepository(PasswordReset)
+    private readonly passwordResets: Repository<PasswordReset>,
+    @InjectRepository(Session) private readonly sessions: Repository<Session>,
+    @InjectRepository(LoginAttempt)
+    private readonly loginAttempts: Repository<LoginAttempt>,
+    @Inject(loginThrottleConfig.KEY)
+    private readonly throttle: ConfigType<typeof loginThrottleConfig>,
+    @Inject(CLOCK) private readonly clock: Clock,
     private readonly jwtService: JwtService,
     private readonly mailService: MailService,
+    private readonly connection: Connection,
   ) {}
 
   async findById(id: number): Promise<UserProfileOutput> {
@@ -31,7 +85,41 @@ export class UsersService {
     }
   }
 
-  async createAccount({ email, password, role }: CreateAccountInput): Promise<CreateAccountOutput> {
+  async findByToken(token: string): Promise<User | undefined> {
+    const session = await this.findSessionByToken(token);
+
+    return session?.user;
+  }
+
+  /**
+   * Resolves an access token to its session. Expired tokens, refresh tokens
+   * and tokens of revoked sessions resolve to nothing.
+   */
+  async findSessionByToken(token: string): Promise<Session | undefined> {
+    const payload = this.decodeToken<AccessTokenPayload>(
+      token,
+      TokenType.Access,
+    );
+    if (!payload) {
+      return undefined;
+    }
+
+    const session = await this.sessions.findOne(payload.sid, {
+      relations: ['user'],
+    });
+    if (!session || session.revokedAt || session.userId !== payload.id) {
+      return undefined;
+    }
+
+    return session;
+  }
+
+  async createAccount({
+    email,
+    password,
+    role,
+    locale,
+  }: CreateAccountInput): Promise<CreateAccountOutput> {
     try {
       const existingUser = await this.users.findOne({ email });
 
@@ -39,9 +127,29 @@ export class UsersService {
         return { ok: false, error: "User is already exist." };
       }
 
-      const user = await this.users.save(this.users.create({ email, password, role }));
-      const { code } = await this.verifications.save(this.verifications.create({ user }));
-      await this.mailService.sendVerificationEmail(email, code);
+      if (role === UserRole.Admin) {
+        return { ok: false, error: 'Can not create an admin account.' };
+      }
+
+      // The verification email is queued in the same transaction, so it
+      // exists if and only if the account does.
+      await this.connection.transaction(async (manager) => {
+        const users = manager.getRepository(User);
+        const verifications = manager.getRepository(Verification);
+
+        const user = await users.save(
+          users.create({ email, password, role, locale }),
+        );
+        const { code } = await verifications.save(
+          verifications.create({ user }),
+        );
+        await this.mailService.sendVerificationEmail(
+          email,
+          code,
+          user.locale,
+          manager,
+        );
+      });
 
       return { ok: true };
     } catch (error) {
@@ -49,42 +157,121 @@ export class UsersService {
     }
   }
 
-  async login({ email, password }: LoginInput): Promise<LoginOutput> {
+  /**
+   * Every attempt is recorded. Too many failures lock the account for a while
+   * and email its owner; too many failures from one IP block that IP for the
+   * rest of the window, whichever accounts it tries.
+   */
+  async login(
+    { email, password, deviceName }: LoginInput,
+    ip?: string,
+  ): Promise<LoginOutput> {
     try {
-      const user = await this.users.findOne({email}, { select: ['id', 'password']});
+      const now = this.clock.now();
+      // Recorded as a failure before anything is checked, so concurrent attempts
+      // from one IP all count towards its limit; marked as a success at the end.
+      const attempt = await this.loginAttempts.save(
+        this.loginAttempts.create({
+          email,
+          ip,
+          attemptedAt: now,
+          succeeded: false,
+        }),
+      );
+      if (ip && (await this.isIpThrottled(ip, now))) {
+        return {
+          ok: false,
+          error: 'Too many failed login attempts. Try again later.',
+        };
+      }
+
+      const user = await this.users.findOne(
+        { email },
+        {
+          select: [
+            'id',
+            'email',
+            'password',
+            'locale',
+            'failedLoginAttempts',
+            'lockedUntil',
+          ],
+        },
+      );
       if (!user) {
         return { ok: false, error: 'User does not exist.' };
       }
 
+      if (user.lockedUntil && user.lockedUntil > now) {
+        await this.loginAttempts.update(attempt.id, { user });
+        return {
+          ok: false,
+          error: 'Too many failed login attempts. Try again later.',
+        };
+      }
+
       const isPasswordCorrect = await user.checkPassword(password);
       if (!isPasswordCorrect) {
+        await this.loginAttempts.update(attempt.id, { user });
+        await this.registerFailedLogin(user, now);
         return { ok: false, error: 'Wrong credentials.' };
       }
 
-      const token = this.jwtService.sign(user.id);
+      if (user.failedLoginAttempts || user.lockedUntil) {
+        await this.users.update(user.id, {
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+        });
+      }
+      await this.loginAttempts.update(attempt.id, { user, succeeded: true });
+
+      const session = await this.sessions.save(
+        this.sessions.create({ user, deviceName, lastUsedAt: now }),
+      );
 
-      return { ok: true, token};
+      return { ok: true, ...this.issueTokens(user.id, session) };
     } catch (error) {
       return { ok: false, error: 'Can not log user in.'};
     }
   }
 
-  async editProfile(userId: number, { email, password }: EditProfileInput): Promise<EditProfileOutput> {
+  async editProfile(
+    userId: number,
+    { email, password, locale, ...notifications }: EditProfileInput,
+  ): Promise<EditProfileOutput> {
     try {
       const user = await this.users.findOne(userId);
-      if (email) {
-        user.email = email;
-        user.verified = false;
-        await this.verifications.delete({ user: { id: user.id}});
-        const { code } = await this.verifications.save(this.verifications.create({ user }));
-        await this.mailService.sendVerificationEmail(email, code);
+      if (locale) {
+        user.locale = locale;
       }
 
+      Object.assign(user, notifications);
+
       if (password) {
         user.password = password;
       }
 
-      await this.users.save(user);
+      await this.connection.transaction(async (manager) => {
+        const users = manager.getRepository(User);
+        const verifications = manager.getRepository(Verification);
+
+        if (email) {
+          user.email = email;
+          user.verified = false;
+          await verifications.delete({ user: { id: user.id } });
+          const { code } = await verifications.save(
+            verifications.create({ user }),
+          );
+          await this.mailService.sendVerificationEmail(
+            email,
+            code,
+            user.locale,
+            manager,
+          );
+        }
+
+        await users.save(user);
+      });
 
       return { ok: true };
     } catch (error) {
@@ -95,17 +282,312 @@ export class UsersService {
   async verifyEmail(code: string): Promise<VerifyEmailOutput> {
     try {
       const verification = await this.verifications.findOne({ code }, { relations: ['user'] });
-      if (verification) {
-        verification.user.verified = true;
-        await this.users.save(verification.user);
-        await this.verifications.delete(verification.id);
+      if (!verification) {
+        return { ok: false, error: 'Verification not found.' };
+      }
 
-        return { ok: true };
+      if (verification.expiresAt <= new Date()) {
+        return { ok: false, error: 'Verification code has expired.' };
       }
 
-      return { ok: false, error: 'Verification not found.'};
+      verification.user.verified = true;
+      await this.users.save(verification.user);
+      await this.verifications.delete(verification.id);
+
+      return { ok: true };
     } catch (error) {
       return { ok: false, error: 'Could not verify email.'};
     }
   }
+
+  /**
+   * Replaces the user's verification code with a fresh one and emails it.
+   * A user can ask for a new email once per `VERIFICATION_RESEND_INTERVAL_SECONDS`.
+   */
+  async resendVerificationEmail(
+    userId: number,
+  ): Promise<ResendVerificationEmailOutput> {
+    try {
+      const user = await this.users.findOne(userId);
+      if (!user) {
+        return { ok: false, error: 'User not found.' };
+      }
+
+      if (user.verified) {
+        return { ok: false, error: 'Email is already verified.' };
+      }
+
+      const previous = await this.verifications.findOne({
+        user: { id: userId },
+      });
+      const throttledUntil =
+        previous &&
+        previous.createdAt.getTime() +
+          VERIFICATION_RESEND_INTERVAL_SECONDS * 1000;
+      if (throttledUntil && throttledUntil > Date.now()) {
+        return {
+          ok: false,
+          error: 'Please wait before requesting another verification email.',
+        };
+      }
+
+      await this.connection.transaction(async (manager) => {
+        const verifications = manager.getRepository(Verification);
+
+        await verifications.delete({ user: { id: userId } });
+        const { code } = await verifications.save(
+          verifications.create({ user }),
+        );
+        await this.mailService.sendVerificationEmail(
+          user.email,
+          code,
+          user.locale,
+          manager,
+        );
+      });
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not resend verification email.' };
+    }
+  }
+
+  /** Deletes verification codes created before `createdBefore`. */
+  async purgeVerifications(createdBefore: Date): Promise<number> {
+    const { affected } = await this.verifications.delete({
+      createdAt: LessThan(createdBefore),
+    });
+
+    return affected ?? 0;
+  }
+
+  /**
+   * Emails a one-time reset link. The response is the same whether or not
+   * the email belongs to an account.
+   */
+  async requestPasswordReset({
+    email,
+  }: RequestPasswordResetInput): Promise<RequestPasswordResetOutput> {
+    try {
+      const user = await this.users.findOne({ email });
+      if (user) {
+        await this.connection.transaction(async (manager) => {
+          const passwordResets = manager.getRepository(PasswordReset);
+          await passwordResets.delete({ user: { id: user.id } });
+
+          const token = randomBytes(32).toString('hex');
+          await passwordResets.save(
+            passwordResets.create({
+              user,
+              tokenHash: hashToken(token),
+              expiresAt: new Date(
+                Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000,
+              ),
+            }),
+          );
+          await this.mailService.sendPasswordResetEmail(
+            email,
+            token,
+            user.locale,
+            manager,
+          );
+        });
+      }
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not request password reset.' };
+    }
+  }
+
+  async resetPassword({
+    token,
+    newPassword,
+  }: ResetPasswordInput): Promise<ResetPasswordOutput> {
+    try {
+      const now = new Date();
+      const passwordReset = await this.passwordResets.findOne(
+        { tokenHash: hashToken(token) },
+        { relations: ['user'] },
+      );
+      if (
+        !passwordReset ||
+        passwordReset.usedAt ||
+        passwordReset.expiresAt < now
+      ) {
+        return { ok: false, error: 'Reset token is invalid or has expired.' };
+      }
+
+      // Claiming the token with a conditional update keeps it single-use
+      // even if the same link is submitted twice at once.
+      const { affected } = await this.passwordResets.update(
+        { id: passwordReset.id, usedAt: IsNull() },
+        { usedAt: now },
+      );
+      if (!affected) {
+        return { ok: false, error: 'Reset token is invalid or has expired.' };
+      }
+
+      const { user } = passwordReset;
+      user.password = newPassword;
+      await this.users.save(user);
+      await this.revokeSessions(user.id);
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not reset password.' };
+    }
+  }
+
+  /**
+   * Swaps a refresh token for a new pair. Presenting a refresh token that
+   * was already swapped revokes the whole session.
+   */
+  async refreshToken({
+    refreshToken,
+  }: RefreshTokenInput): Promise<RefreshTokenOutput> {
+    try {
+      const payload = this.decodeToken<RefreshTokenPayload>(
+        refreshToken,
+        TokenType.Refresh,
+      );
+      if (!payload) {
+        return { ok: false, error: 'Invalid refresh token.' };
+      }
+
+      const session = await this.sessions.findOne(payload.sid);
+      if (!session || session.revokedAt) {
+        return { ok: false, error: 'Session has been revoked.' };
+      }
+
+      const now = new Date();
+      const generation = payload.gen + 1;
+      const { affected } = await this.sessions.update(
+        { id: session.id, generation: payload.gen, revokedAt: IsNull() },
+        { generation, lastUsedAt: now },
+      );
+      if (!affected) {
+        await this.sessions.update(session.id, { revokedAt: now });
+
+        return {
+          ok: false,
+          error: 'Refresh token was reused. Session has been revoked.',
+        };
+      }
+
+      return {
+        ok: true,
+        ...this.issueTokens(session.userId, { ...session, generation }),
+      };
+    } catch (error) {
+      return { ok: false, error: 'Could not refresh token.' };
+    }
+  }
+
+  async logout(session: Session): Promise<LogoutOutput> {
+    try {
+      await this.sessions.update(session.id, { revokedAt: new Date() });
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not log out.' };
+    }
+  }
+
+  async logoutAllDevices(userId: number): Promise<LogoutAllDevicesOutput> {
+    try {
+      await this.revokeSessions(userId);
+
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, error: 'Could not log out.' };
+    }
+  }
+
+  private async revokeSessions(userId: number): Promise<void> {
+    await this.sessions.update(
+      { user: { id: userId }, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+
+  private issueTokens(
+    userId: number,
+    { id, generation }: Session,
+  ): SessionTokens {
+    return {
+      token: this.jwtService.sign(userId, id),
+      refreshToken: this.jwtService.signRefreshToken(id, generation),
+    };
+  }
+
+  private decodeToken<T extends AccessTokenPayload | RefreshTokenPayload>(
+    token: string,
+    type: T['typ'],
+  ): T | undefined {
+    try {
+      const payload = this.jwtService.verify(token);
+
+      return typeof payload === 'object' && payload['typ'] === type
+        ? (payload as T)
+        : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private async isIpThrottled(ip: string, now: Date): Promise<boolean> {
+    const windowStart = new Date(
+      now.getTime() - this.throttle.ipWindowMinutes * 60 * 1000,
+    );
+    // Includes the attempt being checked.
+    const failures = await this.loginAttempts.count({
+      ip,
+      succeeded: false,
+      attemptedAt: MoreThan(windowStart),
+    });
+
+    return failures > this.throttle.maxIpFailures;
+  }
+
+  private async registerFailedLogin(
+    { id, email, locale }: User,
+    now: Date,
+  ): Promise<void> {
+    // Counted in the database, so parallel attempts can't overwrite each other's count.
+    const { raw } = await this.users
+      .createQueryBuilder()
+      .update(User)
+      .set({ failedLoginAttempts: () => '"failedLoginAttempts" + 1' })
+      .where('id = :id', { id })
+      .returning('"failedLoginAttempts"')
+      .execute();
+    if (raw[0].failedLoginAttempts < this.throttle.maxAccountFailures) {
+      return;
+    }
+
+    const lockedUntil = new Date(
+      now.getTime() + this.throttle.accountLockoutMinutes * 60 * 1000,
+    );
+    await this.connection.transaction(async (manager) => {
+      // Only the attempt that actually locks the account sends the email.
+      const { affected } = await manager.getRepository(User).update(
+        {
+          id,
+          failedLoginAttempts: MoreThanOrEqual(
+            this.throttle.maxAccountFailures,
+          ),
+        },
+        { failedLoginAttempts: 0, lockedUntil },
+      );
+      if (affected) {
+        await this.mailService.sendAccountLockedEmail(
+          email,
+          lockedUntil,
+          locale,
+          manager,
+        );
+      }
+    });
+  }
 }